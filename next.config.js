@@ -12,7 +12,9 @@ const nextConfig = {
   },
   experimental: {
     serverActions: true,
-  }
+  },
+  // Loaded from node_modules at runtime so the OCR worker, language data and HEIC decoder resolve
+  serverExternalPackages: ['tesseract.js', '@tesseract.js-data/eng', 'heic-decode', 'libheif-js'],
 }
 
 module.exports = nextConfig 
\ No newline at end of file
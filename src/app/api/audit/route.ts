@@ -1,6 +1,21 @@
 import { NextResponse } from 'next/server';
-import sharp from 'sharp';
-import { INSTAGRAM_SCORING_CRITERIA, ScoringResult } from '@/types/instagram';
+import { BioAnalysis, CaptionReport, ExportMetrics, GridAesthetics, INSTAGRAM_EXPORT_THRESHOLDS, INSTAGRAM_HASHTAG_RANGE, INSTAGRAM_INSIGHTS_THRESHOLDS, INSTAGRAM_SCORING_CRITERIA, HighlightsInventory, MAX_EXPORT_MB, MAX_SCREENSHOTS, InstagramDataExport, KEY_HIGHLIGHT_LABELS, KeyHighlight, PROFILE_PICTURE_THRESHOLDS, ProfilePictureQuality, LINK_IN_BIO_THRESHOLDS, LinkInBioAudit, InsightsRates, InstagramInsights, InstagramProfile, PinnedPostsDetection, ProfileLayout, ProfileScreenshotText, ScoringResult, ScreenshotFinding, StoryHighlight } from '@/types/instagram';
+import { pixelStats, regionPixels, toGrayscale } from '@/lib/image';
+import { analyzeBio } from '@/lib/instagram/bio';
+import { analyzeCaptions, splitCaptions } from '@/lib/instagram/captions';
+import { exportMetrics, parseDataExport } from '@/lib/instagram/data-export';
+import { analyzeGridAesthetics, type GridSource } from '@/lib/instagram/grid-aesthetics';
+import { highlightsInventory, readHighlights } from '@/lib/instagram/highlights';
+import { insightsRates, mergeInsights, parseInsightsText } from '@/lib/instagram/insights';
+import { assessProfilePicture } from '@/lib/instagram/profile-picture';
+import { detectPinnedPosts } from '@/lib/instagram/pinned-posts';
+import { auditLinkInBio } from '@/lib/instagram/link-in-bio';
+import { fetchInstagramProfile } from '@/lib/instagram/profile';
+import { classifyScreenshot, type ScreenshotScan } from '@/lib/instagram/screenshot-classifier';
+import { parsePostCaption, parseProfileText } from '@/lib/instagram/screenshot-text';
+import { defineScorers, scoreAnalysis, thresholdCredit, unknown, type Thresholds, type UndeterminedCredit } from '@/lib/scoring';
+import { normalizeImage, UPLOAD_ERROR_STATUS, UploadError } from '@/lib/upload';
+import type { UploadErrorCode } from '@/types/image';
 
 interface Recommendation {
   category: string;
@@ -8,59 +23,96 @@ interface Recommendation {
   strengths: string[];
 }
 
+interface InstagramAnalysis {
+  // Null when nothing uploaded or fetched showed them
+  hasProfilePicture: boolean | null;
+  hasBio: boolean | null;
+  hasHighlights: boolean | null;
+  hasPinnedPosts: boolean | null;
+  hasBusinessType: boolean | null;
+  postCount: number | null;
+  gridLayout?: string;
+  // Read from the live profile or the screenshot text; undefined when neither was available
+  bioText?: string;
+  linkInBio?: string | null;
+  businessCategory?: string | null;
+  followerCount?: number | null;
+  profile?: InstagramProfile;
+  screenshotText?: ProfileScreenshotText;
+  layout?: ProfileLayout;
+  pinnedPosts?: PinnedPostsDetection;
+  gridAesthetics?: GridAesthetics;
+  insights?: InstagramInsights;
+  insightsRates?: InsightsRates;
+  exportMetrics?: ExportMetrics;
+  captionReport?: CaptionReport;
+  bioAnalysis?: BioAnalysis;
+  linkInBioAudit?: LinkInBioAudit;
+  highlights?: HighlightsInventory;
+  profilePicture?: ProfilePictureQuality;
+  imageWidth?: number;
+  imageHeight?: number;
+  confidence?: {
+    profilePicture: number;
+    bio: number;
+    highlights: number;
+  };
+}
+
+const MAX_EXPORT_SIZE = MAX_EXPORT_MB * 1024 * 1024;
+
+// Below this the pin glyph match is too close to call either way
+const MIN_PINNED_CONFIDENCE = 0.5;
+
 interface ErrorResponse {
   error: string;
+  code?: UploadErrorCode;
   details?: unknown;
 }
 
-async function analyzeProfileImage(imageBuffer: Buffer) {
+// Returns null when OCR failed or couldn't find the handle or stats row above
+// the grid, which usually means the header isn't legible
+function readHeaderText(scan: ScreenshotScan): ProfileScreenshotText | null {
+  if (!scan.text) return null;
+  const lines = scan.text.lines.filter(line => line.box.top < scan.layout.grid.top);
+  const text = parseProfileText(lines, scan.text.confidence);
+  return text.handle !== null || text.postCount !== null ? text : null;
+}
+
+async function analyzeProfileImage(imageBuffer: Buffer, scan: ScreenshotScan): Promise<InstagramAnalysis> {
   try {
-    // Get image metadata
-    const metadata = await sharp(imageBuffer).metadata();
-    
-    // Convert to grayscale for analysis
-    const { data, info } = await sharp(imageBuffer)
-      .grayscale()
-      .raw()
-      .toBuffer({ resolveWithObject: true });
-
-    // Define regions more precisely based on typical Instagram profile layout
-    const headerHeight = Math.floor(info.height * 0.15); // Profile picture and name
-    const bioHeight = Math.floor(info.height * 0.25); // Bio section
-    const highlightsHeight = Math.floor(info.height * 0.1); // Story highlights
-    const gridStart = headerHeight + bioHeight + highlightsHeight;
+    // The layout was found from the pixels when classifying; it falls back to
+    // fixed bands (flagged lowConfidence) when the layout isn't recognised
+    const { image, layout } = scan;
 
     // Extract regions
-    const headerRegion = data.slice(0, headerHeight * info.width);
-    const bioRegion = data.slice(headerHeight * info.width, (headerHeight + bioHeight) * info.width);
-    const highlightsRegion = data.slice((headerHeight + bioHeight) * info.width, (headerHeight + bioHeight + highlightsHeight) * info.width);
-    const gridRegion = data.slice(gridStart * info.width);
-
-    // Calculate brightness statistics for each region
-    const getRegionStats = (region: Uint8Array) => {
-      const values = Array.from(region);
-      const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-      const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
-      const stdDev = Math.sqrt(variance);
-      return { mean, stdDev };
-    };
-
-    const headerStats = getRegionStats(headerRegion);
-    const bioStats = getRegionStats(bioRegion);
-    const highlightsStats = getRegionStats(highlightsRegion);
-    const gridStats = getRegionStats(gridRegion);
-
-    // More sophisticated detection logic
-    const hasProfilePicture = headerStats.stdDev > 30; // High variation indicates profile picture
+    const headerRegion = regionPixels(image, layout.header);
+    const bioRegion = regionPixels(image, layout.bio);
+    const highlightsRegion = layout.highlights ? regionPixels(image, layout.highlights) : new Uint8Array(0);
+    const gridRegion = regionPixels(image, layout.grid);
+
+    const headerStats = pixelStats(headerRegion);
+    const bioStats = pixelStats(bioRegion);
+    const highlightsStats = pixelStats(highlightsRegion);
+    const gridStats = pixelStats(gridRegion);
+
+    // A detected circle still needs variation: the default avatar is a flat grey silhouette
+    const hasProfilePicture = layout.profilePicture
+      ? pixelStats(regionPixels(image, layout.profilePicture)).stdDev > 30
+      : headerStats.stdDev > 30; // High variation indicates profile picture
     const hasBio = bioStats.stdDev > 20 && bioStats.mean < 240; // Text creates variation
-    const hasHighlights = highlightsStats.stdDev > 15; // Highlights create distinct patterns
+    const hasHighlights = layout.lowConfidence
+      ? highlightsStats.stdDev > 15 // Highlights create distinct patterns
+      : layout.highlightCircles.length > 0;
 
-    // Check for pinned posts (look for pin icon in first few posts)
-    const firstPostRegion = gridRegion.slice(0, info.width * 3); // First 3 rows of the grid
-    const hasPinnedPosts = firstPostRegion.some((pixel, i) => {
-      // Look for pin icon pattern (small dark spot in top-right corner of first post)
-      return pixel < 100 && i < info.width * 0.1;
-    });
+    // Resolution, blur, kind and contrast of the avatar as it appears on the profile
+    const profilePicture = hasProfilePicture && layout.profilePicture
+      ? await assessProfilePicture(imageBuffer, layout.profilePicture)
+      : undefined;
+
+    // Look for the pin glyph in the top-right corner of the first three tiles
+    const pinnedPosts = await detectPinnedPosts(imageBuffer, layout);
+    const hasPinnedPosts = pinnedPosts.tiles.some(tile => tile.pinned);
 
     // Check for business type indicator
     const hasBusinessType = headerStats.stdDev > 40 && headerStats.mean < 200; // Business accounts often have more complex header
@@ -71,22 +123,36 @@ async function analyzeProfileImage(imageBuffer: Buffer) {
       return Math.abs(pixel - gridRegion[i - 1]) > 40;
     }).length;
 
-    const estimatedPostCount = Math.floor(gridBrightnessVariations / (info.width * 0.1));
+    // Visible tiles are a floor for the post count when the grid was found
+    const estimatedPostCount = layout.lowConfidence
+      ? Math.floor(gridBrightnessVariations / (image.width * 0.1))
+      : layout.gridTiles.length;
 
     // Theme detection with more precise thresholds
     const gridBrightnessThreshold = 180;
     const isDarkTheme = gridStats.mean < gridBrightnessThreshold;
 
+    // Prefer what the header actually says over the brightness heuristics
+    const screenshotText = readHeaderText(scan);
+
     return {
       hasProfilePicture,
-      hasBio,
+      hasBio: screenshotText ? screenshotText.bioText.length > 0 : hasBio,
       hasHighlights,
       hasPinnedPosts,
-      hasBusinessType,
-      postCount: Math.min(Math.max(estimatedPostCount, 0), 12),
+      hasBusinessType: screenshotText ? Boolean(screenshotText.businessCategory) : hasBusinessType,
+      postCount: screenshotText?.postCount ?? Math.min(Math.max(estimatedPostCount, 0), 12),
       gridLayout: isDarkTheme ? 'Dark Theme' : 'Light Theme',
-      imageWidth: metadata.width,
-      imageHeight: metadata.height,
+      bioText: screenshotText?.bioText,
+      linkInBio: screenshotText?.linkInBio,
+      businessCategory: screenshotText?.businessCategory,
+      followerCount: screenshotText?.followerCount,
+      screenshotText: screenshotText ?? undefined,
+      layout,
+      pinnedPosts,
+      profilePicture,
+      imageWidth: image.width,
+      imageHeight: image.height,
       confidence: {
         profilePicture: headerStats.stdDev,
         bio: bioStats.stdDev,
@@ -99,87 +165,350 @@ async function analyzeProfileImage(imageBuffer: Buffer) {
   }
 }
 
-async function analyzeInstagramHandle(handle: string) {
-  try {
-    // TODO: Implement Instagram API integration
-    // For now, return a mock analysis
-    console.log(`Analyzing Instagram handle: ${handle}`); // Using handle to avoid unused variable warning
-    return {
-      hasProfilePicture: true,
-      hasBio: true,
-      hasHighlights: true,
-      hasPinnedPosts: false,
-      hasBusinessType: true,
-      postCount: 12,
-      gridLayout: 'Light Theme',
-      imageWidth: 1080,
-      imageHeight: 1920
-    };
-  } catch (error) {
-    console.error('Error analyzing Instagram handle:', error);
-    throw new Error('Failed to analyze the Instagram profile');
+// What an audit knows before any screenshot has shown the header
+const emptyAnalysis = (): InstagramAnalysis => ({
+  hasProfilePicture: null,
+  hasBio: null,
+  hasHighlights: null,
+  hasPinnedPosts: null,
+  hasBusinessType: null,
+  postCount: null
+});
+
+// True when either source saw it, false when one looked and didn't, null when neither looked
+const seenIn = (first: boolean | null, second: boolean | null): boolean | null => first || second || (first ?? second);
+
+const INSIGHTS_LABELS: Record<keyof InstagramInsights, string> = {
+  periodDays: 'Period (days)',
+  accountsReached: 'Accounts reached',
+  accountsEngaged: 'Accounts engaged',
+  profileVisits: 'Profile visits',
+  externalLinkTaps: 'Link taps',
+  followerGrowth: 'Net new followers',
+  totalFollowers: 'Total followers'
+};
+
+// What was read from one screenshot, depending on its type
+interface ScreenshotDetails {
+  profile?: InstagramAnalysis;
+  insights?: InstagramInsights;
+  caption?: string | null;
+  highlights?: StoryHighlight[];
+}
+
+function describeScreenshot(scan: ScreenshotScan, { profile, insights, caption, highlights = [] }: ScreenshotDetails): string[] {
+  switch (scan.type) {
+    case 'profile': {
+      const findings: string[] = [];
+      const text = profile?.screenshotText;
+      if (text?.handle) findings.push(`Profile header for @${text.handle}`);
+      if (text?.postCount !== null && text?.postCount !== undefined) {
+        findings.push(`${text.postCount} posts, ${text.followerCount ?? 'unknown'} followers`);
+      }
+      if (profile?.profilePicture) {
+        findings.push(`Profile picture found (${profile.profilePicture.kind}, ${profile.profilePicture.score}/100)`);
+      } else {
+        findings.push(profile?.hasProfilePicture ? 'Profile picture found' : 'No profile picture found');
+      }
+      findings.push(profile?.hasBio ? 'Bio found' : 'No bio found');
+      if (highlights.length > 0) findings.push(describeHighlights(highlights));
+      if (scan.layout.lowConfidence) findings.push('Layout not recognised - regions were estimated');
+      return findings;
+    }
+    case 'grid':
+      return [`${scan.gridTiles.length} posts visible in the grid`];
+    case 'highlights':
+      return [describeHighlights(highlights)];
+    case 'insights': {
+      const found = insights
+        ? (Object.keys(INSIGHTS_LABELS) as (keyof InstagramInsights)[])
+          .filter(key => insights[key] !== null)
+          .map(key => `${INSIGHTS_LABELS[key]}: ${insights[key]!.toLocaleString('en-US')}`)
+        : [];
+      return found.length > 0 ? found : ['Insights screen detected, but no numbers could be read'];
+    }
+    case 'post':
+      return caption
+        ? [`Caption read: "${caption.split(/\s+/).slice(0, 8).join(' ')}..."`]
+        : ['Post detected, but the caption could not be read'];
+    default:
+      return ['Could not recognise this screenshot - upload your profile, grid, highlights or insights screen'];
   }
 }
 
-function calculateScore(analysis: any): ScoringResult {
-  const details: ScoringResult['details'] = {};
-  let totalPoints = 0;
-  let maxPoints = 0;
+function describeHighlights(highlights: StoryHighlight[]): string {
+  const labels = highlights.map(highlight => highlight.label).filter(Boolean);
+  const count = `${highlights.length} story highlight${highlights.length === 1 ? '' : 's'} found`;
+  return labels.length > 0 ? `${count}: ${labels.join(', ')}` : count;
+}
 
-  // Profile Optimization
-  const profileOptimization = {
-    score: 0,
-    maxScore: INSTAGRAM_SCORING_CRITERIA[0].items.length,
-    items: {
-      "Profile picture quality and relevance": analysis.hasProfilePicture,
-      "Bio completeness and clarity": analysis.hasBio,
-      "Story highlights organization": analysis.hasHighlights,
-      "Link in bio optimization": analysis.hasBio && analysis.hasProfilePicture // Assuming bio with link
+// Classifies each upload and merges what they show into one analysis. The
+// first profile screenshot provides the header; grids from every screenshot
+// are scored together.
+async function analyzeScreenshots(files: File[]): Promise<{ analysis: InstagramAnalysis; screenshots: ScreenshotFinding[]; captions: string[] }> {
+  let analysis: InstagramAnalysis | undefined;
+  const gridSources: GridSource[] = [];
+  const screenshots: ScreenshotFinding[] = [];
+  const insightsParts: InstagramInsights[] = [];
+  const captions: string[] = [];
+  const highlights: StoryHighlight[] = [];
+
+  for (const file of files) {
+    // Upright PNG whatever was uploaded, so the layout and OCR see the same pixels every time
+    const { buffer } = await normalizeImage(file);
+    const scan = await classifyScreenshot(buffer, await toGrayscale(buffer));
+
+    let profileAnalysis: InstagramAnalysis | undefined;
+    if (scan.type === 'profile') {
+      profileAnalysis = await analyzeProfileImage(buffer, scan);
+      analysis = analysis ?? profileAnalysis;
     }
-  };
-  profileOptimization.score = Object.values(profileOptimization.items).filter(Boolean).length;
-  totalPoints += profileOptimization.score;
-  maxPoints += profileOptimization.maxScore;
-  details["Profile Optimization"] = profileOptimization;
 
-  // Content Strategy
-  const contentStrategy = {
-    score: 0,
-    maxScore: INSTAGRAM_SCORING_CRITERIA[1].items.length,
-    items: {
-      "Post frequency and consistency": analysis.postCount >= 6,
-      "Content variety and quality": analysis.postCount >= 12,
-      "Grid layout and aesthetics": analysis.gridLayout !== undefined,
-      "Caption quality and engagement": analysis.hasBio // Using bio as a proxy for caption quality
+    let insights: InstagramInsights | undefined;
+    if (scan.type === 'insights' && scan.text) {
+      insights = parseInsightsText(scan.text.lines);
+      insightsParts.push(insights);
     }
+
+    const caption = scan.type === 'post' && scan.text ? parsePostCaption(scan.text.lines) : null;
+    if (caption) captions.push(caption);
+
+    // Guessed tiles can be header or app chrome, which would skew the grid's palette and mix
+    if (scan.gridTiles.length > 0 && !scan.gridTilesEstimated) gridSources.push({ image: buffer, tiles: scan.gridTiles });
+    const screenshotHighlights = await readHighlights(buffer, scan.highlightCircles);
+    highlights.push(...screenshotHighlights);
+
+    screenshots.push({
+      fileName: file.name,
+      type: scan.type,
+      findings: describeScreenshot(scan, { profile: profileAnalysis, insights, caption, highlights: screenshotHighlights })
+    });
+  }
+
+  const merged = analysis ?? emptyAnalysis();
+
+  // Palette, brightness and content mix across the visible posts, in color
+  const gridAesthetics = await analyzeGridAesthetics(gridSources);
+  const insights = mergeInsights(insightsParts);
+  const inventory = highlights.length > 0 ? highlightsInventory(highlights) : undefined;
+
+  return {
+    analysis: {
+      ...merged,
+      hasHighlights: highlights.length > 0 ? true : merged.hasHighlights,
+      highlights: inventory,
+      gridAesthetics: gridAesthetics ?? undefined,
+      insights: insights ?? undefined,
+      insightsRates: insights ? insightsRates(insights, merged.followerCount) : undefined
+    },
+    screenshots,
+    captions
   };
-  contentStrategy.score = Object.values(contentStrategy.items).filter(Boolean).length;
-  totalPoints += contentStrategy.score;
-  maxPoints += contentStrategy.maxScore;
-  details["Content Strategy"] = contentStrategy;
+}
 
-  // Engagement
-  const engagement = {
-    score: 0,
-    maxScore: INSTAGRAM_SCORING_CRITERIA[2].items.length,
-    items: {
-      "Response rate to comments": analysis.hasPinnedPosts, // Using pinned posts as a proxy
-      "Story engagement": analysis.hasHighlights,
-      "Community interaction": analysis.hasBio, // Using bio as a proxy
-      "Hashtag strategy": analysis.hasBio // Using bio as a proxy
-    }
+// The export is the account's own record, so it fills in what the profile or
+// screenshots couldn't show and adds the activity metrics
+function applyDataExport(analysis: InstagramAnalysis, data: InstagramDataExport): InstagramAnalysis {
+  const metrics = exportMetrics(data);
+  return {
+    ...analysis,
+    // The export only has a bio field when it includes the account's personal information
+    hasBio: data.bioText !== null ? analysis.hasBio || Boolean(data.bioText.trim()) : analysis.hasBio,
+    hasHighlights: analysis.hasHighlights || metrics.highlightCount > 0,
+    postCount: Math.max(analysis.postCount ?? 0, metrics.postCount),
+    bioText: analysis.bioText ?? data.bioText ?? undefined,
+    linkInBio: analysis.linkInBio !== undefined ? analysis.linkInBio : data.website ?? undefined,
+    followerCount: analysis.followerCount ?? data.followerCount,
+    exportMetrics: metrics
+  };
+}
+
+// The live profile's text is exact, so screenshots sent with a handle only add
+// what the profile page can't show: the grid, Insights, highlight labels, the
+// pin glyphs and the picture's quality
+function applyScreenshots(analysis: InstagramAnalysis, screenshots: InstagramAnalysis): InstagramAnalysis {
+  return {
+    ...analysis,
+    hasHighlights: seenIn(analysis.hasHighlights, screenshots.hasHighlights),
+    hasPinnedPosts: seenIn(analysis.hasPinnedPosts, screenshots.hasPinnedPosts),
+    screenshotText: screenshots.screenshotText,
+    layout: screenshots.layout,
+    pinnedPosts: screenshots.pinnedPosts,
+    gridAesthetics: screenshots.gridAesthetics,
+    highlights: screenshots.highlights,
+    profilePicture: screenshots.profilePicture,
+    imageWidth: screenshots.imageWidth,
+    imageHeight: screenshots.imageHeight,
+    confidence: screenshots.confidence,
+    insights: screenshots.insights,
+    insightsRates: screenshots.insights ? insightsRates(screenshots.insights, analysis.followerCount) : undefined
   };
-  engagement.score = Object.values(engagement.items).filter(Boolean).length;
-  totalPoints += engagement.score;
-  maxPoints += engagement.maxScore;
-  details["Engagement"] = engagement;
+}
+
+async function analyzeInstagramHandle(handle: string): Promise<InstagramAnalysis> {
+  const profile = await fetchInstagramProfile(handle);
 
   return {
-    totalPoints,
-    maxPoints,
-    percentage: Math.round((totalPoints / maxPoints) * 100),
-    details
+    hasProfilePicture: profile.hasProfilePicture,
+    hasBio: profile.bioText.trim().length > 0,
+    hasHighlights: profile.highlightCount === null ? null : profile.highlightCount > 0,
+    hasPinnedPosts: profile.pinnedPostCount === null ? null : profile.pinnedPostCount > 0,
+    hasBusinessType: Boolean(profile.businessCategory),
+    postCount: profile.postCount,
+    bioText: profile.bioText,
+    linkInBio: profile.linkInBio,
+    businessCategory: profile.businessCategory,
+    followerCount: profile.followerCount,
+    profile
+  };
+}
+
+type Credit = number | boolean | UndeterminedCredit;
+
+const insightsCredit = (rate: keyof InsightsRates, fallback: (a: InstagramAnalysis) => Credit) =>
+  (a: InstagramAnalysis): Credit => {
+    const value = a.insightsRates?.[rate];
+    return value !== null && value !== undefined
+      ? thresholdCredit(value, INSTAGRAM_INSIGHTS_THRESHOLDS[rate])
+      : fallback(a);
+  };
+
+const exportCredit = (metric: keyof typeof INSTAGRAM_EXPORT_THRESHOLDS, fallback: (a: InstagramAnalysis) => Credit) =>
+  (a: InstagramAnalysis): Credit => {
+    const value = a.exportMetrics?.[metric];
+    return value !== null && value !== undefined
+      ? thresholdCredit(value, INSTAGRAM_EXPORT_THRESHOLDS[metric])
+      : fallback(a);
+  };
+
+const postCountCredit = (thresholds: Thresholds) =>
+  (a: InstagramAnalysis): Credit =>
+    a.postCount !== null ? thresholdCredit(a.postCount, thresholds) : unknown('The post count wasn\'t shown on the profile');
+
+// Too few hashtags won't be found and too many look like spam, so both ends get half credit
+const hashtagCredit = (fallback: (a: InstagramAnalysis) => Credit) =>
+  (a: InstagramAnalysis): Credit => {
+    const perPost = a.exportMetrics?.hashtagsPerPost;
+    if (perPost === null || perPost === undefined) return fallback(a);
+    if (perPost >= INSTAGRAM_HASHTAG_RANGE.min && perPost <= INSTAGRAM_HASHTAG_RANGE.max) return 1;
+    return perPost > 0 ? 0.5 : 0;
   };
+
+const MISSING_HIGHLIGHT_SUGGESTIONS: Record<KeyHighlight, string> = {
+  services: 'Add a Services highlight showing what you offer',
+  prices: 'Add a Prices highlight so new clients know what to expect before they message',
+  reviews: 'Add a Reviews highlight with screenshots of client feedback',
+  beforeAfter: 'Add a Before & After highlight - transformations are what win new clients',
+  book: 'Add a Book highlight explaining how to make an appointment',
+  location: 'Add a Location highlight with your address, parking and how to find you'
+};
+
+// Half for booking being one tap away or less, a quarter each for a fast load and few redirects
+function linkDestinationCredit(audit: LinkInBioAudit): number {
+  if (audit.destination === 'broken') return 0;
+  const booking = audit.bookingTaps !== null && audit.bookingTaps <= 1 ? 1 : 0;
+  const speed = audit.loadTime !== null ? thresholdCredit(audit.loadTime, LINK_IN_BIO_THRESHOLDS.loadTime) : 0;
+  const hops = thresholdCredit(audit.redirects, LINK_IN_BIO_THRESHOLDS.redirects);
+  return 0.5 * booking + 0.25 * speed + 0.25 * hops;
+}
+
+const INSTAGRAM_SCORERS = defineScorers<InstagramAnalysis>(INSTAGRAM_SCORING_CRITERIA, {
+  // Profile Optimization
+  'profile.picture': {
+    credit: a => a.profilePicture
+      ? a.profilePicture.score / 100
+      : a.hasProfilePicture ?? unknown('No profile screenshot or handle showed the profile picture'),
+    evidence: 'profilePicture.score'
+  },
+  // Share of the bio checklist met once the bio text is known
+  'profile.bio': {
+    credit: a => a.bioAnalysis ? a.bioAnalysis.score / 100 : a.hasBio ?? unknown('No profile screenshot, handle or export showed the bio'),
+    evidence: 'bioAnalysis.score'
+  },
+  // Once the labels are read, credit depends on which key highlights exist and whether the covers match
+  'profile.highlights': {
+    credit: a => {
+      const inventory = a.highlights;
+      if (!inventory || inventory.count === 0) {
+        return a.hasHighlights ?? unknown('Highlights aren\'t on the logged-out profile page - upload a profile screenshot');
+      }
+      const keyShare = inventory.present.length / (inventory.present.length + inventory.missing.length);
+      return 0.25 + 0.5 * keyShare + 0.25 * inventory.coverConsistency;
+    },
+    evidence: 'highlights.present'
+  },
+  // Scored by where the link leads and by taps per profile visit when Insights
+  // show them; otherwise fall back to assuming bio with link when the link couldn't be
+  // read, and unknown when no header was seen at all
+  'profile.linkInBio': {
+    credit: a => {
+      if (a.linkInBio === null) return false;
+      const linkTapRate = a.insightsRates?.linkTapRate;
+      const credits = [
+        a.linkInBioAudit ? linkDestinationCredit(a.linkInBioAudit) : null,
+        linkTapRate !== null && linkTapRate !== undefined
+          ? thresholdCredit(linkTapRate, INSTAGRAM_INSIGHTS_THRESHOLDS.linkTapRate)
+          : null
+      ].filter((credit): credit is number => credit !== null);
+      if (credits.length > 0) {
+        return credits.reduce((sum, credit) => sum + credit, 0) / credits.length;
+      }
+      if (a.linkInBio !== undefined) return Boolean(a.linkInBio);
+      return a.hasBio === null || a.hasProfilePicture === null
+        ? unknown('No profile screenshot, handle or export showed the link in bio')
+        : a.hasBio && a.hasProfilePicture;
+    },
+    evidence: 'linkInBioAudit.destination'
+  },
+
+  // Content Strategy
+  // A data export gives real posting dates; otherwise the post count stands in
+  'content.frequency': {
+    credit: exportCredit('postsPerWeek', postCountCredit({ green: 6, yellow: 3 })),
+    evidence: 'exportMetrics.postsPerWeek'
+  },
+  'content.variety': { credit: postCountCredit({ green: 12, yellow: 6 }), evidence: 'postCount' },
+  'content.grid': {
+    credit: a => a.gridAesthetics ? a.gridAesthetics.score / 100 : unknown('No post grid was found in the uploaded screenshots'),
+    evidence: 'gridAesthetics.score'
+  },
+  // Analysed caption text when any was supplied, then export caption length
+  'content.captions': {
+    credit: a => a.captionReport
+      ? a.captionReport.captionScore / 100
+      : exportCredit('averageCaptionLength', () => unknown('No captions were pasted, screenshotted or exported'))(a),
+    evidence: 'captionReport.captionScore'
+  },
+
+  // Engagement
+  // The export counts the account's own replies. Insights don't break out comments,
+  // stories or hashtags, so otherwise each criterion uses the closest measured rate,
+  // and is unknown when neither was uploaded.
+  'engagement.commentResponses': {
+    credit: exportCredit('repliesPerPost', insightsCredit('engagementRate', () => unknown('Replies are only counted from a data export or Insights screenshots'))),
+    evidence: 'exportMetrics.repliesPerPost'
+  },
+  // Stories and highlights are what send most viewers on to the profile
+  'engagement.stories': {
+    credit: insightsCredit('profileVisitRate', exportCredit('storiesPerWeek', () => unknown('Story activity needs a data export or Insights screenshots'))),
+    evidence: 'insightsRates.profileVisitRate'
+  },
+  'engagement.community': {
+    credit: insightsCredit('followerGrowthRate', () => unknown('Follower growth needs Insights screenshots')),
+    evidence: 'insightsRates.followerGrowthRate'
+  },
+  // The tags in analysed captions, then hashtags per post from the export; otherwise
+  // reaching more accounts than follow you means hashtags and discovery are working
+  'engagement.hashtags': {
+    credit: a => a.captionReport
+      ? a.captionReport.hashtagScore / 100
+      : hashtagCredit(insightsCredit('discoveryRate', () => unknown('No captions, data export or Insights screenshots were uploaded')))(a),
+    evidence: 'captionReport.hashtagScore'
+  }
+});
+
+function calculateScore(analysis: InstagramAnalysis): ScoringResult {
+  return scoreAnalysis(INSTAGRAM_SCORING_CRITERIA, INSTAGRAM_SCORERS, analysis);
 }
 
 const errorResponse = (error: string, details?: unknown): Response => {
@@ -191,26 +520,95 @@ const errorResponse = (error: string, details?: unknown): Response => {
   });
 };
 
+const uploadErrorResponse = (error: UploadError): Response => {
+  const response: ErrorResponse = { error: error.message, code: error.code, details: { fileName: error.fileName } };
+  return new Response(JSON.stringify(response), {
+    status: UPLOAD_ERROR_STATUS[error.code],
+    headers: { 'Content-Type': 'application/json' }
+  });
+};
+
 export async function POST(request: Request) {
   try {
     const formData = await request.formData();
     const handle = formData.get('handle') as string;
-    const screenshot = formData.get('screenshot') as File;
-
-    if (!handle && !screenshot) {
+    // "screenshot" is the single-file field older clients still send
+    const screenshotFiles = [...formData.getAll('screenshots'), ...formData.getAll('screenshot')]
+      .filter((value): value is File => value instanceof File && value.size > 0);
+    const exportEntry = formData.get('export');
+    const exportFile = exportEntry instanceof File && exportEntry.size > 0 ? exportEntry : null;
+    const pastedCaptions = splitCaptions((formData.get('captions') as string | null) ?? '');
+
+    if (!handle && screenshotFiles.length === 0 && !exportFile && pastedCaptions.length === 0) {
       return NextResponse.json(
-        { error: 'Either Instagram handle or screenshot is required' },
+        { error: 'Either Instagram handle, screenshot, data export or captions are required' },
         { status: 400 }
       );
     }
 
-    let imageAnalysis;
+    if (exportFile && exportFile.size > MAX_EXPORT_SIZE) {
+      return errorResponse('The data export is too large - request it again in JSON format with low media quality');
+    }
+
+    if (screenshotFiles.length > MAX_SCREENSHOTS) {
+      return errorResponse(`Please upload at most ${MAX_SCREENSHOTS} screenshots`);
+    }
+
+    let imageAnalysis: InstagramAnalysis | undefined;
+    let screenshots: ScreenshotFinding[] | undefined;
+    // Most recent first: pasted and screenshotted captions, then the export's posts
+    const captions = [...pastedCaptions];
     if (handle) {
-      imageAnalysis = await analyzeInstagramHandle(handle);
-    } else if (screenshot) {
-      const arrayBuffer = await screenshot.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-      imageAnalysis = await analyzeProfileImage(buffer);
+      try {
+        imageAnalysis = await analyzeInstagramHandle(handle);
+      } catch (error) {
+        console.error('Error analyzing Instagram handle:', error);
+        return errorResponse(error instanceof Error ? error.message : 'Failed to analyze the Instagram profile');
+      }
+    }
+
+    if (screenshotFiles.length > 0) {
+      let screenshotAnalysis: InstagramAnalysis;
+      let screenshotCaptions: string[];
+      try {
+        ({ analysis: screenshotAnalysis, screenshots, captions: screenshotCaptions } = await analyzeScreenshots(screenshotFiles));
+      } catch (error) {
+        if (error instanceof UploadError) return uploadErrorResponse(error);
+        throw error;
+      }
+      imageAnalysis = imageAnalysis ? applyScreenshots(imageAnalysis, screenshotAnalysis) : screenshotAnalysis;
+      captions.push(...screenshotCaptions);
+    }
+
+    imageAnalysis ??= emptyAnalysis();
+
+    if (exportFile) {
+      try {
+        const data = parseDataExport(Buffer.from(await exportFile.arrayBuffer()));
+        imageAnalysis = applyDataExport(imageAnalysis, data);
+        captions.push(...[...data.posts].sort((a, b) => b.timestamp - a.timestamp).map(post => post.caption));
+      } catch (error) {
+        console.error('Error reading Instagram data export:', error);
+        return errorResponse(error instanceof Error ? error.message : 'Failed to read the data export');
+      }
+    }
+
+    const captionReport = analyzeCaptions(captions);
+    if (captionReport) {
+      imageAnalysis = { ...imageAnalysis, captionReport };
+    }
+
+    if (imageAnalysis.linkInBio) {
+      try {
+        imageAnalysis = { ...imageAnalysis, linkInBioAudit: await auditLinkInBio(imageAnalysis.linkInBio) };
+      } catch (error) {
+        // The rest of the audit doesn't depend on the link, so a browser failure is only logged
+        console.error('Error auditing link in bio:', error);
+      }
+    }
+
+    if (imageAnalysis.bioText?.trim()) {
+      imageAnalysis = { ...imageAnalysis, bioAnalysis: analyzeBio(imageAnalysis.bioText, imageAnalysis) };
     }
 
     // Type assertion since we know imageAnalysis will be defined here
@@ -240,39 +638,151 @@ export async function POST(request: Request) {
     ];
 
     // Add specific recommendations and strengths based on image analysis
-    if (analysis.hasProfilePicture) {
+    if (analysis.profilePicture) {
+      const picture = analysis.profilePicture;
+      if (picture.score >= 80) {
+        recommendations[0].strengths.push(`Your profile picture is clear and recognisable (${picture.score}/100)`);
+      } else {
+        recommendations[0].strengths.push('Great job having a profile picture - this helps build trust with potential clients');
+      }
+      if (picture.diameter < PROFILE_PICTURE_THRESHOLDS.diameter.yellow) {
+        recommendations[0].suggestions.push('Your profile picture looks low resolution - upload one at least 320x320 pixels');
+      }
+      if (picture.sharpness < PROFILE_PICTURE_THRESHOLDS.sharpness.yellow) {
+        recommendations[0].suggestions.push('Your profile picture looks blurry - use a sharp, well-lit image');
+      }
+      if (picture.contrast < PROFILE_PICTURE_THRESHOLDS.contrast.yellow) {
+        recommendations[0].suggestions.push('Make your profile picture stand out - the subject blends into its background once cropped to a circle');
+      }
+      if (picture.kind === 'photo') {
+        recommendations[0].suggestions.push('Use your logo or a friendly headshot as your profile picture - clients recognise either at a glance');
+      }
+      if (picture.textLegible === false) {
+        recommendations[0].suggestions.push('The text in your profile picture is unreadable at small sizes - use a simpler logo mark or larger lettering');
+      }
+    } else if (analysis.hasProfilePicture) {
       recommendations[0].strengths.push('Great job having a profile picture - this helps build trust with potential clients');
-    } else {
+    } else if (analysis.hasProfilePicture === false) {
       recommendations[0].suggestions.unshift('Add a professional profile picture');
     }
 
-    if (analysis.hasBio) {
+    if (analysis.bioAnalysis) {
+      const bio = analysis.bioAnalysis;
+      bio.checks.forEach(check => {
+        // The link in bio gets its own advice below
+        if (check.id === 'link' && analysis.linkInBio !== undefined) return;
+        if (check.passed) {
+          recommendations[0].strengths.push(`Your bio ${check.label.charAt(0).toLowerCase()}${check.label.slice(1)}`);
+        } else if (check.suggestion) {
+          recommendations[0].suggestions.push(check.suggestion);
+        }
+      });
+      if (bio.score < 100) {
+        recommendations[0].suggestions.push(`Suggested bio:\n${bio.template}`);
+      }
+    } else if (analysis.hasBio) {
       recommendations[0].strengths.push('Your bio is present - this is crucial for communicating your brand');
-    } else {
+    } else if (analysis.hasBio === false) {
       recommendations[0].suggestions.unshift('Add a compelling bio that describes your salon');
+      recommendations[0].suggestions.push(`Suggested bio:\n${analyzeBio('', analysis).template}`);
     }
 
-    if (analysis.hasHighlights) {
+    if (analysis.highlights) {
+      const inventory = analysis.highlights;
+      const labels = (keys: KeyHighlight[]) => keys.map(key => KEY_HIGHLIGHT_LABELS[key]).join(', ');
+      if (inventory.present.length > 0) {
+        recommendations[0].strengths.push(`You have ${inventory.count} story highlights, including ${labels(inventory.present)}`);
+      } else {
+        recommendations[0].strengths.push(`You have ${inventory.count} story highlights`);
+      }
+      inventory.missing.forEach(key => recommendations[0].suggestions.push(MISSING_HIGHLIGHT_SUGGESTIONS[key]));
+      if (inventory.count > 1 && inventory.coverConsistency < 0.6) {
+        recommendations[0].suggestions.push('Give your highlights matching covers - the same background color and icon style makes the profile look polished');
+      }
+    } else if (analysis.hasHighlights) {
       recommendations[0].strengths.push('Story highlights are present - excellent for showcasing your best work');
-    } else {
+    } else if (analysis.hasHighlights === false) {
       recommendations[0].suggestions.unshift('Create Instagram Story highlights to showcase your best work');
     }
 
-    if (analysis.postCount >= 6) {
+    if (analysis.postCount !== null && analysis.postCount >= 6) {
       recommendations[1].strengths.push(`You have ${analysis.postCount} posts - good start on building your content library`);
-    } else {
+    } else if (analysis.postCount !== null) {
       recommendations[1].suggestions.unshift('Start posting more content to build your profile');
     }
 
+    if (analysis.gridAesthetics) {
+      const grid = analysis.gridAesthetics;
+      if (grid.score >= 70) {
+        recommendations[1].strengths.push(`Your grid looks cohesive (${grid.score}/100) - a consistent look makes your feed feel professional`);
+      } else {
+        recommendations[1].suggestions.push('Use a consistent color palette and editing preset so your grid looks cohesive');
+      }
+
+      if (grid.brightnessConsistency < 0.6) {
+        recommendations[1].suggestions.push('Keep brightness consistent between posts - mixing very dark and very bright photos looks uneven');
+      }
+
+      if (grid.faceRatio === 0) {
+        recommendations[1].suggestions.push('Show more faces - clients and team members make your feed more personal');
+      }
+
+      if (grid.textOverlayRatio > 1 / 3) {
+        recommendations[1].suggestions.push('Cut back on text-heavy graphics and let photos of your work lead the grid');
+      }
+
+      if (grid.repeatedTemplateRatio > 0.5) {
+        recommendations[1].suggestions.push('Vary your post layouts - too many posts share the same template');
+      }
+    }
+
     // Add theme-specific feedback
     if (analysis.gridLayout === 'Dark Theme') {
       recommendations[0].strengths.push('Dark theme detected - this can help your content stand out');
-    } else {
+    } else if (analysis.gridLayout === 'Light Theme') {
       recommendations[0].strengths.push('Light theme detected - this can create a clean, professional look');
     }
 
+    if (analysis.linkInBioAudit) {
+      const link = analysis.linkInBioAudit;
+      const via = link.provider ? `your ${link.provider} page` : 'the page your link opens';
+
+      if (link.destination === 'broken') {
+        recommendations[0].suggestions.unshift(`Your link in bio doesn't work (${link.error ?? 'it failed to load'}) - fix it so visitors can reach you`);
+      } else if (link.bookingTaps === 0) {
+        recommendations[0].strengths.push(`Your link in bio opens ${link.provider ?? 'your booking page'} directly - booking is zero taps away`);
+      } else if (link.bookingTaps === 1) {
+        recommendations[0].strengths.push(`Booking is one tap away from ${via}`);
+      } else {
+        recommendations[0].suggestions.unshift(`There's no booking button on ${via} - add one at the top, or link straight to your booking page`);
+      }
+
+      if (link.destination !== 'broken' && link.redirects > LINK_IN_BIO_THRESHOLDS.redirects.green) {
+        recommendations[0].suggestions.push(`Your link redirects ${link.redirects} times before loading - link to the final address`);
+      }
+
+      if (link.loadTime !== null && link.loadTime > LINK_IN_BIO_THRESHOLDS.loadTime.green) {
+        recommendations[0].suggestions.push(`Your link takes ${(link.loadTime / 1000).toFixed(1)}s to load on a phone - most visitors leave after 3s`);
+      }
+    } else if (analysis.linkInBio !== undefined) {
+      if (analysis.linkInBio) {
+        recommendations[0].strengths.push('You have a link in your bio - make sure it leads straight to booking');
+      } else {
+        recommendations[0].suggestions.unshift('Add a booking link to your bio so followers can book in one tap');
+      }
+    }
+
+    if (analysis.businessCategory !== undefined) {
+      if (analysis.businessCategory) {
+        recommendations[0].strengths.push(`Your business category is set to "${analysis.businessCategory}"`);
+      } else {
+        recommendations[0].suggestions.push('Switch to a professional account and set your business category');
+      }
+    }
+
     // Add base recommendations that apply to all profiles
-    if (recommendations[0].suggestions.length === 0) {
+    // An analysed bio already got specific advice
+    if (recommendations[0].suggestions.length === 0 && !analysis.bioAnalysis) {
       recommendations[0].suggestions.push('Consider adding your business hours to your bio');
       recommendations[0].suggestions.push('Include your location in your bio for better local discovery');
     }
@@ -282,14 +792,126 @@ export async function POST(request: Request) {
       recommendations[1].suggestions.push('Use high-quality images that showcase your work');
     }
 
+    if (analysis.insightsRates) {
+      const rates = analysis.insightsRates;
+      const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+      const meets = (rate: keyof InsightsRates) => {
+        const value = rates[rate];
+        return value !== null && value >= INSTAGRAM_INSIGHTS_THRESHOLDS[rate].green;
+      };
+
+      if (rates.engagementRate !== null) {
+        if (meets('engagementRate')) {
+          recommendations[2].strengths.push(`${percent(rates.engagementRate)} of the accounts you reach engage with you - well above average for a salon`);
+        } else {
+          recommendations[2].suggestions.push(`Only ${percent(rates.engagementRate)} of the accounts you reach engage - ask questions in captions and reply to every comment`);
+        }
+      }
+
+      if (rates.discoveryRate !== null && !meets('discoveryRate')) {
+        recommendations[2].suggestions.push('Most of your reach is existing followers - use local hashtags and Reels to reach new clients');
+      }
+
+      if (rates.followerGrowthRate !== null) {
+        if (meets('followerGrowthRate')) {
+          recommendations[2].strengths.push(`Your followers are growing ${percent(rates.followerGrowthRate)} a month`);
+        } else {
+          recommendations[2].suggestions.push('Follower growth is slow - collaborate with local businesses and encourage clients to tag you');
+        }
+      }
+
+      if (rates.linkTapRate !== null && !meets('linkTapRate')) {
+        recommendations[0].suggestions.push('Few profile visitors tap your link - point it straight at online booking and mention it in your bio');
+      }
+    }
+
+    if (analysis.exportMetrics) {
+      const metrics = analysis.exportMetrics;
+      const meets = (metric: keyof typeof INSTAGRAM_EXPORT_THRESHOLDS) => {
+        const value = metrics[metric];
+        return value !== null && value >= INSTAGRAM_EXPORT_THRESHOLDS[metric].green;
+      };
+
+      if (metrics.postsPerWeek !== null) {
+        if (meets('postsPerWeek')) {
+          recommendations[1].strengths.push(`You post ${metrics.postsPerWeek} times a week - a steady feed keeps you in front of clients`);
+        } else {
+          recommendations[1].suggestions.push(`You've posted ${metrics.postsPerWeek} times a week over the last 90 days - aim for at least ${INSTAGRAM_EXPORT_THRESHOLDS.postsPerWeek.green}`);
+        }
+      }
+
+      if (metrics.activeWeekShare !== null && metrics.activeWeekShare < INSTAGRAM_EXPORT_THRESHOLDS.activeWeekShare.yellow) {
+        recommendations[1].suggestions.push('Your posting comes in bursts - schedule posts so every week has something new');
+      }
+
+      if (!analysis.captionReport && metrics.averageCaptionLength !== null && !meets('averageCaptionLength')) {
+        recommendations[1].suggestions.push(`Your captions average ${Math.round(metrics.averageCaptionLength)} characters - describe the service, the stylist and how to book`);
+      }
+
+      if (metrics.hashtagsPerPost !== null) {
+        if (metrics.hashtagsPerPost < INSTAGRAM_HASHTAG_RANGE.min) {
+          recommendations[2].suggestions.push(`Use ${INSTAGRAM_HASHTAG_RANGE.min}-${INSTAGRAM_HASHTAG_RANGE.max} relevant hashtags per post, including your town and services`);
+        } else if (metrics.hashtagsPerPost > INSTAGRAM_HASHTAG_RANGE.max) {
+          recommendations[2].suggestions.push(`You use ${Math.round(metrics.hashtagsPerPost)} hashtags per post - trim them to the ${INSTAGRAM_HASHTAG_RANGE.max} most relevant`);
+        } else {
+          recommendations[2].strengths.push(`You use ${Math.round(metrics.hashtagsPerPost)} hashtags per post - a healthy number for local discovery`);
+        }
+      }
+
+      if (metrics.repliesPerPost !== null) {
+        if (meets('repliesPerPost')) {
+          recommendations[2].strengths.push('You reply to comments on your posts - keep those conversations going');
+        } else {
+          recommendations[2].suggestions.push('Reply to more comments on your posts - every reply keeps the conversation and the post alive');
+        }
+      }
+
+      if (metrics.storiesPerWeek !== null && !meets('storiesPerWeek')) {
+        recommendations[2].suggestions.push('Post stories most days - behind-the-scenes clips and last-minute openings work well');
+      }
+    }
+
+    if (analysis.captionReport) {
+      const report = analysis.captionReport;
+      const tags = (list: string[]) => list.slice(0, 5).map(tag => `#${tag}`).join(' ');
+
+      if (report.captionScore >= 70) {
+        recommendations[1].strengths.push(`Your captions are well written (${report.captionScore}/100)`);
+      } else {
+        recommendations[1].suggestions.push('Write fuller captions - say what the service was, who did it and how to book');
+      }
+
+      if (report.callToActionShare < 0.5) {
+        recommendations[1].suggestions.push(`Only ${Math.round(report.callToActionShare * 100)}% of your captions ask people to book - end each one with "Book via the link in our bio"`);
+      }
+
+      if (report.hashtagScore >= 70) {
+        recommendations[2].strengths.push(`Your hashtags mix local and niche tags well (${report.hashtagScore}/100)`);
+      } else if (report.captions.every(caption => caption.localHashtags.length === 0)) {
+        recommendations[2].suggestions.push('Add local hashtags like #yourtownhair - generic tags like #hair bury your posts');
+      }
+
+      if (report.overusedHashtags.length > 0) {
+        recommendations[2].suggestions.push(`You paste the same hashtags under most posts (${tags(report.overusedHashtags)}) - rotate them to match each post`);
+      }
+
+      if (report.bannedHashtags.length > 0) {
+        recommendations[2].suggestions.push(`Stop using ${tags(report.bannedHashtags)} - restricted tags can hide your posts`);
+      }
+    }
+
     if (recommendations[2].suggestions.length === 0) {
       recommendations[2].suggestions.push('Respond to comments within 24 hours');
       recommendations[2].suggestions.push('Engage with other local businesses');
     }
 
-    if (analysis.hasPinnedPosts) {
+    // An unsure screenshot match shouldn't praise pinned posts or ask for ones already pinned
+    const pinnedPostsKnown = analysis.hasPinnedPosts !== null &&
+      (!analysis.pinnedPosts || analysis.pinnedPosts.confidence >= MIN_PINNED_CONFIDENCE);
+
+    if (analysis.hasPinnedPosts && pinnedPostsKnown) {
       recommendations[1].strengths.push('You have pinned posts - great for showcasing your best work to new visitors');
-    } else {
+    } else if (pinnedPostsKnown) {
       recommendations[1].suggestions.unshift('Pin your best-performing posts to the top of your feed to make a strong first impression');
     }
 
@@ -297,6 +919,8 @@ export async function POST(request: Request) {
       data: {
         recommendations,
         score,
+        imageAnalysis: analysis,
+        screenshots,
         timestamp: new Date().toISOString()
       }
     });
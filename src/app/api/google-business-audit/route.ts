@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import type { Page } from 'puppeteer';
-import puppeteer from 'puppeteer';
 import sharp from 'sharp';
 import { GOOGLE_BUSINESS_SCORING_CRITERIA, ScoringResult } from '@/types/google-business';
+import type { ElementEvidence } from '@/types/scoring';
+import { launchBrowser } from '@/lib/browser';
+import { collectElementEvidence, type EvidenceQuery } from '@/lib/evidence';
+import { defineScorers, notApplicable, scoreAnalysis, thresholdCredit, unknown, type CriterionScorer } from '@/lib/scoring';
 
 interface ProgressData {
   message: string;
@@ -29,6 +32,25 @@ interface ReviewsAnalysis {
   reviewsWithResponses: number;
 }
 
+interface ReviewsSummary {
+  averageRating: number;
+  totalReviews: number;
+  responseRate: number;
+  reviewsWithResponses: number;
+  reviewElementsCount: number;
+  reviewDetails: ReviewDetail[];
+  status: string;
+}
+
+interface GoogleBusinessAnalysis {
+  profile: Awaited<ReturnType<typeof analyzeProfile>>;
+  photos: Awaited<ReturnType<typeof analyzePhotos>>;
+  information: Awaited<ReturnType<typeof analyzeInformation>>;
+  reviews: ReviewsSummary;
+  posts: Awaited<ReturnType<typeof analyzePosts>>;
+  services: Awaited<ReturnType<typeof analyzeServices>>;
+}
+
 const sendProgress = (stage: string, percentage: number): string => {
   const data: ProgressData = { message: stage, percentage };
   return JSON.stringify({ type: 'progress', data }) + '\n';
@@ -435,77 +457,116 @@ function isValidGoogleMapsUrl(url: string): boolean {
   }
 }
 
-function createScoringResult(analysis: any): ScoringResult {
-  const scoreData: ScoringResult = {
-    totalPoints: 0,
-    maxPoints: 0,
-    percentage: 0,
-    details: {}
-  };
-
-  // Map analysis data to scoring criteria
-  const categoryMappings = {
-    "Profile Completeness": {
-      "Business name is clear and professional": Boolean(analysis.profile.businessName),
-      "Business category is accurately set": Boolean(analysis.profile.category),
-      "Business hours are listed and accurate": Boolean(analysis.information.hours),
-      "Business description is detailed and informative": Boolean(analysis.profile.description),
-      "Business location is accurate and verified": Boolean(analysis.information.address)
-    },
-    "Visual Content": {
-      "Profile photo is professional and high-quality": Boolean(analysis.photos.hasProfilePhoto),
-      "Cover photo is engaging and relevant": Boolean(analysis.photos.hasCoverPhoto),
-      "Business photos showcase services/products": Boolean(analysis.photos.hasInteriorPhotos || analysis.photos.hasExteriorPhotos),
-      "Photos are regularly updated": Boolean(analysis.photos.hasInteriorPhotos || analysis.photos.hasExteriorPhotos),
-      "Photo quality meets professional standards": Boolean(analysis.photos.hasProfilePhoto && analysis.photos.hasCoverPhoto)
-    },
-    "Reviews & Ratings": {
-      "Average rating is 4.5 or higher": analysis.reviews.averageRating >= 4.5,
-      "Owner responses to reviews are present": analysis.reviews.responseRate > 0,
-      "Response rate to reviews is high": analysis.reviews.responseRate >= 50,
-      "Review quality is high": analysis.reviews.totalReviews >= 20,
-      "Recent reviews are positive": analysis.reviews.averageRating >= 4.5
-    },
-    "Posts & Updates": {
-      "Regular posting schedule (2+ posts/month)": analysis.posts.postFrequency >= 2,
-      "Variety of post types (offers, events, updates)": analysis.posts.hasPosts,
-      "Posts receive good engagement": analysis.posts.postEngagement >= 5,
-      "Posts include clear calls-to-action": analysis.posts.hasPosts,
-      "Post visuals are high quality": analysis.posts.hasPosts
-    },
-    "Local SEO": {
-      "Keywords in business description": Boolean(analysis.profile.description),
-      "Local area keywords used": Boolean(analysis.profile.description),
-      "Service area is defined": Boolean(analysis.information.address),
-      "NAP (Name, Address, Phone) is consistent": Boolean(analysis.information.phone && analysis.information.address),
-      "Local citations are present": Boolean(analysis.information.website)
-    },
-    "Engagement & Interaction": {
-      "Quick response to messages": Boolean(analysis.information.phone),
-      "Answers questions promptly": Boolean(analysis.information.website),
-      "High user interaction rate": analysis.posts.postEngagement >= 5,
-      "Active post engagement": analysis.posts.postEngagement >= 5,
-      "Engages with review responses": analysis.reviews.responseRate >= 50
-    }
-  };
-
-  // Calculate scores for each category
-  Object.entries(categoryMappings).forEach(([category, items]) => {
-    const categoryScore = Object.values(items).filter(Boolean).length;
-    const maxScore = Object.keys(items).length;
-    
-    scoreData.details[category] = {
-      score: categoryScore,
-      maxScore,
-      items
-    };
-    
-    scoreData.totalPoints += categoryScore;
-    scoreData.maxPoints += maxScore;
-  });
+// The listing element behind each field, using the same selectors as the analysis
+const PROFILE_EVIDENCE: Record<string, EvidenceQuery> = {
+  'profile.businessName': { selector: 'h1.DUwDvf' },
+  'profile.category': { selector: 'button[jsaction*="category"]' },
+  'profile.description': { selector: '[data-item-id*="description"], .editorial-summary' },
+  'information.hours': { selector: 'button[data-item-id*="hours"], button[aria-label*="hours"]', attribute: 'aria-label' },
+  'information.address': { selector: 'button[data-item-id*="address"], button[aria-label*="address"]', attribute: 'aria-label' },
+  'information.phone': { selector: 'button[data-item-id*="phone"], button[aria-label*="phone"], a[href^="tel:"]', attribute: 'aria-label' },
+  'information.website': { selector: 'a[data-item-id*="authority"], a[aria-label*="website"]', attribute: 'href' },
+  'photos.totalPhotos': { selector: 'button[jsaction*="photos"] img, button[aria-label*="photo"] img, div[role="img"]', attribute: 'aria-label' },
+  'reviews.averageRating': { selector: '.F7nice' },
+  'reviews.totalReviews': { selector: '.F7nice span[aria-label*="reviews"]', attribute: 'aria-label' },
+  'reviews.reviewsWithResponses': { selector: '.jftiEf .CDe7pd' },
+  'posts.hasPosts': { selector: 'div[role="article"], div[aria-label*="post"]' },
+  'posts.postFrequency': { selector: 'div[role="article"], div[aria-label*="post"]' }
+};
 
-  scoreData.percentage = Math.round((scoreData.totalPoints / scoreData.maxPoints) * 100);
-  return scoreData;
+const PHOTO_COUNT = { green: 10, yellow: 5 };
+const AVERAGE_RATING = { green: 4.5, yellow: 4 };
+const RESPONSE_RATE = { green: 50, yellow: 25 };
+const REVIEW_COUNT = { green: 20, yellow: 10 };
+const POSTS_PER_MONTH = { green: 2, yellow: 1 };
+const POST_ENGAGEMENT = { green: 10, yellow: 5 };
+
+type Credit = CriterionScorer<GoogleBusinessAnalysis>['credit'];
+
+// A listing with no reviews or posts has nothing to rate, answer or engage with
+const withReviews = (credit: Credit): Credit => a =>
+  a.reviews.totalReviews === 0 ? notApplicable('No reviews on the listing yet') : credit(a);
+
+// Responses are read from the review list, which Maps doesn't always render
+const withReviewList = (credit: Credit): Credit => withReviews(a =>
+  a.reviews.reviewDetails.length === 0 ? unknown('The list of reviews didn\'t load') : credit(a));
+
+const withPosts = (credit: Credit): Credit => a =>
+  a.posts.hasPosts ? credit(a) : notApplicable('No posts to measure');
+
+const GOOGLE_BUSINESS_SCORERS = defineScorers<GoogleBusinessAnalysis>(GOOGLE_BUSINESS_SCORING_CRITERIA, {
+  // Profile Completeness
+  'profile.name': { credit: a => Boolean(a.profile.businessName), evidence: 'profile.businessName' },
+  'profile.category': { credit: a => Boolean(a.profile.category), evidence: 'profile.category' },
+  'profile.hours': { credit: a => Boolean(a.information.hours), evidence: 'information.hours' },
+  'profile.description': { credit: a => Boolean(a.profile.description), evidence: 'profile.description' },
+  'profile.location': { credit: a => Boolean(a.information.address), evidence: 'information.address' },
+
+  // Visual Content
+  'visual.profilePhoto': { credit: a => Boolean(a.photos.hasProfilePhoto), evidence: 'photos.hasProfilePhoto' },
+  'visual.coverPhoto': { credit: a => Boolean(a.photos.hasCoverPhoto), evidence: 'photos.hasCoverPhoto' },
+  'visual.businessPhotos': {
+    credit: a => a.photos.hasInteriorPhotos && a.photos.hasExteriorPhotos ? 1 : a.photos.hasInteriorPhotos || a.photos.hasExteriorPhotos ? 0.5 : 0,
+    evidence: 'photos.totalPhotos'
+  },
+  'visual.photoUpdates': {
+    credit: a => thresholdCredit(a.photos.totalPhotos, PHOTO_COUNT),
+    evidence: 'photos.totalPhotos',
+    thresholds: PHOTO_COUNT
+  },
+  'visual.photoQuality': { credit: a => Boolean(a.photos.hasProfilePhoto && a.photos.hasCoverPhoto), evidence: 'photos' },
+
+  // Reviews & Ratings
+  'reviews.averageRating': {
+    credit: withReviews(a => thresholdCredit(a.reviews.averageRating, AVERAGE_RATING)),
+    evidence: 'reviews.averageRating',
+    thresholds: AVERAGE_RATING
+  },
+  'reviews.ownerResponses': { credit: withReviewList(a => a.reviews.responseRate > 0), evidence: 'reviews.reviewsWithResponses' },
+  'reviews.responseRate': {
+    credit: withReviewList(a => thresholdCredit(a.reviews.responseRate, RESPONSE_RATE)),
+    evidence: 'reviews.responseRate',
+    thresholds: RESPONSE_RATE
+  },
+  'reviews.quality': {
+    credit: a => thresholdCredit(a.reviews.totalReviews, REVIEW_COUNT),
+    evidence: 'reviews.totalReviews',
+    thresholds: REVIEW_COUNT
+  },
+  'reviews.recency': { credit: withReviews(a => a.reviews.averageRating >= 4.5), evidence: 'reviews.averageRating' },
+
+  // Posts & Updates
+  'posts.frequency': {
+    credit: a => thresholdCredit(a.posts.postFrequency, POSTS_PER_MONTH),
+    evidence: 'posts.postFrequency',
+    thresholds: POSTS_PER_MONTH
+  },
+  'posts.variety': { credit: a => a.posts.hasPosts, evidence: 'posts.hasPosts' },
+  'posts.engagement': {
+    credit: withPosts(a => thresholdCredit(a.posts.postEngagement, POST_ENGAGEMENT)),
+    evidence: 'posts.postEngagement',
+    thresholds: POST_ENGAGEMENT
+  },
+  'posts.callToActions': { credit: a => a.posts.hasPosts, evidence: 'posts.hasPosts' },
+  'posts.visualQuality': { credit: a => a.posts.hasPosts, evidence: 'posts.hasPosts' },
+
+  // Local SEO
+  'localSeo.descriptionKeywords': { credit: a => Boolean(a.profile.description), evidence: 'profile.description' },
+  'localSeo.localKeywords': { credit: a => Boolean(a.profile.description), evidence: 'profile.description' },
+  'localSeo.serviceArea': { credit: a => Boolean(a.information.address), evidence: 'information.address' },
+  'localSeo.nap': { credit: a => Boolean(a.information.phone && a.information.address), evidence: 'information' },
+  'localSeo.citations': { credit: a => Boolean(a.information.website), evidence: 'information.website' },
+
+  // Engagement & Interaction
+  'engagement.messages': { credit: a => Boolean(a.information.phone), evidence: 'information.phone' },
+  'engagement.questions': { credit: a => Boolean(a.information.website), evidence: 'information.website' },
+  'engagement.userInteraction': { credit: withPosts(a => a.posts.postEngagement >= 5), evidence: 'posts.postEngagement' },
+  'engagement.postEngagement': { credit: withPosts(a => a.posts.postEngagement >= 5), evidence: 'posts.postEngagement' },
+  'engagement.reviewInteraction': { credit: withReviewList(a => a.reviews.responseRate >= 50), evidence: 'reviews.responseRate' }
+});
+
+function createScoringResult(analysis: GoogleBusinessAnalysis, elements: Record<string, ElementEvidence>): ScoringResult {
+  return scoreAnalysis(GOOGLE_BUSINESS_SCORING_CRITERIA, GOOGLE_BUSINESS_SCORERS, analysis, elements);
 }
 
 export async function POST(request: NextRequest) {
@@ -523,7 +584,8 @@ export async function POST(request: NextRequest) {
           return;
         }
 
-        let analysis;
+        let analysis: GoogleBusinessAnalysis | undefined;
+        let elements: Record<string, ElementEvidence> = {};
         let browser;
         try {
           if (url) {
@@ -531,16 +593,7 @@ export async function POST(request: NextRequest) {
               throw new Error('Please enter a valid Google Maps URL');
             }
 
-            browser = await puppeteer.launch({
-              headless: true,
-              args: [
-                '--no-sandbox',
-                '--disable-setuid-sandbox',
-                '--disable-dev-shm-usage',
-                '--disable-accelerated-2d-canvas',
-                '--disable-gpu'
-              ]
-            });
+            browser = await launchBrowser();
 
             const page = await browser.newPage();
             await page.setViewport({ width: 1280, height: 800 });
@@ -595,7 +648,7 @@ export async function POST(request: NextRequest) {
               const reviews = await analyzeReviews(page) as ReviewsAnalysis;
               console.log('Reviews Analysis:', reviews);
               
-              const reviewsAnalysisResults = {
+              const reviewsAnalysisResults: ReviewsSummary = {
                 averageRating: reviews.averageRating,
                 totalReviews: reviews.reviewElementsCount,
                 responseRate: (reviews.reviewDetails.filter(review => review.hasResponse).length / reviews.reviewDetails.length) * 100,
@@ -614,6 +667,8 @@ export async function POST(request: NextRequest) {
               const services = await analyzeServices(page);
               console.log('Services Analysis Results:', JSON.stringify(services, null, 2));
 
+              elements = await collectElementEvidence(page, PROFILE_EVIDENCE);
+
               analysis = {
                 profile,
                 photos,
@@ -645,6 +700,10 @@ export async function POST(request: NextRequest) {
           return;
         }
 
+        if (!analysis) {
+          throw new Error('Failed to analyze Google Business Profile');
+        }
+
         // Generate recommendations based on the analysis
         const recommendations = generateRecommendations(analysis);
 
@@ -652,7 +711,7 @@ export async function POST(request: NextRequest) {
           timestamp: new Date().toISOString(),
           recommendations,
           googleBusinessAnalysis: analysis,
-          score: createScoringResult(analysis)
+          score: createScoringResult(analysis, elements)
         };
 
         // Send the final result
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+
+// Each route passes its scorer table through defineScorers when the module
+// loads, which throws if the table and the registry disagree
+const ROUTES: [string, () => Promise<Record<string, unknown>>][] = [
+  ['Instagram audit', () => import('@/app/api/audit/route')],
+  ['website audit', () => import('@/app/api/website-audit/route')],
+  ['Google Business audit', () => import('@/app/api/google-business-audit/route')]
+];
+
+describe.each(ROUTES)('%s route', (_, load) => {
+  it('scores every criterion in its registry and nothing else', async () => {
+    await expect(load()).resolves.toHaveProperty('POST');
+  });
+});
@@ -1,7 +1,18 @@
 import { NextResponse } from 'next/server';
-import sharp from 'sharp';
-import puppeteer from 'puppeteer';
-import { WEBSITE_SCORING_CRITERIA, ScoringResult } from '@/types/website';
+import { WEBSITE_SCORING_CRITERIA, WEBSITE_SCORING_SYSTEM, ScoringResult, type AnnotatedScreenshot, type HostReport, type IndexingReport, type LinkReport, type SecurityReport, type WebsiteCrawl, type WebsiteScreenshotReading, type WebsiteScreenshotRegion } from '@/types/website';
+import type { ElementEvidence } from '@/types/scoring';
+import { launchBrowser } from '@/lib/browser';
+import { collectElementEvidence, type EvidenceQuery } from '@/lib/evidence';
+import { cropToDataUrl } from '@/lib/image';
+import { defineScorers, scoreAnalysis, thresholdCredit, unknown, type CriteriaScorers } from '@/lib/scoring';
+import { normalizeImage, UploadError } from '@/lib/upload';
+import { captureAnnotatedScreenshots } from '@/lib/website/annotate';
+import { crawlWebsite } from '@/lib/website/crawl';
+import { alternateHost, describeHostIssues, resolveHost } from '@/lib/website/host';
+import { analyzeIndexing, describeIndexingIssues, readSiteIndex } from '@/lib/website/indexing';
+import { checkLinks } from '@/lib/website/links';
+import { checkSecurity, isCertificateSound } from '@/lib/website/security';
+import { readWebsiteScreenshot } from '@/lib/website/screenshot';
 
 type Status = 'green' | 'yellow' | 'red';
 
@@ -30,7 +41,7 @@ interface WebsiteAnalysis {
   };
   performance: {
     loadTime: number;
-    lighthouseScore: number;
+    lighthouseScore: number | null; // null when the Performance API returned nothing
     imageOptimization: boolean;
     status: Status;
   };
@@ -44,6 +55,7 @@ interface WebsiteAnalysis {
     hasLogo: boolean;
     colorConsistency: boolean;
     fontConsistency: boolean;
+    stylesheetsReadable?: boolean; // false when every stylesheet was cross-origin
     status: Status;
   };
   social: {
@@ -65,8 +77,83 @@ interface WebsiteAnalysis {
     hasAltTexts: boolean;
     status: Status;
   };
+  // Found anywhere on the crawled pages
+  content: {
+    hasServicesPage: boolean;
+    hasPrices: boolean;
+    hasTeamPage: boolean;
+    bioCount: number; // on the page with the most
+    hasTestimonials: boolean;
+    hasBlog: boolean;
+    status: Status;
+  };
+  links: {
+    checked: number;
+    brokenCount: number;
+    redirectCount: number;
+    mixedContentCount: number;
+    status: Status;
+  };
+  indexing: {
+    issues: string[]; // from robots.txt and the sitemap
+    status: Status;
+  };
+  host: {
+    canonicalOrigin: string;
+    issues: string[]; // www and bare domain disagreeing, or a missing or mismatched canonical tag
+    status: Status;
+  };
+  security: {
+    https: boolean;
+    redirectsToHttps: boolean;
+    certificateSound: boolean; // trusted, for this host and not about to expire
+    mixedContentCount: number;
+    headers: string[]; // security headers sent
+    score: number; // 0-100
+    status: Status;
+  };
+  // Fields a screenshot couldn't show, as 'section.field' paths
+  undetermined?: string[];
+}
+
+// The analysis plus what each check matched, keyed by the analysis path it fed
+interface WebsiteAudit {
+  analysis: WebsiteAnalysis;
+  elements: Record<string, ElementEvidence>;
+  screenshots?: AnnotatedScreenshot[]; // live sites only
+  crawl?: WebsiteCrawl;
+  links?: LinkReport;
+  indexing?: IndexingReport;
+  host?: HostReport;
+  security?: SecurityReport;
 }
 
+// The element behind each check in analyzeWebsiteUrl, keyed by the field it sets
+const PAGE_EVIDENCE: Record<string, EvidenceQuery> = {
+  'seo.metaTitle': { selector: 'title' },
+  'seo.metaDescription': { selector: 'meta[name="description"]', attribute: 'content' },
+  'seo.h1Tags': { selector: 'h1' },
+  'seo.hasSitemap': { selector: 'link[rel="sitemap"]', attribute: 'href' },
+  'mobile.isResponsive': { selector: 'meta[name="viewport"]', attribute: 'content' },
+  'branding.hasLogo': { selector: 'img[alt*="logo" i]', attribute: 'alt' },
+  'social': { selector: 'a[href*="instagram.com"], a[href*="facebook.com"]', attribute: 'href' },
+  'contact.hasEmail': { selector: 'a[href^="mailto:"]', attribute: 'href' },
+  'contact.hasBooking': { selector: 'a, button', pattern: /\b(book|appointment|schedule)/i },
+  'accessibility.hasAriaTags': { selector: '[aria-label], [aria-labelledby], [aria-describedby], [aria-hidden], [aria-expanded]' },
+  // The first image that fails the check
+  'accessibility.hasAltTexts': { selector: 'img:not([alt])', attribute: 'src' }
+};
+
+// Where on a screenshot each field was read
+const SCREENSHOT_EVIDENCE: Record<string, WebsiteScreenshotRegion> = {
+  'seo.h1Tags': 'headline',
+  'branding.hasLogo': 'logo',
+  'social': 'social',
+  'contact.hasEmail': 'email',
+  'contact.hasBooking': 'booking',
+  'accessibility.contrastRatio': 'lowestContrast'
+};
+
 function calculatePerformanceScore(metrics: PerformanceMetrics, loadTime: number): number {
   // Calculate a performance score based on various metrics
   // This is a simplified version of performance scoring
@@ -92,6 +179,71 @@ function calculatePerformanceScore(metrics: PerformanceMetrics, loadTime: number
   );
 }
 
+// Site-level content findings from every page the crawl reached
+function summarizeContent(crawl: WebsiteCrawl): WebsiteAnalysis['content'] {
+  const { pages } = crawl;
+  const hasServicesPage = pages.some(page => page.kind === 'services');
+  const hasPrices = pages.some(page => page.hasPrices);
+  const hasTeamPage = pages.some(page => page.kind === 'team');
+  const bioCount = Math.max(0, ...pages.map(page => page.bioCount));
+  const hasTestimonials = pages.some(page => page.hasTestimonials);
+  const hasBlog = pages.some(page => page.kind === 'blog' || page.hasBlogPosts);
+
+  return {
+    hasServicesPage,
+    hasPrices,
+    hasTeamPage,
+    bioCount,
+    hasTestimonials,
+    hasBlog,
+    status: hasPrices && bioCount >= 2 && hasTestimonials ? 'green' :
+            hasServicesPage || hasPrices || bioCount > 0 || hasTestimonials ? 'yellow' : 'red'
+  };
+}
+
+function summarizeLinks(report: LinkReport): WebsiteAnalysis['links'] {
+  const brokenCount = report.broken.length;
+  const mixedContentCount = report.mixedContent.length;
+  return {
+    checked: report.checked,
+    brokenCount,
+    redirectCount: report.redirectChains.length,
+    mixedContentCount,
+    status: brokenCount === 0 && mixedContentCount === 0 ? 'green' : brokenCount <= 5 ? 'yellow' : 'red'
+  };
+}
+
+function summarizeIndexing(report: IndexingReport): WebsiteAnalysis['indexing'] {
+  const issues = describeIndexingIssues(report);
+  return {
+    issues,
+    status: issues.length === 0 ? 'green' : report.sitemap.found && report.blockedKeyPages.length === 0 ? 'yellow' : 'red'
+  };
+}
+
+function summarizeHost(report: HostReport): WebsiteAnalysis['host'] {
+  const issues = describeHostIssues(report);
+  const twinSettles = !report.alternate || report.alternate.landsOn === report.canonicalOrigin;
+  return {
+    canonicalOrigin: report.canonicalOrigin,
+    issues,
+    status: issues.length === 0 ? 'green' : twinSettles ? 'yellow' : 'red'
+  };
+}
+
+function summarizeSecurity(report: SecurityReport): WebsiteAnalysis['security'] {
+  return {
+    https: report.https,
+    // Nothing answering over plain http is as good as a redirect
+    redirectsToHttps: report.redirectsToHttps !== false,
+    certificateSound: isCertificateSound(report.certificate),
+    mixedContentCount: report.mixedContent,
+    headers: Object.keys(report.headers),
+    score: report.score,
+    status: report.score >= 80 ? 'green' : report.score >= 50 ? 'yellow' : 'red'
+  };
+}
+
 function validateAndFormatUrl(url: string): string {
   // Remove any whitespace
   url = url.trim();
@@ -100,11 +252,6 @@ function validateAndFormatUrl(url: string): string {
   if (!url.startsWith('http://') && !url.startsWith('https://')) {
     url = 'https://' + url;
   }
-  
-  // If it's a naked domain without www, add www.
-  if (!url.includes('://www.') && !url.includes('://localhost')) {
-    url = url.replace('://', '://www.');
-  }
 
   try {
     // Validate the URL
@@ -115,21 +262,11 @@ function validateAndFormatUrl(url: string): string {
   }
 }
 
-async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultController): Promise<WebsiteAnalysis> {
+async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultController): Promise<WebsiteAudit> {
   // Validate and format the URL before proceeding
   const formattedUrl = validateAndFormatUrl(url);
   
-  const browser = await puppeteer.launch({ 
-    headless: true,
-    args: [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-accelerated-2d-canvas',
-      '--disable-gpu',
-      '--window-size=1920x1080'
-    ]
-  });
+  const browser = await launchBrowser(['--window-size=1920x1080']);
   
   try {
     sendProgressUpdate(controller, 'initializing');
@@ -145,13 +282,45 @@ async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultC
     page.setDefaultTimeout(60000);
 
     // Start performance measurement
-    const startTime = Date.now();
+    let startTime = Date.now();
+    // Taken once the page has loaded, so the sitemap and host checks that follow aren't counted
+    let loadTime = 0;
+    // The main response's headers, for the security checks
+    let headers: Record<string, string> = {};
+    let requestedUrl = formattedUrl;
     try {
       // Try to load the page with a more lenient wait condition
-      const response = await page.goto(formattedUrl, { 
+      const load = (address: string) => page.goto(address, {
         waitUntil: ['domcontentloaded', 'networkidle2'], // More lenient wait condition
         timeout: 60000 // 60 second timeout
       });
+      // The address as entered first. Addresses typed without a scheme are then
+      // tried over http, and last the domain with www. added or removed; which
+      // one answered is reported under SEO.
+      const addresses = [formattedUrl];
+      if (!/^https?:\/\//i.test(url.trim())) addresses.push(formattedUrl.replace(/^https:/, 'http:'));
+      const twin = alternateHost(new URL(formattedUrl).hostname);
+      if (twin) {
+        const twinUrl = new URL(formattedUrl);
+        twinUrl.hostname = twin;
+        addresses.push(twinUrl.href);
+      }
+      let response;
+      let firstError: unknown = null;
+      for (const address of addresses) {
+        try {
+          startTime = Date.now();
+          response = await load(address);
+          loadTime = Date.now() - startTime;
+          requestedUrl = address;
+          firstError = null;
+          break;
+        } catch (err) {
+          // The address as entered gives the most useful message
+          firstError ??= err;
+        }
+      }
+      if (firstError) throw firstError;
 
       if (!response) {
         throw new Error('No response from website');
@@ -160,6 +329,7 @@ async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultC
       if (!response.ok()) {
         throw new Error(`Website returned status code: ${response.status()}`);
       }
+      headers = response.headers();
 
       // Wait a bit more for any dynamic content
       await new Promise(resolve => setTimeout(resolve, 2000));
@@ -193,17 +363,19 @@ async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultC
       }
     });
 
+    sendProgressUpdate(controller, 'reading_sitemap');
+    const siteIndex = await readSiteIndex(new URL(page.url()).origin);
+
     sendProgressUpdate(controller, 'analyzing_seo');
     // SEO Analysis
-    const seo = await page.evaluate(() => {
+    const seo = await page.evaluate((sitemapFound) => {
       const metaTitle = document.querySelector('title')?.textContent || '';
       const metaDescription = document.querySelector('meta[name="description"]')?.getAttribute('content') || '';
       const h1Tags = Array.from(document.querySelectorAll('h1')).map(h1 => h1.textContent || '');
       
-      // Check for sitemap
+      // Check for sitemap, read from robots.txt and the usual locations or linked from the page
       const sitemapLink = document.querySelector('link[rel="sitemap"]');
-      const robotsTxt = document.querySelector('meta[name="robots"]')?.getAttribute('content');
-      const hasSitemap = Boolean(sitemapLink || (robotsTxt && robotsTxt.includes('sitemap')));
+      const hasSitemap = sitemapFound || Boolean(sitemapLink);
 
       // Basic keyword density analysis
       const text = document.body.innerText.toLowerCase();
@@ -225,13 +397,13 @@ async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultC
         hasSitemap,
         status
       };
-    });
+    }, siteIndex.sitemap.files.length > 0);
 
     sendProgressUpdate(controller, 'analyzing_performance');
     // Performance Analysis
     const performance = {
-      loadTime: Date.now() - startTime,
-      lighthouseScore: performanceMetrics.loadTime > 0 ? calculatePerformanceScore(performanceMetrics, Date.now() - startTime) : 0,
+      loadTime,
+      lighthouseScore: performanceMetrics.loadTime > 0 ? calculatePerformanceScore(performanceMetrics, loadTime) : null,
       imageOptimization: await page.evaluate(() => {
         const images = Array.from(document.querySelectorAll('img'));
         const modernFormats = images.filter(img => {
@@ -240,10 +412,14 @@ async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultC
         });
         return modernFormats.length / images.length > 0.5;
       }),
-      status: (Date.now() - startTime < 2000 && performanceMetrics.loadTime > 0) ? 'green' :
-              (Date.now() - startTime < 4000 && performanceMetrics.loadTime > 0) ? 'yellow' : 'red' as Status
+      status: (loadTime < 2000 && performanceMetrics.loadTime > 0) ? 'green' :
+              (loadTime < 4000 && performanceMetrics.loadTime > 0) ? 'yellow' : 'red' as Status
     };
 
+    // Fetches the other addresses, so it waits until the performance checks are done
+    const canonicalHref = await page.evaluate(() => document.querySelector('link[rel="canonical" i]')?.getAttribute('href') ?? null);
+    const host = await resolveHost(requestedUrl, page.url(), canonicalHref);
+
     sendProgressUpdate(controller, 'analyzing_mobile');
     // Mobile Analysis
     const mobile = await page.evaluate(() => {
@@ -269,10 +445,12 @@ async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultC
       const styles = Array.from(document.styleSheets);
       const colors = new Set();
       const fonts = new Set();
+      let readableSheets = 0;
 
       styles.forEach(style => {
         try {
           const rules = style.cssRules;
+          readableSheets++;
           for (let rule of rules) {
             if (rule instanceof CSSStyleRule) {
               // Extract colors
@@ -296,6 +474,7 @@ async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultC
         hasLogo,
         colorConsistency: colors.size <= 5, // Assuming 5 or fewer colors is consistent
         fontConsistency: fonts.size <= 3, // Assuming 3 or fewer fonts is consistent
+        stylesheetsReadable: styles.length === 0 || readableSheets > 0,
         status
       };
     });
@@ -396,16 +575,46 @@ async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultC
       };
     });
 
+    const elements = await collectElementEvidence(page, PAGE_EVIDENCE);
+
+    sendProgressUpdate(controller, 'capturing_screenshots');
+    const screenshots = await captureAnnotatedScreenshots(page);
+
+    const { crawl, resources } = await crawlWebsite(browser, page, siteIndex, progress =>
+      sendProgressUpdate(controller, 'crawling_pages', { page: progress })
+    );
+
+    sendProgressUpdate(controller, 'checking_links');
+    const links = await checkLinks(resources);
+    const indexing = analyzeIndexing(siteIndex, crawl);
+
+    sendProgressUpdate(controller, 'checking_security');
+    const security = await checkSecurity(page.url(), headers, links.mixedContent.length);
+
     sendProgressUpdate(controller, 'generating_recommendations');
 
     return {
-      seo,
-      performance,
-      mobile,
-      branding,
-      social,
-      contact,
-      accessibility
+      analysis: {
+        seo,
+        performance,
+        mobile,
+        branding,
+        social,
+        contact,
+        accessibility,
+        content: summarizeContent(crawl),
+        links: summarizeLinks(links),
+        indexing: summarizeIndexing(indexing),
+        host: summarizeHost(host),
+        security: summarizeSecurity(security)
+      },
+      elements,
+      screenshots,
+      crawl,
+      links,
+      indexing,
+      host,
+      security
     };
 
   } finally {
@@ -413,150 +622,283 @@ async function analyzeWebsiteUrl(url: string, controller: ReadableStreamDefaultC
   }
 }
 
-async function analyzeWebsiteScreenshot(imageBuffer: Buffer): Promise<WebsiteAnalysis> {
+// A screenshot shows what a visitor sees; anything only in the page's code is
+// listed in `undetermined` and left out of the suggestions
+async function analyzeWebsiteScreenshot(imageBuffer: Buffer): Promise<WebsiteAudit> {
+  let reading: WebsiteScreenshotReading;
   try {
-    // Convert to grayscale for analysis
-    const { data, info } = await sharp(imageBuffer)
-      .grayscale()
-      .raw()
-      .toBuffer({ resolveWithObject: true });
-
-    // Basic image analysis
-    const pixelValues = Array.from(data);
-    const meanBrightness = pixelValues.reduce((sum, val) => sum + val, 0) / pixelValues.length;
-    const variance = pixelValues.reduce((sum, val) => sum + Math.pow(val - meanBrightness, 2), 0) / pixelValues.length;
-    const stdDev = Math.sqrt(variance);
-
-    // For screenshots, we can only analyze visual elements
-    return {
-      seo: {
-        metaTitle: '',
-        metaDescription: '',
-        h1Tags: [],
-        keywordDensity: 0,
-        hasSitemap: false,
-        status: 'red'
-      },
-      performance: {
-        loadTime: 0,
-        lighthouseScore: 0,
-        imageOptimization: stdDev > 50 && meanBrightness > 100,
-        status: stdDev > 50 && meanBrightness > 100 ? 'green' : 
-                stdDev > 30 && meanBrightness > 80 ? 'yellow' : 'red'
-      },
-      mobile: {
-        isResponsive: info.width <= 375,
-        touchElements: false,
-        viewportMeta: false,
-        status: info.width <= 375 ? 'green' : 'red'
-      },
-      branding: {
-        hasLogo: false,
-        colorConsistency: stdDev > 30,
-        fontConsistency: false,
-        status: stdDev > 30 ? 'yellow' : 'red'
-      },
-      social: {
-        hasInstagram: false,
-        hasFacebook: false,
-        hasSocialFeeds: false,
-        status: 'red'
-      },
-      contact: {
-        hasPhone: false,
-        hasEmail: false,
-        hasLocation: false,
-        hasBooking: false,
-        status: 'red'
-      },
-      accessibility: {
-        contrastRatio: stdDev > 50 ? 1 : 0,
-        hasAriaTags: false,
-        hasAltTexts: false,
-        status: stdDev > 50 ? 'yellow' : 'red'
-      }
-    };
+    reading = await readWebsiteScreenshot(imageBuffer);
   } catch (error) {
     console.error('Error analyzing screenshot:', error);
     throw new Error('Failed to analyze the screenshot');
   }
-}
 
-// Add helper function to send progress updates
-function sendProgressUpdate(controller: ReadableStreamDefaultController, stage: string) {
-  const encoder = new TextEncoder();
-  controller.enqueue(encoder.encode(JSON.stringify({
-    type: 'progress',
-    stage
-  }) + '\n'));
-}
-
-function createScoringResult(analysis: WebsiteAnalysis): ScoringResult {
-  const scoreData: ScoringResult = {
-    totalPoints: 0,
-    maxPoints: 0,
-    percentage: 0,
-    details: {}
+  const undetermined = [
+    'seo.metaTitle',
+    'seo.metaDescription',
+    'seo.hasSitemap',
+    'performance.loadTime',
+    'performance.lighthouseScore',
+    'performance.imageOptimization',
+    'mobile.viewportMeta',
+    'branding.fontConsistency',
+    'social.hasSocialFeeds',
+    'accessibility.hasAriaTags',
+    'accessibility.hasAltTexts',
+    // The rest of the site isn't in a screenshot of one page
+    'content.hasPrices',
+    'content.bioCount',
+    'content.hasTestimonials',
+    'content.hasBlog',
+    'links.brokenCount',
+    'indexing.issues',
+    'host.issues',
+    'security.https',
+    'security.headers',
+    // A desktop capture says nothing about how the site behaves on a phone
+    ...(reading.isMobileLayout ? [] : ['mobile.isResponsive']),
+    ...(reading.contrastPassRate === null ? ['accessibility.contrastRatio'] : [])
+  ];
+
+  const h1Tags = reading.headline ? [reading.headline] : [];
+  const touchElements = reading.buttonCount > 0;
+  const colorConsistency = reading.paletteSize <= 5;
+  const hasInstagram = reading.socialNetworks.includes('instagram');
+  const hasFacebook = reading.socialNetworks.includes('facebook');
+  const hasPhone = reading.phones.length > 0;
+  const hasEmail = reading.emails.length > 0;
+  const hasLocation = reading.addresses.length > 0 || reading.mentionsLocation;
+  const hasBooking = reading.bookingLabels.length > 0;
+  const contrastRatio = reading.contrastPassRate ?? 0;
+
+  const elements: Record<string, ElementEvidence> = {};
+  const snippets: Partial<Record<WebsiteScreenshotRegion, string | undefined>> = {
+    headline: reading.headline ?? undefined,
+    email: reading.emails[0],
+    booking: reading.bookingLabels[0]
   };
+  for (const [path, region] of Object.entries(SCREENSHOT_EVIDENCE)) {
+    const box = reading.regions[region];
+    if (!box) continue;
+    const snippet = snippets[region];
+    elements[path] = { ...(snippet && { snippet }), crop: await cropToDataUrl(imageBuffer, box) };
+  }
 
-  // Map analysis data to scoring criteria
-  const categoryMappings = {
-    "Technical SEO": {
-      "Page load speed is under 2 seconds": analysis.performance.loadTime < 2000,
-      "Mobile-friendly design": analysis.mobile.isResponsive,
-      "Core Web Vitals pass": analysis.performance.lighthouseScore > 90,
-      "No broken links": analysis.seo.hasSitemap
+  const analysis: WebsiteAnalysis = {
+    seo: {
+      metaTitle: '',
+      metaDescription: '',
+      h1Tags,
+      keywordDensity: reading.keywordDensity,
+      hasSitemap: false,
+      status: h1Tags.length > 0 && reading.keywordDensity > 1 ? 'green' :
+              h1Tags.length > 0 || reading.keywordDensity > 1 ? 'yellow' : 'red'
     },
-    "On-Page SEO": {
-      "Meta title is optimized (50-60 characters)": Boolean(analysis.seo.metaTitle) && analysis.seo.metaTitle.length >= 50 && analysis.seo.metaTitle.length <= 60,
-      "Meta description is optimized (150-160 characters)": Boolean(analysis.seo.metaDescription) && analysis.seo.metaDescription.length >= 150 && analysis.seo.metaDescription.length <= 160,
-      "H1 tags are properly used": analysis.seo.h1Tags.length > 0,
-      "Keyword presence in content is high": analysis.seo.keywordDensity > 1,
-      "Alt text coverage for images is high": analysis.accessibility.hasAltTexts
+    performance: {
+      loadTime: 0,
+      lighthouseScore: 0,
+      imageOptimization: false,
+      // Nothing about speed shows in an image
+      status: 'yellow'
     },
-    "Content Completeness": {
-      "Services are listed and described": analysis.contact.hasBooking,
-      "High-quality images are used": analysis.performance.imageOptimization,
-      "Staff bios are present": analysis.branding.hasLogo,
-      "Testimonials are included": analysis.social.hasSocialFeeds,
-      "Blog or news section is present": analysis.seo.hasSitemap // This is a placeholder - would need actual blog detection
+    mobile: {
+      isResponsive: reading.isMobileLayout,
+      touchElements,
+      viewportMeta: false,
+      status: reading.isMobileLayout && touchElements ? 'green' :
+              reading.isMobileLayout || touchElements ? 'yellow' : 'red'
     },
-    "Branding Consistency": {
-      "Logo is present and consistent": analysis.branding.hasLogo,
-      "Color usage is consistent": analysis.branding.colorConsistency,
-      "Typography is consistent": analysis.branding.fontConsistency,
-      "Tone of voice is consistent": true // This would need content analysis
+    branding: {
+      hasLogo: reading.hasLogo,
+      colorConsistency,
+      fontConsistency: false,
+      status: reading.hasLogo && colorConsistency ? 'green' :
+              reading.hasLogo || colorConsistency ? 'yellow' : 'red'
     },
-    "Social & Contact Integration": {
-      "Social media links are present": analysis.social.hasInstagram || analysis.social.hasFacebook,
-      "Contact form is functional": analysis.contact.hasEmail,
-      "Booking integration is present": analysis.contact.hasBooking
+    social: {
+      hasInstagram,
+      hasFacebook,
+      hasSocialFeeds: false,
+      status: hasInstagram && hasFacebook ? 'green' :
+              hasInstagram || hasFacebook ? 'yellow' : 'red'
     },
-    "Security & Accessibility": {
-      "HTTPS is enabled": true, // This would need to be checked in the API
-      "ARIA tags are used": analysis.accessibility.hasAriaTags,
-      "Alt text is present for images": analysis.accessibility.hasAltTexts,
-      "Contrast compliance is met": analysis.accessibility.contrastRatio > 0.5
-    }
+    contact: {
+      hasPhone,
+      hasEmail,
+      hasLocation,
+      hasBooking,
+      status: hasPhone && hasEmail && hasLocation && hasBooking ? 'green' :
+              hasPhone && (hasEmail || hasLocation) ? 'yellow' : 'red'
+    },
+    accessibility: {
+      contrastRatio,
+      hasAriaTags: false,
+      hasAltTexts: false,
+      status: reading.contrastPassRate === null ? 'yellow' :
+              contrastRatio >= 0.9 ? 'green' : contrastRatio > 0.5 ? 'yellow' : 'red'
+    },
+    content: {
+      hasServicesPage: false,
+      hasPrices: false,
+      hasTeamPage: false,
+      bioCount: 0,
+      hasTestimonials: false,
+      hasBlog: false,
+      status: 'yellow'
+    },
+    links: {
+      checked: 0,
+      brokenCount: 0,
+      redirectCount: 0,
+      mixedContentCount: 0,
+      status: 'yellow'
+    },
+    indexing: {
+      issues: [],
+      status: 'yellow'
+    },
+    host: {
+      canonicalOrigin: '',
+      issues: [],
+      status: 'yellow'
+    },
+    security: {
+      https: false,
+      redirectsToHttps: false,
+      certificateSound: false,
+      mixedContentCount: 0,
+      headers: [],
+      score: 0,
+      status: 'yellow'
+    },
+    undetermined
   };
+  return { analysis, elements };
+}
 
-  // Calculate scores for each category
-  Object.entries(categoryMappings).forEach(([category, items]) => {
-    const categoryScore = Object.values(items).filter(Boolean).length;
-    const maxScore = Object.keys(items).length;
-    
-    scoreData.details[category] = {
-      score: categoryScore,
-      maxScore,
-      items
-    };
-    
-    scoreData.totalPoints += categoryScore;
-    scoreData.maxPoints += maxScore;
-  });
+// Add helper function to send progress updates
+function sendProgressUpdate(controller: ReadableStreamDefaultController, stage: string, details?: Record<string, unknown>) {
+  const encoder = new TextEncoder();
+  controller.enqueue(encoder.encode(JSON.stringify({
+    type: 'progress',
+    stage,
+    ...details
+  }) + '\n'));
+}
 
-  scoreData.percentage = Math.round((scoreData.totalPoints / scoreData.maxPoints) * 100);
-  return scoreData;
+const thresholds = (id: string) => {
+  const [category, criterion] = id.split('.');
+  return WEBSITE_SCORING_SYSTEM[category].criteria[criterion].thresholds;
+};
+
+const LOAD_TIME = thresholds('technicalSeo.pageLoadSpeed');
+const BROKEN_LINKS = thresholds('technicalSeo.brokenLinks');
+const INDEXING_ISSUES = thresholds('technicalSeo.crawlability');
+const SECURITY_HEADERS = thresholds('securityAccessibility.securityHeaders');
+// The registry gives Core Web Vitals as a share; the analysis has a 0-100 score
+const LIGHTHOUSE_SCORE = {
+  green: thresholds('technicalSeo.coreWebVitals').green * 100,
+  yellow: thresholds('technicalSeo.coreWebVitals').yellow * 100
+};
+
+// Full credit inside the optimal length range, half credit when present but off-length
+const lengthCredit = (text: string, min: number, max: number): number =>
+  !text ? 0 : text.length >= min && text.length <= max ? 1 : 0.5;
+
+// Criteria resting on a field the screenshot couldn't show are unknown rather than failed
+const screenshotAware = (scorers: CriteriaScorers<WebsiteAnalysis>): CriteriaScorers<WebsiteAnalysis> =>
+  Object.fromEntries(Object.entries(scorers).map(([id, scorer]) => [id, {
+    ...scorer,
+    credit: (a: WebsiteAnalysis) => a.undetermined?.includes(scorer.evidence) ? unknown('Not visible in a screenshot') : scorer.credit(a)
+  }]));
+
+// Colors and fonts are read from the stylesheets, which can't be read cross-origin
+const stylesheetCredit = (credit: (a: WebsiteAnalysis) => boolean) => (a: WebsiteAnalysis) =>
+  a.branding.stylesheetsReadable === false ? unknown('The stylesheets are on another domain and couldn\'t be read') : credit(a);
+
+const WEBSITE_SCORERS = defineScorers<WebsiteAnalysis>(WEBSITE_SCORING_CRITERIA, screenshotAware({
+  // Technical SEO
+  'technicalSeo.pageLoadSpeed': {
+    credit: a => thresholdCredit(a.performance.loadTime, LOAD_TIME),
+    evidence: 'performance.loadTime',
+    thresholds: LOAD_TIME
+  },
+  'technicalSeo.mobileFriendly': { credit: a => a.mobile.isResponsive, evidence: 'mobile.isResponsive' },
+  'technicalSeo.coreWebVitals': {
+    credit: a => a.performance.lighthouseScore !== null
+      ? thresholdCredit(a.performance.lighthouseScore, LIGHTHOUSE_SCORE)
+      : unknown('Performance metrics were not available'),
+    evidence: 'performance.lighthouseScore',
+    thresholds: LIGHTHOUSE_SCORE
+  },
+  'technicalSeo.brokenLinks': {
+    credit: a => thresholdCredit(a.links.brokenCount, BROKEN_LINKS),
+    evidence: 'links.brokenCount',
+    thresholds: BROKEN_LINKS
+  },
+  'technicalSeo.crawlability': {
+    credit: a => thresholdCredit(a.indexing.issues.length, INDEXING_ISSUES),
+    evidence: 'indexing.issues',
+    thresholds: INDEXING_ISSUES
+  },
+
+  // On-Page SEO
+  'onPageSeo.metaTitle': { credit: a => lengthCredit(a.seo.metaTitle, 50, 60), evidence: 'seo.metaTitle' },
+  'onPageSeo.metaDescription': { credit: a => lengthCredit(a.seo.metaDescription, 150, 160), evidence: 'seo.metaDescription' },
+  'onPageSeo.h1Tags': {
+    credit: a => a.seo.h1Tags.length === 1 ? 1 : a.seo.h1Tags.length > 1 ? 0.5 : 0,
+    evidence: 'seo.h1Tags'
+  },
+  'onPageSeo.keywordPresence': { credit: a => a.seo.keywordDensity > 1, evidence: 'seo.keywordDensity' },
+  'onPageSeo.altTextCoverage': { credit: a => a.accessibility.hasAltTexts, evidence: 'accessibility.hasAltTexts' },
+
+  // Content Completeness
+  'contentCompleteness.servicesListed': {
+    credit: a => a.content.hasPrices ? 1 : a.content.hasServicesPage ? 0.5 : 0,
+    evidence: 'content.hasPrices'
+  },
+  'contentCompleteness.imageQuality': { credit: a => a.performance.imageOptimization, evidence: 'performance.imageOptimization' },
+  'contentCompleteness.staffBios': {
+    credit: a => a.content.bioCount >= 2 ? 1 : a.content.bioCount > 0 || a.content.hasTeamPage ? 0.5 : 0,
+    evidence: 'content.bioCount'
+  },
+  'contentCompleteness.testimonials': { credit: a => a.content.hasTestimonials, evidence: 'content.hasTestimonials' },
+  'contentCompleteness.blog': { credit: a => a.content.hasBlog, evidence: 'content.hasBlog' },
+
+  // Branding Consistency
+  'brandingConsistency.logo': { credit: a => a.branding.hasLogo, evidence: 'branding.hasLogo' },
+  'brandingConsistency.colorUsage': { credit: stylesheetCredit(a => a.branding.colorConsistency), evidence: 'branding.colorConsistency' },
+  'brandingConsistency.typography': { credit: stylesheetCredit(a => a.branding.fontConsistency), evidence: 'branding.fontConsistency' },
+  // This would need content analysis
+  'brandingConsistency.consistentTone': { credit: () => unknown('Tone of voice isn\'t checked automatically'), evidence: '' },
+
+  // Social & Contact Integration
+  'socialContactIntegration.socialMediaLinks': {
+    credit: a => a.social.hasInstagram && a.social.hasFacebook ? 1 : a.social.hasInstagram || a.social.hasFacebook ? 0.5 : 0,
+    evidence: 'social'
+  },
+  'socialContactIntegration.contactForm': { credit: a => a.contact.hasEmail, evidence: 'contact.hasEmail' },
+  'socialContactIntegration.bookingIntegration': { credit: a => a.contact.hasBooking, evidence: 'contact.hasBooking' },
+
+  // Security & Accessibility
+  // Full credit needs a sound certificate, http redirecting to https and nothing loaded insecurely
+  'securityAccessibility.https': {
+    credit: a => !a.security.https || !a.security.certificateSound ? 0 :
+      a.security.redirectsToHttps && a.security.mixedContentCount === 0 ? 1 : 0.5,
+    evidence: 'security.https'
+  },
+  'securityAccessibility.securityHeaders': {
+    credit: a => thresholdCredit(a.security.headers.length, SECURITY_HEADERS),
+    evidence: 'security.headers',
+    thresholds: SECURITY_HEADERS
+  },
+  'securityAccessibility.ariaTags': { credit: a => a.accessibility.hasAriaTags, evidence: 'accessibility.hasAriaTags' },
+  'securityAccessibility.altText': { credit: a => a.accessibility.hasAltTexts, evidence: 'accessibility.hasAltTexts' },
+  'securityAccessibility.contrastCompliance': { credit: a => a.accessibility.contrastRatio > 0.5, evidence: 'accessibility.contrastRatio' }
+}));
+
+function createScoringResult(analysis: WebsiteAnalysis, elements: Record<string, ElementEvidence>): ScoringResult {
+  return scoreAnalysis(WEBSITE_SCORING_CRITERIA, WEBSITE_SCORERS, analysis, elements);
 }
 
 export async function POST(request: Request) {
@@ -577,25 +919,26 @@ export async function POST(request: Request) {
           return;
         }
 
-        let websiteAnalysis: WebsiteAnalysis;
+        let audit: WebsiteAudit;
         try {
           if (url) {
-            websiteAnalysis = await analyzeWebsiteUrl(url, controller);
+            audit = await analyzeWebsiteUrl(url, controller);
           } else if (screenshot) {
-            const arrayBuffer = await screenshot.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
-            websiteAnalysis = await analyzeWebsiteScreenshot(buffer);
+            const { buffer } = await normalizeImage(screenshot);
+            audit = await analyzeWebsiteScreenshot(buffer);
           } else {
             throw new Error('No input provided');
           }
         } catch (err) {
           controller.enqueue(encoder.encode(JSON.stringify({
             type: 'error',
-            error: err instanceof Error ? err.message : 'Failed to analyze website'
+            error: err instanceof Error ? err.message : 'Failed to analyze website',
+            ...(err instanceof UploadError && { code: err.code, details: { fileName: err.fileName } })
           }) + '\n'));
           controller.close();
           return;
         }
+        const websiteAnalysis = audit.analysis;
 
         // Generate recommendations based on the analysis
         const recommendations: Recommendation[] = [
@@ -640,19 +983,34 @@ export async function POST(request: Request) {
             suggestions: [],
             strengths: [],
             status: websiteAnalysis.accessibility.status
+          },
+          {
+            category: 'Website Content',
+            suggestions: [],
+            strengths: [],
+            status: websiteAnalysis.content.status
+          },
+          {
+            category: 'Security',
+            suggestions: [],
+            strengths: [],
+            status: websiteAnalysis.security.status
           }
         ];
 
+        // Fields a screenshot couldn't show get neither a strength nor a suggestion
+        const known = (field: string) => !websiteAnalysis.undetermined?.includes(field);
+
         // Add SEO recommendations
         if (websiteAnalysis.seo.metaTitle) {
           recommendations[0].strengths.push('Your website has a title tag - this is crucial for SEO');
-        } else {
+        } else if (known('seo.metaTitle')) {
           recommendations[0].suggestions.push('Add a descriptive title tag that includes your business name and main services');
         }
 
         if (websiteAnalysis.seo.metaDescription) {
           recommendations[0].strengths.push('Your website has a meta description - this helps with search results');
-        } else {
+        } else if (known('seo.metaDescription')) {
           recommendations[0].suggestions.push('Add a compelling meta description that summarizes your beauty services');
         }
 
@@ -662,23 +1020,87 @@ export async function POST(request: Request) {
           recommendations[0].suggestions.push('Add an H1 tag to your main page content');
         }
 
-        // Add Performance recommendations
-        if (websiteAnalysis.performance.loadTime < 2000) {
-          recommendations[1].strengths.push('Your website loads quickly - this is great for user experience');
-        } else {
-          recommendations[1].suggestions.push(`Optimize your website's load time (currently ${websiteAnalysis.performance.loadTime}ms)`);
+        // Pages beyond the homepage, when the site was crawled
+        const otherPages = audit.crawl?.pages.filter(page => page.depth > 0) ?? [];
+        const pathsOf = (pages: typeof otherPages) => pages.map(page => new URL(page.url).pathname).join(', ');
+        const withoutDescription = otherPages.filter(page => !page.hasMetaDescription);
+        if (withoutDescription.length > 0) {
+          recommendations[0].suggestions.push(`Add meta descriptions to ${withoutDescription.length} more of your pages (${pathsOf(withoutDescription)})`);
+        }
+        const withoutH1 = otherPages.filter(page => page.h1Count !== 1);
+        if (withoutH1.length > 0) {
+          recommendations[0].suggestions.push(`Give each page exactly one H1 heading (${pathsOf(withoutH1)})`);
+        }
+
+        // Add robots.txt and sitemap recommendations
+        if (audit.indexing) {
+          if (websiteAnalysis.indexing.issues.length === 0) {
+            recommendations[0].strengths.push(`Your sitemap lists ${audit.indexing.sitemap.urlCount} pages and robots.txt lets search engines reach them`);
+          }
+          if (!audit.indexing.sitemap.found) {
+            recommendations[0].suggestions.push('Add a sitemap.xml and list it in robots.txt so search engines find all your pages');
+          } else if (audit.indexing.sitemap.isStale) {
+            recommendations[0].suggestions.push('Keep your sitemap up to date - most website builders can regenerate it automatically');
+          }
+          if (audit.indexing.blockedKeyPages.length > 0) {
+            recommendations[0].suggestions.push('Remove the robots.txt rules that block your key pages from search engines');
+          }
+          if (audit.indexing.conflicts.length > 0) {
+            recommendations[0].suggestions.push('Make your sitemap, robots.txt and noindex tags agree on which pages should appear in search');
+          }
         }
 
-        if (websiteAnalysis.performance.lighthouseScore > 90) {
-          recommendations[1].strengths.push('Your website has excellent performance scores');
+        // Add site address recommendations
+        if (audit.host) {
+          const { alternate, canonicalOrigin, canonicalTag } = audit.host;
+          if (websiteAnalysis.host.issues.length === 0) {
+            recommendations[0].strengths.push(`Your website settles on one address, ${new URL(canonicalOrigin).host}, and its canonical tag agrees`);
+          }
+          if (alternate && alternate.landsOn !== canonicalOrigin) {
+            recommendations[0].suggestions.push(`Redirect ${new URL(alternate.origin).host} to ${new URL(canonicalOrigin).host} so search engines see one website rather than two`);
+          }
+          if (!canonicalTag) {
+            recommendations[0].suggestions.push('Add a canonical tag to your pages naming the address you want to appear in search');
+          } else if (!canonicalTag.startsWith(`${canonicalOrigin}/`)) {
+            recommendations[0].suggestions.push(`Point your canonical tag at ${canonicalOrigin} - the address your site is actually served from`);
+          }
+        }
+
+        // Add link check recommendations
+        if (audit.links) {
+          const { broken, redirectChains } = audit.links;
+          if (broken.length > 0) {
+            recommendations[0].suggestions.push(`Fix or remove ${broken.length} broken ${broken.length === 1 ? 'link' : 'links'} - see the link check below`);
+          } else if (audit.links.checked > 0) {
+            recommendations[0].strengths.push(`All ${audit.links.checked} links we checked work`);
+          }
+          if (redirectChains.length > 0) {
+            recommendations[0].suggestions.push('Point links straight at their final address instead of through redirects');
+          }
+        }
+
+        // Add Performance recommendations
+        if (!known('performance.loadTime')) {
+          recommendations[1].suggestions.push('Run the audit on your website address to measure load time and performance');
         } else {
-          recommendations[1].suggestions.push(`Improve your Lighthouse performance score (currently ${websiteAnalysis.performance.lighthouseScore})`);
+          if (websiteAnalysis.performance.loadTime < 2000) {
+            recommendations[1].strengths.push('Your website loads quickly - this is great for user experience');
+          } else {
+            recommendations[1].suggestions.push(`Optimize your website's load time (currently ${websiteAnalysis.performance.loadTime}ms)`);
+          }
+
+          const { lighthouseScore } = websiteAnalysis.performance;
+          if (lighthouseScore !== null && lighthouseScore > 90) {
+            recommendations[1].strengths.push('Your website has excellent performance scores');
+          } else if (lighthouseScore !== null) {
+            recommendations[1].suggestions.push(`Improve your Lighthouse performance score (currently ${lighthouseScore})`);
+          }
         }
 
         // Add Mobile recommendations
         if (websiteAnalysis.mobile.isResponsive) {
           recommendations[2].strengths.push('Your website is mobile-responsive');
-        } else {
+        } else if (known('mobile.isResponsive')) {
           recommendations[2].suggestions.push('Make your website mobile-responsive');
         }
 
@@ -728,21 +1150,96 @@ export async function POST(request: Request) {
         // Add Accessibility recommendations
         if (websiteAnalysis.accessibility.hasAltTexts) {
           recommendations[6].strengths.push('Your images have alt text - this is great for accessibility');
-        } else {
+        } else if (known('accessibility.hasAltTexts')) {
           recommendations[6].suggestions.push('Add alt text to all images');
         }
+        const missingAlt = otherPages.filter(page => page.missingAltCount > 0);
+        if (missingAlt.length > 0) {
+          recommendations[6].suggestions.push(`Add alt text to images on your other pages too (${pathsOf(missingAlt)})`);
+        }
 
         if (websiteAnalysis.accessibility.hasAriaTags) {
           recommendations[6].strengths.push('Your website uses ARIA tags for better accessibility');
-        } else {
+        } else if (known('accessibility.hasAriaTags')) {
           recommendations[6].suggestions.push('Add ARIA tags to improve accessibility');
         }
 
+        // Add Content recommendations
+        if (known('content.hasPrices')) {
+          if (websiteAnalysis.content.hasPrices) {
+            recommendations[7].strengths.push('Your services are listed with prices');
+          } else if (websiteAnalysis.content.hasServicesPage) {
+            recommendations[7].suggestions.push('Add prices and short descriptions to your services page');
+          } else {
+            recommendations[7].suggestions.push('Add a services page listing your treatments and prices');
+          }
+
+          if (websiteAnalysis.content.bioCount >= 2) {
+            recommendations[7].strengths.push('Your team is introduced with photos and bios');
+          } else {
+            recommendations[7].suggestions.push('Introduce your team with a photo and a short bio for each stylist');
+          }
+
+          if (websiteAnalysis.content.hasTestimonials) {
+            recommendations[7].strengths.push('Your website shows client testimonials');
+          } else {
+            recommendations[7].suggestions.push('Add testimonials or reviews from happy clients');
+          }
+
+          if (websiteAnalysis.content.hasBlog) {
+            recommendations[7].strengths.push('Your website has a blog or news section');
+          } else {
+            recommendations[7].suggestions.push('Start a blog with tips and news to keep clients coming back');
+          }
+        } else {
+          recommendations[7].suggestions.push('Run the audit on your website address to check your services, team and testimonial pages');
+        }
+
+        // Add Security recommendations
+        const security = audit.security;
+        if (!security) {
+          recommendations[8].suggestions.push('Run the audit on your website address to check HTTPS and security headers');
+        } else if (!security.https) {
+          recommendations[8].suggestions.push('Serve your website over HTTPS - browsers mark http sites as "Not secure"');
+        } else {
+          recommendations[8].strengths.push('Your website is served over HTTPS');
+          const certificate = security.certificate;
+          if (!certificate) {
+            recommendations[8].suggestions.push('We couldn\'t read your SSL certificate - check it with your hosting provider');
+          } else if (!certificate.chainValid || !certificate.hostnameMatches) {
+            recommendations[8].suggestions.push(certificate.hostnameMatches
+              ? 'Your SSL certificate isn\'t from a trusted authority - browsers will show a warning'
+              : 'Your SSL certificate doesn\'t cover this address - browsers will show a warning');
+          } else if (!websiteAnalysis.security.certificateSound) {
+            recommendations[8].suggestions.push(`Renew your SSL certificate - it expires in ${certificate.daysLeft} days`);
+          }
+          if (!websiteAnalysis.security.redirectsToHttps) {
+            recommendations[8].suggestions.push('Redirect the http version of your site to https');
+          }
+          if (security.mixedContent > 0) {
+            recommendations[8].suggestions.push('Load every image and script over https so browsers don\'t block them or warn visitors');
+          }
+          if (!security.headers['strict-transport-security']) {
+            recommendations[8].suggestions.push('Add a Strict-Transport-Security header so browsers always use https');
+          }
+          if (websiteAnalysis.security.headers.length < SECURITY_HEADERS.green) {
+            recommendations[8].suggestions.push('Ask your web developer or host to add security headers such as Content-Security-Policy and X-Frame-Options');
+          } else {
+            recommendations[8].strengths.push('Your website sends the main security headers');
+          }
+        }
+
         const result = {
           timestamp: new Date().toISOString(),
           recommendations,
           websiteAnalysis,
-          score: createScoringResult(websiteAnalysis)
+          ...(audit.screenshots && { screenshots: audit.screenshots }),
+          ...(audit.crawl && { crawl: audit.crawl }),
+          ...(audit.links && { links: audit.links }),
+          ...(audit.indexing && { indexing: audit.indexing }),
+          ...(audit.host && { host: audit.host }),
+          ...(audit.security && { security: audit.security }),
+          score: createScoringResult(websiteAnalysis, audit.elements)
         };
 
         // Send the final result
@@ -4,6 +4,8 @@ import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { GOOGLE_BUSINESS_SCORING_CRITERIA, ScoringResult } from '@/types/google-business';
+import { CRITERION_STATUS_LABELS } from '@/types/scoring';
+import { describeThresholds, formatEvidenceValue, hasEvidence, isDetermined, setCriterionCredit, undeterminedCriteria } from '@/lib/scoring';
 
 interface Recommendation {
   category: string;
@@ -266,27 +268,9 @@ export default function GoogleBusinessAudit() {
   };
 
   // Function to recalculate score when criteria are toggled
-  const recalculateScore = (category: string, item: string, completed: boolean) => {
+  const recalculateScore = (category: string, id: string, completed: boolean) => {
     if (!editableScore) return;
-
-    const newDetails = { ...editableScore.details };
-    newDetails[category].items[item] = completed;
-    
-    // Recalculate category score
-    const categoryItems = newDetails[category].items;
-    const categoryScore = Object.values(categoryItems).filter(Boolean).length;
-    newDetails[category].score = categoryScore;
-
-    // Recalculate total score
-    const totalPoints = Object.values(newDetails).reduce((sum, cat) => sum + cat.score, 0);
-    const maxPoints = Object.values(newDetails).reduce((sum, cat) => sum + cat.maxScore, 0);
-
-    setEditableScore({
-      totalPoints,
-      maxPoints,
-      percentage: Math.round((totalPoints / maxPoints) * 100),
-      details: newDetails
-    });
+    setEditableScore(setCriterionCredit(editableScore, category, id, completed ? 1 : 0));
   };
 
   return (
@@ -395,98 +379,138 @@ export default function GoogleBusinessAudit() {
               <p className="text-gray-600 mt-2">
                 {editableScore.totalPoints} out of {editableScore.maxPoints} points
               </p>
+              {undeterminedCriteria(editableScore).length > 0 && (
+                <p className="text-sm text-amber-700 mt-2">
+                  {undeterminedCriteria(editableScore).length} criteria couldn&apos;t be checked and aren&apos;t counted. Tick any that are in place to add them to your score.
+                </p>
+              )}
             </div>
 
             <div className="space-y-8">
-              {Object.entries(editableScore.details).map(([category, data]) => (
+              {GOOGLE_BUSINESS_SCORING_CRITERIA.filter(({ category }) => editableScore.details[category]).map(({ category, items }) => (
                 <div key={category} className="border-b border-gray-200 pb-6 last:border-0">
                   <h3 className="text-xl font-semibold text-gray-900 mb-4">
                     {category}
                   </h3>
                   <div className="space-y-4">
-                    {Object.entries(data.items).map(([item, isChecked]) => {
+                    {items.map(({ id, label }) => {
+                      const criterion = editableScore.details[category].items[id];
+                      if (!criterion) return null;
+
                       // Get the relevant data for this item
+                      const analysis = result.googleBusinessAnalysis;
                       let foundData = '';
-                      switch (category) {
-                        case 'Profile Completeness':
-                          if (item.includes('Business name')) {
-                            foundData = result.googleBusinessAnalysis.profile.businessName;
-                          } else if (item.includes('category')) {
-                            foundData = result.googleBusinessAnalysis.profile.category;
-                          } else if (item.includes('description')) {
-                            foundData = result.googleBusinessAnalysis.profile.description;
-                          } else if (item.includes('hours')) {
-                            foundData = result.googleBusinessAnalysis.information.hours ? 'Hours are listed' : 'No hours listed';
-                          } else if (item.includes('location')) {
-                            foundData = result.googleBusinessAnalysis.information.address ? 'Address is verified' : 'No address found';
-                          }
+                      switch (id) {
+                        case 'profile.name':
+                          foundData = analysis.profile.businessName;
+                          break;
+                        case 'profile.category':
+                          foundData = analysis.profile.category;
+                          break;
+                        case 'profile.description':
+                          foundData = analysis.profile.description;
+                          break;
+                        case 'profile.hours':
+                          foundData = analysis.information.hours ? 'Hours are listed' : 'No hours listed';
+                          break;
+                        case 'profile.location':
+                          foundData = analysis.information.address ? 'Address is verified' : 'No address found';
+                          break;
+                        case 'visual.profilePhoto':
+                          foundData = analysis.photos.hasProfilePhoto ? 'Profile photo found' : 'No profile photo';
                           break;
-                        case 'Visual Content':
-                          if (item.includes('Profile photo')) {
-                            foundData = result.googleBusinessAnalysis.photos.hasProfilePhoto ? 'Profile photo found' : 'No profile photo';
-                          } else if (item.includes('Cover photo')) {
-                            foundData = result.googleBusinessAnalysis.photos.hasCoverPhoto ? 'Cover photo found' : 'No cover photo';
-                          } else if (item.includes('showcase')) {
-                            foundData = result.googleBusinessAnalysis.photos.hasInteriorPhotos || result.googleBusinessAnalysis.photos.hasExteriorPhotos 
-                              ? 'Business photos found' 
-                              : 'No business photos';
-                          } else if (item.includes('updated')) {
-                            foundData = result.googleBusinessAnalysis.photos.totalPhotos > 0 
-                              ? `${result.googleBusinessAnalysis.photos.totalPhotos} photos found` 
-                              : 'No photos found';
-                          }
+                        case 'visual.coverPhoto':
+                          foundData = analysis.photos.hasCoverPhoto ? 'Cover photo found' : 'No cover photo';
                           break;
-                        case 'Reviews & Ratings':
-                          if (item.includes('Average rating')) {
-                            foundData = `Current rating: ${result.googleBusinessAnalysis.reviews.averageRating.toFixed(1)}`;
-                          } else if (item.includes('Owner responses')) {
-                            foundData = `Response rate: ${result.googleBusinessAnalysis.reviews.responseRate}%`;
-                          } else if (item.includes('Review quality')) {
-                            foundData = `Total reviews: ${result.googleBusinessAnalysis.reviews.totalReviews}`;
-                          }
+                        case 'visual.businessPhotos':
+                          foundData = analysis.photos.hasInteriorPhotos || analysis.photos.hasExteriorPhotos 
+                            ? 'Business photos found' 
+                            : 'No business photos';
                           break;
-                        case 'Posts & Updates':
-                          if (item.includes('Regular posting')) {
-                            foundData = `${result.googleBusinessAnalysis.posts.postFrequency} posts found`;
-                          } else if (item.includes('engagement')) {
-                            foundData = `Average engagement: ${result.googleBusinessAnalysis.posts.postEngagement.toFixed(1)}`;
-                          }
+                        case 'visual.photoUpdates':
+                          foundData = analysis.photos.totalPhotos > 0 
+                            ? `${analysis.photos.totalPhotos} photos found` 
+                            : 'No photos found';
                           break;
-                        case 'Local SEO':
-                          if (item.includes('Keywords')) {
-                            foundData = result.googleBusinessAnalysis.profile.description 
-                              ? 'Description found' 
-                              : 'No description';
-                          } else if (item.includes('NAP')) {
-                            foundData = result.googleBusinessAnalysis.information.phone && result.googleBusinessAnalysis.information.address 
-                              ? 'NAP information complete' 
-                              : 'Missing NAP information';
-                          }
+                        case 'reviews.averageRating':
+                          foundData = `Current rating: ${analysis.reviews.averageRating.toFixed(1)}`;
                           break;
-                        case 'Engagement & Interaction':
-                          if (item.includes('response to messages')) {
-                            foundData = result.googleBusinessAnalysis.information.phone 
-                              ? 'Phone number available' 
-                              : 'No phone number';
-                          } else if (item.includes('interaction rate')) {
-                            foundData = `Post engagement: ${result.googleBusinessAnalysis.posts.postEngagement.toFixed(1)}`;
-                          }
+                        case 'reviews.ownerResponses':
+                          foundData = `Response rate: ${analysis.reviews.responseRate}%`;
+                          break;
+                        case 'reviews.quality':
+                          foundData = `Total reviews: ${analysis.reviews.totalReviews}`;
+                          break;
+                        case 'posts.frequency':
+                          foundData = `${analysis.posts.postFrequency} posts found`;
+                          break;
+                        case 'posts.engagement':
+                          foundData = `Average engagement: ${analysis.posts.postEngagement.toFixed(1)}`;
+                          break;
+                        case 'localSeo.descriptionKeywords':
+                          foundData = analysis.profile.description 
+                            ? 'Description found' 
+                            : 'No description';
+                          break;
+                        case 'localSeo.nap':
+                          foundData = analysis.information.phone && analysis.information.address 
+                            ? 'NAP information complete' 
+                            : 'Missing NAP information';
+                          break;
+                        case 'engagement.messages':
+                          foundData = analysis.information.phone 
+                            ? 'Phone number available' 
+                            : 'No phone number';
+                          break;
+                        case 'engagement.userInteraction':
+                          foundData = `Post engagement: ${analysis.posts.postEngagement.toFixed(1)}`;
                           break;
                       }
 
                       return (
-                        <div key={item} className="flex items-start space-x-3">
+                        <div key={id} className="flex items-start space-x-3">
                           <input
                             type="checkbox"
-                            checked={isChecked}
-                            onChange={(e) => recalculateScore(category, item, e.target.checked)}
+                            checked={criterion.credit === 1}
+                            onChange={(e) => recalculateScore(category, id, e.target.checked)}
                             className="mt-1 h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
                           />
                           <div>
-                            <label className="text-sm text-gray-700">{item}</label>
-                            {foundData && (
+                            <label className="text-sm text-gray-700">{label}</label>
+                            <span className="ml-2 text-xs text-gray-400">
+                              {isDetermined(criterion) ? `${criterion.points}/${criterion.weight} pts` : 'Not scored'}
+                            </span>
+                            {!isDetermined(criterion) ? (
+                              <p className="text-xs text-amber-700 mt-1">{CRITERION_STATUS_LABELS[criterion.status]}: {criterion.reason}</p>
+                            ) : foundData && (
                               <p className="text-xs text-gray-500 mt-1">What we found: {foundData}</p>
                             )}
+                            {hasEvidence(criterion.evidence) && (
+                              <details className="mt-1 text-xs text-gray-500">
+                                <summary className="cursor-pointer select-none hover:text-gray-700">Evidence</summary>
+                                <div className="mt-2 pl-3 border-l-2 border-gray-200 space-y-1">
+                                  <p>Found: {formatEvidenceValue(criterion.evidence.value)}</p>
+                                  {criterion.evidence.thresholds && (
+                                    <p>Target: {describeThresholds(criterion.evidence.thresholds)}</p>
+                                  )}
+                                  {criterion.evidence.selector && (
+                                    <p>Element: <code className="bg-gray-100 px-1 rounded break-all">{criterion.evidence.selector}</code></p>
+                                  )}
+                                  {criterion.evidence.snippet && (
+                                    <p className="break-words">Text: &ldquo;{criterion.evidence.snippet}&rdquo;</p>
+                                  )}
+                                  {criterion.evidence.crop && (
+                                    <Image
+                                      src={criterion.evidence.crop.image}
+                                      alt={`Where we found: ${label}`}
+                                      width={criterion.evidence.crop.width}
+                                      height={criterion.evidence.crop.height}
+                                      className="mt-1 border border-gray-200 rounded"
+                                    />
+                                  )}
+                                </div>
+                              </details>
+                            )}
                           </div>
                         </div>
                       );
@@ -23,8 +23,8 @@ export default function GoogleBusinessScoring() {
               <div className="space-y-2">
                 <h3 className="font-semibold text-gray-900">Scoring Rules:</h3>
                 <ul className="list-disc list-inside space-y-2">
-                  <li>Each criterion is worth 1 point</li>
-                  <li>Criteria are evaluated as either complete (1 point) or incomplete (0 points)</li>
+                  <li>Each criterion carries a weight that reflects its impact on your results</li>
+                  <li>Criteria earn full, partial, or no credit depending on how well they are met</li>
                   <li>Your total score is calculated as: (Points Earned ÷ Total Possible Points) × 100</li>
                   <li>The final score is displayed as a percentage</li>
                 </ul>
@@ -50,8 +50,11 @@ export default function GoogleBusinessScoring() {
               <div key={index} className="space-y-4">
                 <h2 className="text-2xl font-semibold text-gray-900">{category.category}</h2>
                 <ol className="list-decimal list-inside space-y-4 text-gray-600">
-                  {category.items.map((item, itemIndex) => (
-                    <li key={itemIndex} className="ml-4">{item}</li>
+                  {category.items.map((item) => (
+                    <li key={item.id} className="ml-4">
+                      {item.label}
+                      <span className="ml-2 text-sm text-gray-400">({item.weight} pts)</span>
+                    </li>
                   ))}
                 </ol>
               </div>
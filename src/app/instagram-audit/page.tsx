@@ -3,7 +3,10 @@
 import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { ScoringResult, INSTAGRAM_SCORING_CRITERIA } from '@/types/instagram';
+import { ScoringResult, INSTAGRAM_SCORING_CRITERIA, CaptionReport, ExportMetrics, GridAesthetics, HighlightsInventory, InstagramProfile, KEY_HIGHLIGHT_LABELS, LinkInBioAudit, PinnedPostsDetection, ProfilePictureQuality, ProfileLayout, ProfileScreenshotText, ScreenshotFinding, MAX_EXPORT_MB, MAX_SCREENSHOTS } from '@/types/instagram';
+import { CRITERION_STATUS_LABELS } from '@/types/scoring';
+import { isDetermined, setCriterionCredit, undeterminedCriteria } from '@/lib/scoring';
+import { MAX_UPLOAD_MB } from '@/types/image';
 
 interface Recommendation {
   category: string;
@@ -15,19 +18,56 @@ interface Analysis {
   timestamp: string;
   recommendations: Recommendation[];
   score: ScoringResult;
+  screenshots?: ScreenshotFinding[];
   imageAnalysis: {
-    hasProfilePicture: boolean;
-    hasBio: boolean;
-    hasHighlights: boolean;
-    postCount: number;
-    gridLayout: string;
+    hasProfilePicture: boolean | null;
+    hasBio: boolean | null;
+    hasHighlights: boolean | null;
+    postCount: number | null;
+    gridLayout?: string;
+    profile?: InstagramProfile;
+    screenshotText?: ProfileScreenshotText;
+    layout?: ProfileLayout;
+    pinnedPosts?: PinnedPostsDetection;
+    gridAesthetics?: GridAesthetics;
+    exportMetrics?: ExportMetrics;
+    captionReport?: CaptionReport;
+    linkInBioAudit?: LinkInBioAudit;
+    highlights?: HighlightsInventory;
+    profilePicture?: ProfilePictureQuality;
   };
 }
 
+const HEIC_EXTENSION = /\.hei[cf]$/i;
+
+const LINK_DESTINATION_LABELS: Record<LinkInBioAudit['destination'], string> = {
+  booking: 'Booking page',
+  aggregator: 'Link page',
+  website: 'Website',
+  broken: 'Broken'
+};
+
+const PROFILE_PICTURE_KIND_LABELS: Record<ProfilePictureQuality['kind'], string> = {
+  logo: 'Logo',
+  face: 'Face',
+  photo: 'Photo'
+};
+
+const SCREENSHOT_TYPE_LABELS: Record<ScreenshotFinding['type'], string> = {
+  profile: 'Profile',
+  grid: 'Post grid',
+  highlights: 'Highlights',
+  insights: 'Insights',
+  post: 'Post',
+  unknown: 'Not recognised'
+};
+
 export default function InstagramAudit() {
   const [handle, setHandle] = useState('');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [previewUrls, setPreviewUrls] = useState<string[]>([]);
+  const [exportFile, setExportFile] = useState<File | null>(null);
+  const [captions, setCaptions] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [analysis, setAnalysis] = useState<Analysis | null>(null);
@@ -76,8 +116,10 @@ export default function InstagramAudit() {
     setAnalysis(null);
     setEditableScore(null);
     setHandle('');
-    setSelectedFile(null);
-    setPreviewUrl(null);
+    setSelectedFiles([]);
+    setPreviewUrls([]);
+    setExportFile(null);
+    setCaptions('');
   };
 
   const handleHandleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -87,33 +129,52 @@ export default function InstagramAudit() {
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
-      // Create preview URL
-      const url = URL.createObjectURL(file);
-      setPreviewUrl(url);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      setSelectedFiles(files);
+      // Create preview URLs
+      setPreviewUrls(files.map(file => URL.createObjectURL(file)));
     }
   };
 
+  const handleExportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setExportFile(e.target.files?.[0] ?? null);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setAnalysis(null);
     setEditableScore(null);
     
-    if (!handle && !selectedFile) {
-      setError('Please provide either an Instagram handle or upload a screenshot');
+    if (!handle && selectedFiles.length === 0 && !exportFile && !captions.trim()) {
+      setError('Please provide an Instagram handle, a screenshot, your data export or some captions');
       return;
     }
 
-    if (selectedFile && !selectedFile.type.startsWith('image/')) {
-      setError('Please upload an image file');
+    if (exportFile && !exportFile.name.toLowerCase().endsWith('.zip')) {
+      setError('Please upload the data export as the ZIP file Instagram sent you');
       return;
     }
 
-    if (selectedFile && selectedFile.size > 5 * 1024 * 1024) {
-      setError('File size should be less than 5MB');
+    if (exportFile && exportFile.size > MAX_EXPORT_MB * 1024 * 1024) {
+      setError(`The data export should be less than ${MAX_EXPORT_MB}MB - request it in JSON format with low media quality`);
+      return;
+    }
+
+    if (selectedFiles.length > MAX_SCREENSHOTS) {
+      setError(`Please upload at most ${MAX_SCREENSHOTS} screenshots`);
+      return;
+    }
+
+    // Some browsers give HEIC photos no type, so the extension is checked too
+    if (selectedFiles.some(file => !file.type.startsWith('image/') && !HEIC_EXTENSION.test(file.name))) {
+      setError('Please upload image files only');
+      return;
+    }
+
+    if (selectedFiles.some(file => file.size > MAX_UPLOAD_MB * 1024 * 1024)) {
+      setError(`Each file should be less than ${MAX_UPLOAD_MB}MB`);
       return;
     }
     
@@ -122,7 +183,9 @@ export default function InstagramAudit() {
     try {
       const formData = new FormData();
       if (handle) formData.append('handle', handle);
-      if (selectedFile) formData.append('screenshot', selectedFile);
+      selectedFiles.forEach(file => formData.append('screenshots', file));
+      if (exportFile) formData.append('export', exportFile);
+      if (captions.trim()) formData.append('captions', captions);
 
       const response = await fetch('/api/audit', {
         method: 'POST',
@@ -153,27 +216,9 @@ export default function InstagramAudit() {
   };
 
   // Function to recalculate score when criteria are toggled
-  const recalculateScore = (category: string, item: string, completed: boolean) => {
+  const recalculateScore = (category: string, id: string, completed: boolean) => {
     if (!editableScore) return;
-
-    const newDetails = { ...editableScore.details };
-    newDetails[category].items[item] = completed;
-    
-    // Recalculate category score
-    const categoryItems = newDetails[category].items;
-    const categoryScore = Object.values(categoryItems).filter(Boolean).length;
-    newDetails[category].score = categoryScore;
-
-    // Recalculate total score
-    const totalPoints = Object.values(newDetails).reduce((sum, category) => sum + category.score, 0);
-    const maxPoints = Object.values(newDetails).reduce((sum, category) => sum + category.maxScore, 0);
-
-    setEditableScore({
-      totalPoints,
-      maxPoints,
-      percentage: Math.round((totalPoints / maxPoints) * 100),
-      details: newDetails
-    });
+    setEditableScore(setCriterionCredit(editableScore, category, id, completed ? 1 : 0));
   };
 
   return (
@@ -259,7 +304,7 @@ export default function InstagramAudit() {
                 <div className="w-full border-t border-gray-300"></div>
               </div>
               <div className="relative flex justify-center text-sm">
-                <span className="px-2 bg-white text-gray-500">Or</span>
+                <span className="px-2 bg-white text-gray-500">And / or</span>
               </div>
             </div>
 
@@ -268,7 +313,7 @@ export default function InstagramAudit() {
                 htmlFor="screenshot" 
                 className="block text-sm font-medium text-gray-700 mb-2"
               >
-                Upload Profile Screenshot
+                Upload Profile Screenshots
               </label>
               <div className="mt-1 flex justify-center px-4 sm:px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-lg hover:border-blue-500 transition-colors">
                 <div className="space-y-2 text-center">
@@ -291,12 +336,13 @@ export default function InstagramAudit() {
                       htmlFor="screenshot"
                       className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500 px-4 py-2"
                     >
-                      <span>Upload a file</span>
+                      <span>Upload files</span>
                       <input
                         id="screenshot"
-                        name="screenshot"
+                        name="screenshots"
                         type="file"
-                        accept="image/*"
+                        accept="image/*,.heic,.heif"
+                        multiple
                         className="sr-only"
                         onChange={handleFileChange}
                         disabled={isLoading}
@@ -305,21 +351,68 @@ export default function InstagramAudit() {
                     <p className="text-gray-500">or drag and drop</p>
                   </div>
                   <p className="text-xs text-gray-500">
-                    PNG, JPG, GIF up to 5MB
+                    Profile, grid, highlights, insights or single post screens - up to {MAX_SCREENSHOTS} images, {MAX_UPLOAD_MB}MB each
                   </p>
                 </div>
               </div>
-              {previewUrl && (
-                <div className="mt-4 relative w-full h-48">
-                  <Image
-                    src={previewUrl}
-                    alt="Preview"
-                    fill
-                    className="object-contain rounded-lg shadow-sm"
-                    sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-                  />
+              {previewUrls.length > 0 && (
+                <div className="mt-4 grid grid-cols-3 gap-2">
+                  {previewUrls.map((url, index) => (
+                    <div key={url} className="relative w-full h-32">
+                      <Image
+                        src={url}
+                        alt={`Preview ${index + 1}`}
+                        fill
+                        className="object-contain rounded-lg shadow-sm"
+                        sizes="(max-width: 768px) 33vw, 150px"
+                      />
+                    </div>
+                  ))}
                 </div>
               )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="export"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Instagram Data Export (optional)
+              </label>
+              <input
+                id="export"
+                name="export"
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleExportChange}
+                disabled={isLoading}
+                className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:font-medium file:bg-gray-100 file:text-blue-600 hover:file:bg-gray-200"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                In Instagram, go to Accounts Center → Your information and permissions → Download your information, and choose JSON.
+              </p>
+            </div>
+
+            <div>
+              <label
+                htmlFor="captions"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Recent Captions (optional)
+              </label>
+              <textarea
+                id="captions"
+                name="captions"
+                rows={4}
+                value={captions}
+                onChange={e => setCaptions(e.target.value)}
+                disabled={isLoading}
+                placeholder={'Fresh balayage by Amy ✨ Book via the link in our bio #camdenhair\n---\nNext caption...'}
+                className="w-full px-4 py-3 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Paste a few captions, newest first, with a line of --- between them.
+              </p>
               {error && (
                 <p className="mt-2 text-sm text-red-600">{error}</p>
               )}
@@ -327,7 +420,7 @@ export default function InstagramAudit() {
             <button
               type="submit"
               className="w-full bg-[#1C6B62] text-white px-8 py-3 rounded-lg hover:bg-[#15554D] transition-colors disabled:bg-[#1C6B62]/50 disabled:cursor-not-allowed"
-              disabled={isLoading || (!handle && !selectedFile)}
+              disabled={isLoading || (!handle && selectedFiles.length === 0 && !exportFile && !captions.trim())}
             >
               {isLoading ? 'Analyzing...' : 'Get Free Audit'}
             </button>
@@ -347,6 +440,11 @@ export default function InstagramAudit() {
                 <p className="mt-4 text-gray-600">
                   {editableScore.totalPoints} out of {editableScore.maxPoints} points
                 </p>
+                {undeterminedCriteria(editableScore).length > 0 && (
+                  <p className="text-sm text-amber-700 mt-2">
+                    {undeterminedCriteria(editableScore).length} criteria couldn&apos;t be checked and aren&apos;t counted. Tick any that are in place to add them to your score.
+                  </p>
+                )}
                 <p className="text-sm text-gray-500 mt-2 max-w-md mx-auto">
                   We use AI to analyze your profile, so some items may be incorrectly scored. Click the checkboxes to adjust any items that don't match your profile.
                 </p>
@@ -361,28 +459,238 @@ export default function InstagramAudit() {
             </div>
 
             <div className="space-y-6">
-              {Object.entries(editableScore.details).map(([category, details]) => (
+              {INSTAGRAM_SCORING_CRITERIA.filter(({ category }) => editableScore.details[category]).map(({ category, items }) => (
                 <div key={category} className="border-b border-gray-200 pb-4 last:border-0">
                   <h3 className="text-lg font-semibold text-gray-900 mb-2">
                     {category}
                   </h3>
                   <div className="space-y-2">
-                    {Object.entries(details.items).map(([item, completed]) => (
-                      <div key={item} className="flex items-center group">
-                        <input
-                          type="checkbox"
-                          checked={completed}
-                          onChange={() => recalculateScore(category, item, !completed)}
-                          className="w-4 h-4 text-[#E1306C] border-gray-300 rounded focus:ring-[#E1306C]"
-                        />
-                        <span className="ml-2 text-gray-600 group-hover:text-gray-900 transition-colors">{item}</span>
-                      </div>
-                    ))}
+                    {items.map(({ id, label }) => {
+                      const result = editableScore.details[category].items[id];
+                      if (!result) return null;
+
+                      return (
+                        <div key={id} className="flex items-center group">
+                          <input
+                            type="checkbox"
+                            checked={result.credit === 1}
+                            onChange={() => recalculateScore(category, id, result.credit !== 1)}
+                            className="w-4 h-4 text-[#E1306C] border-gray-300 rounded focus:ring-[#E1306C]"
+                          />
+                          <div className="ml-2">
+                            <span className="text-gray-600 group-hover:text-gray-900 transition-colors">{label}</span>
+                            {!isDetermined(result) && (
+                              <p className="text-xs text-amber-700">{CRITERION_STATUS_LABELS[result.status]}: {result.reason}</p>
+                            )}
+                          </div>
+                          <span className="ml-auto text-xs text-gray-400">
+                            {isDetermined(result) ? `${result.points}/${result.weight} pts` : 'Not scored'}
+                          </span>
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               ))}
             </div>
 
+            {analysis.screenshots && analysis.screenshots.length > 0 && (
+              <div className="mt-8 border-t border-gray-200 pt-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Your Screenshots</h3>
+                <ul className="space-y-3">
+                  {analysis.screenshots.map((screenshot, index) => (
+                    <li key={index} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 truncate">{screenshot.fileName}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${screenshot.type === 'unknown' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700'}`}>
+                          {SCREENSHOT_TYPE_LABELS[screenshot.type]}
+                        </span>
+                      </div>
+                      <ul className="mt-1 ml-4 list-disc text-gray-600">
+                        {screenshot.findings.map((finding, findingIndex) => (
+                          <li key={findingIndex}>{finding}</li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {analysis.imageAnalysis.profilePicture && (
+              <div className="mt-8 border-t border-gray-200 pt-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-lg font-semibold text-gray-900">Profile Picture</h3>
+                  <span className="text-sm font-medium text-gray-700">
+                    {analysis.imageAnalysis.profilePicture.score}/100
+                  </span>
+                </div>
+                <div className="flex items-center gap-4">
+                  <Image
+                    src={analysis.imageAnalysis.profilePicture.image}
+                    alt="Your profile picture"
+                    width={80}
+                    height={80}
+                    className="rounded-full shadow-sm"
+                  />
+                  <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                    <dt className="text-gray-600">Looks like</dt>
+                    <dd className="text-gray-900">{PROFILE_PICTURE_KIND_LABELS[analysis.imageAnalysis.profilePicture.kind]}</dd>
+                    <dt className="text-gray-600">Size on screen</dt>
+                    <dd className="text-gray-900">{analysis.imageAnalysis.profilePicture.diameter}px</dd>
+                    <dt className="text-gray-600">Sharpness</dt>
+                    <dd className="text-gray-900">{analysis.imageAnalysis.profilePicture.sharpness}</dd>
+                    <dt className="text-gray-600">Contrast</dt>
+                    <dd className="text-gray-900">{Math.round(analysis.imageAnalysis.profilePicture.contrast * 100)}%</dd>
+                    {analysis.imageAnalysis.profilePicture.hasText && (
+                      <>
+                        <dt className="text-gray-600">Text at small size</dt>
+                        <dd className="text-gray-900">{analysis.imageAnalysis.profilePicture.textLegible ? 'Readable' : 'Unreadable'}</dd>
+                      </>
+                    )}
+                  </dl>
+                </div>
+              </div>
+            )}
+
+            {analysis.imageAnalysis.gridAesthetics && (
+              <div className="mt-8 border-t border-gray-200 pt-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-lg font-semibold text-gray-900">Grid Aesthetics</h3>
+                  <span className="text-sm font-medium text-gray-700">
+                    {analysis.imageAnalysis.gridAesthetics.score}/100 cohesion
+                  </span>
+                </div>
+                <div className="flex h-8 rounded-lg overflow-hidden shadow-sm">
+                  {analysis.imageAnalysis.gridAesthetics.palette.map(({ hex, share }) => (
+                    <div
+                      key={hex}
+                      style={{ backgroundColor: hex, flexGrow: share }}
+                      title={`${hex} (${Math.round(share * 100)}%)`}
+                    />
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Palette across {analysis.imageAnalysis.gridAesthetics.tileCount} visible posts
+                  {' · '}{Math.round(analysis.imageAnalysis.gridAesthetics.faceRatio * 100)}% show faces
+                  {' · '}{Math.round(analysis.imageAnalysis.gridAesthetics.textOverlayRatio * 100)}% text graphics
+                </p>
+              </div>
+            )}
+
+            {analysis.imageAnalysis.exportMetrics && (
+              <div className="mt-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Your Account Activity</h3>
+                <dl className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm">
+                  {[
+                    ['Posts per week', analysis.imageAnalysis.exportMetrics.postsPerWeek],
+                    ['Stories per week', analysis.imageAnalysis.exportMetrics.storiesPerWeek],
+                    ['Caption length', analysis.imageAnalysis.exportMetrics.averageCaptionLength === null
+                      ? null
+                      : Math.round(analysis.imageAnalysis.exportMetrics.averageCaptionLength)],
+                    ['Hashtags per post', analysis.imageAnalysis.exportMetrics.hashtagsPerPost],
+                    ['Replies per post', analysis.imageAnalysis.exportMetrics.repliesPerPost],
+                    ['Highlights', analysis.imageAnalysis.exportMetrics.highlightCount]
+                  ].map(([label, value]) => (
+                    <div key={label} className="bg-gray-50 rounded-lg p-3">
+                      <dt className="text-gray-500">{label}</dt>
+                      <dd className="text-lg font-semibold text-gray-900">{value ?? '—'}</dd>
+                    </div>
+                  ))}
+                </dl>
+                {analysis.imageAnalysis.exportMetrics.topHashtags.length > 0 && (
+                  <p className="mt-3 text-xs text-gray-500">
+                    Top hashtags: {analysis.imageAnalysis.exportMetrics.topHashtags.map(({ tag }) => `#${tag}`).join(' ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {analysis.imageAnalysis.linkInBioAudit && (
+              <div className="mt-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Link in Bio</h3>
+                <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-1">
+                  <p className="text-gray-900 break-all">
+                    {analysis.imageAnalysis.linkInBioAudit.url}
+                    {analysis.imageAnalysis.linkInBioAudit.finalUrl && analysis.imageAnalysis.linkInBioAudit.finalUrl !== analysis.imageAnalysis.linkInBioAudit.url && (
+                      <span className="text-gray-500"> → {analysis.imageAnalysis.linkInBioAudit.finalUrl}</span>
+                    )}
+                  </p>
+                  <p className="text-gray-600">
+                    {LINK_DESTINATION_LABELS[analysis.imageAnalysis.linkInBioAudit.destination]}
+                    {analysis.imageAnalysis.linkInBioAudit.provider && ` (${analysis.imageAnalysis.linkInBioAudit.provider})`}
+                    {' · '}{analysis.imageAnalysis.linkInBioAudit.redirects} redirect{analysis.imageAnalysis.linkInBioAudit.redirects === 1 ? '' : 's'}
+                    {analysis.imageAnalysis.linkInBioAudit.loadTime !== null && ` · ${(analysis.imageAnalysis.linkInBioAudit.loadTime / 1000).toFixed(1)}s on mobile`}
+                  </p>
+                  <p className="text-gray-600">
+                    {analysis.imageAnalysis.linkInBioAudit.bookingTaps === null
+                      ? 'No booking action found'
+                      : analysis.imageAnalysis.linkInBioAudit.bookingTaps === 0
+                        ? 'Opens booking directly'
+                        : 'Booking is one tap away'}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {analysis.imageAnalysis.highlights && (
+              <div className="mt-8">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-lg font-semibold text-gray-900">Story Highlights</h3>
+                  <span className="text-sm font-medium text-gray-700">
+                    Cover consistency {Math.round(analysis.imageAnalysis.highlights.coverConsistency * 100)}%
+                  </span>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-3">
+                  <ul className="flex flex-wrap gap-4">
+                    {analysis.imageAnalysis.highlights.highlights.map((highlight, index) => (
+                      <li key={index} className="flex flex-col items-center w-16">
+                        <span className="w-10 h-10 rounded-full border border-gray-300" style={{ backgroundColor: highlight.coverColor }} />
+                        <span className="mt-1 text-xs text-gray-700 text-center truncate w-full">{highlight.label ?? 'Unlabelled'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {analysis.imageAnalysis.highlights.missing.length > 0 && (
+                    <p className="text-gray-600">
+                      Missing: {analysis.imageAnalysis.highlights.missing.map(key => KEY_HIGHLIGHT_LABELS[key]).join(', ')}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {analysis.imageAnalysis.captionReport && (
+              <div className="mt-8">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-lg font-semibold text-gray-900">Captions &amp; Hashtags</h3>
+                  <span className="text-sm font-medium text-gray-700">
+                    Captions {analysis.imageAnalysis.captionReport.captionScore}/100
+                    {' · '}Hashtags {analysis.imageAnalysis.captionReport.hashtagScore}/100
+                  </span>
+                </div>
+                <ul className="space-y-3">
+                  {analysis.imageAnalysis.captionReport.captions.slice(0, 10).map((caption, index) => (
+                    <li key={index} className="bg-gray-50 rounded-lg p-3 text-sm">
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-900 truncate">{caption.excerpt}</span>
+                        <span className="text-gray-500 whitespace-nowrap">{caption.captionScore} / {caption.hashtagScore}</span>
+                      </div>
+                      {caption.feedback.length > 0 && (
+                        <ul className="mt-1 text-gray-600 list-disc list-inside">
+                          {caption.feedback.map(item => <li key={item}>{item}</li>)}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {analysis.imageAnalysis.captionReport.captionCount > 10 && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Showing 10 of {analysis.imageAnalysis.captionReport.captionCount} analysed captions
+                  </p>
+                )}
+              </div>
+            )}
+
             <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-4 sm:mb-6 mt-8">
               Analysis Results
             </h2>
@@ -419,7 +727,7 @@ export default function InstagramAudit() {
                         {category.suggestions.map((suggestion, suggestionIndex) => (
                           <li key={suggestionIndex} className="flex items-start text-sm sm:text-base">
                             <span className="text-blue-600 mr-2 mt-1">•</span>
-                            <span className="text-gray-600">{suggestion}</span>
+                            <span className="text-gray-600 whitespace-pre-line">{suggestion}</span>
                           </li>
                         ))}
                       </ul>
@@ -3,7 +3,9 @@
 import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { WEBSITE_SCORING_CRITERIA, ScoringResult } from '@/types/website';
+import { SECURITY_HEADER_LABELS, WEBSITE_ANNOTATION_STYLES, WEBSITE_SCORING_CRITERIA, WEBSITE_FIELD_LABELS, ScoringResult, type AnnotatedScreenshot, type CheckedLink, type CrawlProgress, type HostReport, type IndexingReport, type LinkReport, type SecurityHeader, type SecurityReport, type WebsiteAnnotationKind, type WebsiteCrawl, type WebsitePageKind, type WebsiteDevice } from '@/types/website';
+import { CRITERION_STATUS_LABELS } from '@/types/scoring';
+import { describeThresholds, formatEvidenceValue, hasEvidence, isDetermined, setCriterionCredit, undeterminedCriteria } from '@/lib/scoring';
 
 interface Recommendation {
   category: string;
@@ -69,18 +71,27 @@ interface AuditMetrics {
     score: number;
   };
   overallScore: number;
+  // Set for screenshot audits: fields only the live page could show
+  undetermined?: string[];
 }
 
 interface Analysis {
   timestamp: string;
   recommendations: Recommendation[];
   websiteAnalysis: AuditMetrics;
+  screenshots?: AnnotatedScreenshot[];
+  crawl?: WebsiteCrawl;
+  links?: LinkReport;
+  indexing?: IndexingReport;
+  host?: HostReport;
+  security?: SecurityReport;
 }
 
 // Add new type for progress tracking
 type AnalysisStage = 
   | 'initializing'
   | 'loading_website'
+  | 'reading_sitemap'
   | 'analyzing_seo'
   | 'analyzing_performance'
   | 'analyzing_mobile'
@@ -88,6 +99,10 @@ type AnalysisStage =
   | 'analyzing_social'
   | 'analyzing_contact'
   | 'analyzing_accessibility'
+  | 'capturing_screenshots'
+  | 'crawling_pages'
+  | 'checking_links'
+  | 'checking_security'
   | 'generating_recommendations'
   | 'complete';
 
@@ -97,305 +112,6 @@ interface AnalysisProgress {
   percentage: number;
 }
 
-interface ScoringCriteria {
-  maxPoints: number;
-  criteria: {
-    [key: string]: {
-      weight: number;
-      thresholds: {
-        green: number;
-        yellow: number;
-        red: number;
-      };
-      description: string;
-    };
-  };
-}
-
-const scoringSystem: Record<keyof Omit<AuditMetrics, 'overallScore'>, ScoringCriteria> = {
-  technicalSeo: {
-    maxPoints: 30,
-    criteria: {
-      pageLoadSpeed: {
-        weight: 10,
-        thresholds: {
-          green: 2000, // 2 seconds or less
-          yellow: 4000, // 4 seconds
-          red: 4000 // More than 4 seconds
-        },
-        description: 'Page load time in milliseconds'
-      },
-      mobileFriendly: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Fully responsive
-          yellow: 0.5, // Partially responsive
-          red: 0 // Not responsive
-        },
-        description: 'Mobile responsiveness score'
-      },
-      coreWebVitals: {
-        weight: 10,
-        thresholds: {
-          green: 0.9, // All vitals pass
-          yellow: 0.6, // Some vitals pass
-          red: 0.3 // Most vitals fail
-        },
-        description: 'Core Web Vitals performance'
-      },
-      brokenLinks: {
-        weight: 5,
-        thresholds: {
-          green: 0, // No broken links
-          yellow: 5, // 1-5 broken links
-          red: 5 // More than 5 broken links
-        },
-        description: 'Number of broken links'
-      }
-    }
-  },
-  onPageSeo: {
-    maxPoints: 20,
-    criteria: {
-      metaTitle: {
-        weight: 4,
-        thresholds: {
-          green: 1, // Perfect title (50-60 chars, includes keywords)
-          yellow: 0.5, // Acceptable title
-          red: 0 // Missing or poor title
-        },
-        description: 'Meta title optimization'
-      },
-      metaDescription: {
-        weight: 4,
-        thresholds: {
-          green: 1, // Perfect description (150-160 chars, includes keywords)
-          yellow: 0.5, // Acceptable description
-          red: 0 // Missing or poor description
-        },
-        description: 'Meta description optimization'
-      },
-      h1Tags: {
-        weight: 4,
-        thresholds: {
-          green: 1, // Perfect H1 structure
-          yellow: 0.5, // Acceptable H1 structure
-          red: 0 // Poor H1 structure
-        },
-        description: 'H1 tag optimization'
-      },
-      keywordPresence: {
-        weight: 4,
-        thresholds: {
-          green: 80, // 80-100% keyword coverage
-          yellow: 50, // 50-79% keyword coverage
-          red: 50 // Less than 50% keyword coverage
-        },
-        description: 'Keyword presence in content'
-      },
-      altTextCoverage: {
-        weight: 4,
-        thresholds: {
-          green: 90, // 90-100% images have alt text
-          yellow: 60, // 60-89% images have alt text
-          red: 60 // Less than 60% images have alt text
-        },
-        description: 'Alt text coverage for images'
-      }
-    }
-  },
-  contentCompleteness: {
-    maxPoints: 20,
-    criteria: {
-      servicesListed: {
-        weight: 4,
-        thresholds: {
-          green: 1, // Services are listed and described
-          yellow: 0.5, // Services are listed but not described
-          red: 0 // Services are not listed
-        },
-        description: 'Services are listed and described'
-      },
-      imageQuality: {
-        weight: 4,
-        thresholds: {
-          green: 1, // High-quality images
-          yellow: 0.5, // Acceptable image quality
-          red: 0 // Poor image quality
-        },
-        description: 'Image quality'
-      },
-      staffBios: {
-        weight: 4,
-        thresholds: {
-          green: 1, // Staff bios are present
-          yellow: 0.5, // Partial staff bios
-          red: 0 // No staff bios
-        },
-        description: 'Staff bios'
-      },
-      testimonials: {
-        weight: 4,
-        thresholds: {
-          green: 1, // Testimonials are included
-          yellow: 0.5, // Partial testimonials
-          red: 0 // No testimonials
-        },
-        description: 'Testimonials'
-      },
-      blog: {
-        weight: 4,
-        thresholds: {
-          green: 1, // Blog or news section is present
-          yellow: 0.5, // Partial blog or news section
-          red: 0 // No blog or news section
-        },
-        description: 'Blog or news section'
-      }
-    }
-  },
-  brandingConsistency: {
-    maxPoints: 20,
-    criteria: {
-      logo: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Logo is present and consistent
-          yellow: 0.5, // Logo is present but inconsistent
-          red: 0 // No logo
-        },
-        description: 'Logo presence and consistency'
-      },
-      colorUsage: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Color usage is consistent
-          yellow: 0.5, // Partial color consistency
-          red: 0 // Inconsistent color usage
-        },
-        description: 'Color usage consistency'
-      },
-      typography: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Typography is consistent
-          yellow: 0.5, // Partial typography consistency
-          red: 0 // Inconsistent typography
-        },
-        description: 'Typography consistency'
-      },
-      consistentTone: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Tone of voice is consistent
-          yellow: 0.5, // Partial tone consistency
-          red: 0 // Inconsistent tone of voice
-        },
-        description: 'Tone of voice consistency'
-      }
-    }
-  },
-  socialContactIntegration: {
-    maxPoints: 15,
-    criteria: {
-      socialMediaLinks: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Social media links are present
-          yellow: 0.5, // Partial social media links
-          red: 0 // No social media links
-        },
-        description: 'Social media links'
-      },
-      contactForm: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Contact form is functional
-          yellow: 0.5, // Partial contact form
-          red: 0 // No contact form
-        },
-        description: 'Contact form'
-      },
-      bookingIntegration: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Booking integration is present
-          yellow: 0.5, // Partial booking integration
-          red: 0 // No booking integration
-        },
-        description: 'Booking integration'
-      }
-    }
-  },
-  securityAccessibility: {
-    maxPoints: 20,
-    criteria: {
-      https: {
-        weight: 5,
-        thresholds: {
-          green: 1, // HTTPS is enabled
-          yellow: 0.5, // Partial HTTPS
-          red: 0 // No HTTPS
-        },
-        description: 'HTTPS'
-      },
-      ariaTags: {
-        weight: 5,
-        thresholds: {
-          green: 1, // ARIA tags are used
-          yellow: 0.5, // Partial ARIA tags
-          red: 0 // No ARIA tags
-        },
-        description: 'ARIA tags'
-      },
-      altText: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Alt text is present for images
-          yellow: 0.5, // Partial alt text
-          red: 0 // No alt text
-        },
-        description: 'Alt text'
-      },
-      contrastCompliance: {
-        weight: 5,
-        thresholds: {
-          green: 1, // Contrast compliance is met
-          yellow: 0.5, // Partial contrast compliance
-          red: 0 // No contrast compliance
-        },
-        description: 'Contrast compliance'
-      }
-    }
-  }
-};
-
-function calculateCategoryScore(category: keyof typeof scoringSystem, metrics: any): number {
-  const criteria = scoringSystem[category].criteria;
-  let score = 0;
-  for (const [key, value] of Object.entries(criteria)) {
-    const metricValue = metrics[key];
-    if (metricValue >= value.thresholds.green) {
-      score += value.weight;
-    } else if (metricValue >= value.thresholds.yellow) {
-      score += value.weight * 0.5;
-    }
-  }
-  return score;
-}
-
-function calculateOverallScore(metrics: AuditMetrics | null | undefined): number {
-  if (!metrics) return 0;
-  let totalScore = 0;
-  let maxScore = 0;
-  for (const [category, criteria] of Object.entries(scoringSystem)) {
-    const categoryScore = calculateCategoryScore(category as keyof typeof scoringSystem, metrics[category as keyof AuditMetrics]);
-    totalScore += categoryScore;
-    maxScore += criteria.maxPoints;
-  }
-  return Math.round((totalScore / maxScore) * 100);
-}
-
 function formatUrl(url: string): string {
   url = url.trim();
   // Remove @ symbol if present at the start
@@ -414,14 +130,19 @@ const getProgressPercentage = (stage: string): number => {
   const stages: Record<string, number> = {
     initializing: 0,
     loading_website: 10,
+    reading_sitemap: 15,
     analyzing_seo: 20,
     analyzing_performance: 30,
     analyzing_mobile: 40,
     analyzing_branding: 50,
     analyzing_social: 60,
     analyzing_contact: 70,
-    analyzing_accessibility: 80,
-    generating_recommendations: 90,
+    analyzing_accessibility: 70,
+    capturing_screenshots: 75,
+    crawling_pages: 80,
+    checking_links: 90,
+    checking_security: 95,
+    generating_recommendations: 97,
     complete: 100
   };
   return stages[stage] || 0;
@@ -431,6 +152,7 @@ const getProgressMessage = (stage: string): string => {
   const messages: Record<string, string> = {
     initializing: 'Initializing analysis...',
     loading_website: 'Loading website...',
+    reading_sitemap: 'Reading robots.txt and sitemap...',
     analyzing_seo: 'Analyzing SEO elements...',
     analyzing_performance: 'Checking performance...',
     analyzing_mobile: 'Evaluating mobile experience...',
@@ -438,12 +160,53 @@ const getProgressMessage = (stage: string): string => {
     analyzing_social: 'Checking social media integration...',
     analyzing_contact: 'Verifying contact information...',
     analyzing_accessibility: 'Testing accessibility...',
+    capturing_screenshots: 'Capturing mobile and desktop screenshots...',
+    crawling_pages: 'Checking your other pages...',
+    checking_links: 'Checking links, images and scripts...',
+    checking_security: 'Checking HTTPS and security headers...',
     generating_recommendations: 'Generating recommendations...',
     complete: 'Analysis complete!'
   };
   return messages[stage] || 'Processing...';
 };
 
+const pathOf = (url: string) => new URL(url).pathname;
+const hostOf = (url: string) => new URL(url).host;
+
+// What happens when a visitor types the www or bare form the site isn't served from
+function describeAlternate({ alternate, canonicalOrigin }: HostReport): string {
+  if (!alternate) return '';
+  if (alternate.landsOn === canonicalOrigin) return 'Redirects here';
+  if (alternate.landsOn === null) return 'Doesn\'t load';
+  if (alternate.landsOn === alternate.origin) return 'Also serves the site, without redirecting here';
+  return `Redirects to ${hostOf(alternate.landsOn)}`;
+}
+
+// Each crawled page moves the bar a step through the crawl's share of it
+const getCrawlProgress = (page: CrawlProgress): AnalysisProgress => {
+  const start = getProgressPercentage('crawling_pages');
+  const end = getProgressPercentage('checking_links');
+  return {
+    stage: 'crawling_pages',
+    message: `Checking page ${page.index} of ${page.total}: ${pathOf(page.url)}`,
+    percentage: Math.round(start + (end - start) * (page.index - 1) / page.total)
+  };
+};
+
+// Same-site addresses are shown as paths
+const describeLink = (link: CheckedLink) => link.internal ? pathOf(link.url) : link.url;
+
+const PAGE_KIND_LABELS: Record<WebsitePageKind, string> = {
+  home: 'Homepage',
+  services: 'Services',
+  team: 'Team',
+  testimonials: 'Testimonials',
+  contact: 'Contact',
+  booking: 'Booking',
+  blog: 'Blog',
+  other: 'Page'
+};
+
 export default function WebsiteAudit() {
   const [url, setUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -455,6 +218,7 @@ export default function WebsiteAudit() {
     percentage: 0
   });
   const [editableScore, setEditableScore] = useState<ScoringResult | null>(null);
+  const [screenshotDevice, setScreenshotDevice] = useState<WebsiteDevice>('mobile');
   const resultsRef = useRef<HTMLDivElement>(null);
 
   // Add ProgressBar component inside WebsiteAudit to access progress state
@@ -499,7 +263,13 @@ export default function WebsiteAudit() {
   // Save state when it changes
   useEffect(() => {
     if (analysis && editableScore) {
-      localStorage.setItem('websiteAuditAnalysis', JSON.stringify(analysis));
+      try {
+        localStorage.setItem('websiteAuditAnalysis', JSON.stringify(analysis));
+      } catch (e) {
+        // Full-page screenshots can exceed the storage quota; keep the rest of the audit
+        console.warn('Saving without screenshots:', e);
+        localStorage.setItem('websiteAuditAnalysis', JSON.stringify({ ...analysis, screenshots: undefined }));
+      }
       localStorage.setItem('websiteAuditScore', JSON.stringify(editableScore));
       if (url) {
         localStorage.setItem('websiteAuditUrl', url);
@@ -575,10 +345,10 @@ export default function WebsiteAudit() {
             try {
               const data = JSON.parse(line);
               if (data.type === 'progress') {
-                setProgress({
+                setProgress(data.page ? getCrawlProgress(data.page) : {
                   stage: data.stage,
-                  message: data.message,
-                  percentage: data.percentage
+                  message: getProgressMessage(data.stage),
+                  percentage: getProgressPercentage(data.stage)
                 });
               } else if (data.type === 'error') {
                 throw new Error(data.error);
@@ -609,29 +379,13 @@ export default function WebsiteAudit() {
   };
 
   // Function to recalculate score when criteria are toggled
-  const recalculateScore = (category: string, item: string, completed: boolean) => {
+  const recalculateScore = (category: string, id: string, completed: boolean) => {
     if (!editableScore) return;
-
-    const newDetails = { ...editableScore.details };
-    newDetails[category].items[item] = completed;
-    
-    // Recalculate category score
-    const categoryItems = newDetails[category].items;
-    const categoryScore = Object.values(categoryItems).filter(Boolean).length;
-    newDetails[category].score = categoryScore;
-
-    // Recalculate total score
-    const totalPoints = Object.values(newDetails).reduce((sum, cat) => sum + cat.score, 0);
-    const maxPoints = Object.values(newDetails).reduce((sum, cat) => sum + cat.maxScore, 0);
-
-    setEditableScore({
-      totalPoints,
-      maxPoints,
-      percentage: Math.round((totalPoints / maxPoints) * 100),
-      details: newDetails
-    });
+    setEditableScore(setCriterionCredit(editableScore, category, id, completed ? 1 : 0));
   };
 
+  const screenshot = analysis?.screenshots?.find(shot => shot.device === screenshotDevice) ?? analysis?.screenshots?.[0];
+
   return (
     <main className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
       <div className="container mx-auto px-4 py-16">
@@ -679,7 +433,7 @@ export default function WebsiteAudit() {
               </ol>
               <p className="text-sm text-gray-500 mt-4">
                 Note: Make sure you&apos;re copying the URL from your website&apos;s homepage.
-                The URL should look something like: https://www.yourwebsite.com
+                The URL should look something like: https://yourwebsite.com
               </p>
             </div>
           </div>
@@ -695,7 +449,7 @@ export default function WebsiteAudit() {
                 name="url"
                 value={url}
                 onChange={handleUrlChange}
-                placeholder="https://www.yourwebsite.com"
+                placeholder="https://yourwebsite.com"
                 className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-[#1C6B62] focus:border-[#1C6B62]"
                 disabled={isLoading}
               />
@@ -738,33 +492,346 @@ export default function WebsiteAudit() {
               <p className="text-gray-600 mt-2">
                 {editableScore.totalPoints} out of {editableScore.maxPoints} points
               </p>
+              {undeterminedCriteria(editableScore).length > 0 && (
+                <p className="text-sm text-amber-700 mt-2">
+                  {undeterminedCriteria(editableScore).length} criteria couldn&apos;t be checked and aren&apos;t counted. Tick any that are in place to add them to your score.
+                </p>
+              )}
             </div>
 
             <div className="space-y-8">
-              {Object.entries(editableScore.details).map(([category, data]) => (
+              {WEBSITE_SCORING_CRITERIA.filter(({ category }) => editableScore.details[category]).map(({ category, items }) => (
                 <div key={category} className="border-b border-gray-200 pb-6 last:border-0">
                   <h3 className="text-xl font-semibold text-gray-900 mb-4">
                     {category}
                   </h3>
                   <div className="space-y-4">
-                    {Object.entries(data.items).map(([item, completed]) => (
-                      <div key={item} className="flex items-center">
-                        <input
-                          type="checkbox"
-                          checked={completed}
-                          onChange={(e) => recalculateScore(category, item, e.target.checked)}
-                          className="h-5 w-5 text-[#4285F4] border-gray-300 rounded focus:ring-[#4285F4]"
-                        />
-                        <label className="ml-3 text-gray-700">
-                          {item}
-                        </label>
-                      </div>
-                    ))}
+                    {items.map(({ id, label }) => {
+                      const result = editableScore.details[category].items[id];
+                      if (!result) return null;
+
+                      return (
+                        <div key={id} className="flex items-start">
+                          <input
+                            type="checkbox"
+                            checked={result.credit === 1}
+                            onChange={(e) => recalculateScore(category, id, e.target.checked)}
+                            className="mt-0.5 h-5 w-5 text-[#4285F4] border-gray-300 rounded focus:ring-[#4285F4]"
+                          />
+                          <div className="ml-3">
+                            <label className="text-gray-700">
+                              {label}
+                            </label>
+                            {!isDetermined(result) && (
+                              <p className="text-xs text-amber-700">{CRITERION_STATUS_LABELS[result.status]}: {result.reason}</p>
+                            )}
+                            {hasEvidence(result.evidence) && (
+                              <details className="mt-1 text-xs text-gray-500">
+                                <summary className="cursor-pointer select-none hover:text-gray-700">Evidence</summary>
+                                <div className="mt-2 pl-3 border-l-2 border-gray-200 space-y-1">
+                                  <p>Found: {formatEvidenceValue(result.evidence.value)}</p>
+                                  {result.evidence.thresholds && (
+                                    <p>Target: {describeThresholds(result.evidence.thresholds)}</p>
+                                  )}
+                                  {result.evidence.selector && (
+                                    <p>Element: <code className="bg-gray-100 px-1 rounded break-all">{result.evidence.selector}</code></p>
+                                  )}
+                                  {result.evidence.snippet && (
+                                    <p className="break-words">Text: &ldquo;{result.evidence.snippet}&rdquo;</p>
+                                  )}
+                                  {result.evidence.crop && (
+                                    <Image
+                                      src={result.evidence.crop.image}
+                                      alt={`Where we found: ${label}`}
+                                      width={result.evidence.crop.width}
+                                      height={result.evidence.crop.height}
+                                      className="mt-1 border border-gray-200 rounded"
+                                    />
+                                  )}
+                                </div>
+                              </details>
+                            )}
+                          </div>
+                          <span className="ml-auto pl-2 text-sm text-gray-500 whitespace-nowrap">
+                            {isDetermined(result) ? `${result.points}/${result.weight} pts` : 'Not scored'}
+                          </span>
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               ))}
             </div>
 
+            {analysis.websiteAnalysis.undetermined && analysis.websiteAnalysis.undetermined.length > 0 && (
+              <div className="mt-8 bg-gray-50 rounded-lg p-4">
+                <h4 className="font-semibold text-gray-900 mb-2">
+                  Couldn&apos;t be determined from a screenshot
+                </h4>
+                <p className="text-sm text-gray-600 mb-2">
+                  These are only visible in the page itself - run the audit on your website address to check them.
+                </p>
+                <ul className="list-disc list-inside text-sm text-gray-600">
+                  {analysis.websiteAnalysis.undetermined.map(field => (
+                    <li key={field}>{WEBSITE_FIELD_LABELS[field] ?? field}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {analysis.crawl && (
+              <div className="mt-8">
+                <h3 className="text-xl font-semibold text-gray-900 mb-4">
+                  Pages Checked
+                </h3>
+                <ul className="divide-y divide-gray-200 text-sm">
+                  {analysis.crawl.pages.map(page => {
+                    const issues = [
+                      !page.title && 'no title',
+                      !page.hasMetaDescription && 'no meta description',
+                      page.h1Count !== 1 && `${page.h1Count} H1 headings`,
+                      page.missingAltCount > 0 && `${page.missingAltCount} of ${page.imageCount} images without alt text`
+                    ].filter(Boolean);
+                    return (
+                      <li key={page.url} className="py-2 flex items-start gap-3">
+                        <span className="shrink-0 w-24 text-gray-500">{PAGE_KIND_LABELS[page.kind]}</span>
+                        <div className="min-w-0">
+                          <a href={page.url} target="_blank" rel="noopener noreferrer" className="text-[#1C6B62] hover:underline break-all">
+                            {pathOf(page.url)}
+                          </a>
+                          <p className={issues.length > 0 ? 'text-amber-700' : 'text-gray-500'}>
+                            {issues.length > 0 ? issues.join(', ') : 'No issues found'}
+                          </p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+                {analysis.crawl.skipped.length > 0 && (
+                  <div className="mt-3 text-sm text-gray-600">
+                    <p className="font-medium">Not checked:</p>
+                    <ul className="list-disc list-inside">
+                      {analysis.crawl.skipped.map(({ url, reason }) => (
+                        <li key={url} className="break-all">{pathOf(url)}: {reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {analysis.crawl.unvisited > 0 && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    {analysis.crawl.unvisited} more pages were found but not checked - each audit looks at your key pages only.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {analysis.security && (
+              <div className="mt-8">
+                <div className="flex items-baseline justify-between mb-4">
+                  <h3 className="text-xl font-semibold text-gray-900">
+                    Security
+                  </h3>
+                  <span className="text-lg font-semibold text-gray-700">{analysis.security.score}/100</span>
+                </div>
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm text-gray-600">
+                  <dt className="font-medium text-gray-700">HTTPS</dt>
+                  <dd className={analysis.security.https ? undefined : 'text-red-700'}>
+                    {analysis.security.https ? 'Yes' : 'No - the site loads over plain http'}
+                  </dd>
+                  <dt className="font-medium text-gray-700">http redirects to https</dt>
+                  <dd className={analysis.security.redirectsToHttps === false ? 'text-amber-700' : undefined}>
+                    {analysis.security.redirectsToHttps === null ? 'Nothing answers over http' : analysis.security.redirectsToHttps ? 'Yes' : 'No'}
+                  </dd>
+                  {analysis.security.certificate && (
+                    <>
+                      <dt className="font-medium text-gray-700">Certificate</dt>
+                      <dd className={analysis.security.certificate.chainValid && analysis.security.certificate.hostnameMatches ? undefined : 'text-red-700'}>
+                        {!analysis.security.certificate.chainValid ? 'Not trusted' :
+                          !analysis.security.certificate.hostnameMatches ? 'Issued for a different address' : 'Valid'}
+                        {analysis.security.certificate.issuer && `, from ${analysis.security.certificate.issuer}`}
+                        {`, expires ${new Date(analysis.security.certificate.expiresAt).toLocaleDateString()} (${analysis.security.certificate.daysLeft} days)`}
+                      </dd>
+                    </>
+                  )}
+                  <dt className="font-medium text-gray-700">Insecure content</dt>
+                  <dd className={analysis.security.mixedContent > 0 ? 'text-amber-700' : undefined}>
+                    {analysis.security.mixedContent > 0 ? `${analysis.security.mixedContent} images or scripts load over http` : 'None'}
+                  </dd>
+                </dl>
+                <ul className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-1 text-sm">
+                  {(Object.keys(SECURITY_HEADER_LABELS) as SecurityHeader[]).map(header => (
+                    <li key={header} className={analysis.security?.headers[header] ? 'text-green-700' : 'text-gray-400'} title={analysis.security?.headers[header]}>
+                      {analysis.security?.headers[header] ? '✓' : '✗'} {SECURITY_HEADER_LABELS[header]}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {analysis.host && (
+              <div className="mt-8">
+                <h3 className="text-xl font-semibold text-gray-900 mb-4">
+                  Site Address
+                </h3>
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm text-gray-600">
+                  <dt className="font-medium text-gray-700">Served from</dt>
+                  <dd className="break-all">
+                    {analysis.host.canonicalOrigin}
+                    {hostOf(analysis.host.requestedUrl) !== hostOf(analysis.host.canonicalOrigin) && ` (redirected from ${hostOf(analysis.host.requestedUrl)})`}
+                  </dd>
+                  {analysis.host.alternate && (
+                    <>
+                      <dt className="font-medium text-gray-700">{hostOf(analysis.host.alternate.origin)}</dt>
+                      <dd className={analysis.host.alternate.landsOn === analysis.host.canonicalOrigin ? undefined : 'text-amber-700'}>
+                        {describeAlternate(analysis.host)}
+                      </dd>
+                    </>
+                  )}
+                  <dt className="font-medium text-gray-700">Canonical tag</dt>
+                  <dd className={analysis.host.canonicalTag?.startsWith(`${analysis.host.canonicalOrigin}/`) ? 'break-all' : 'break-all text-amber-700'}>
+                    {analysis.host.canonicalTag ?? 'Missing'}
+                  </dd>
+                </dl>
+              </div>
+            )}
+
+            {analysis.indexing && (
+              <div className="mt-8">
+                <h3 className="text-xl font-semibold text-gray-900 mb-4">
+                  Search Engine Access
+                </h3>
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm text-gray-600">
+                  <dt className="font-medium text-gray-700">robots.txt</dt>
+                  <dd>
+                    {analysis.indexing.robotsTxt.found ? 'Found' : 'Not found - search engines may crawl everything'}
+                    {analysis.indexing.robotsTxt.crawlDelay !== null && `, asks for ${analysis.indexing.robotsTxt.crawlDelay}s between requests`}
+                  </dd>
+                  <dt className="font-medium text-gray-700">Sitemap</dt>
+                  <dd className="break-all">
+                    {analysis.indexing.sitemap.found
+                      ? `${analysis.indexing.sitemap.urlCount} pages in ${analysis.indexing.sitemap.files.map(pathOf).join(', ')}`
+                      : 'Not found'}
+                  </dd>
+                  {analysis.indexing.sitemap.newestLastmod && (
+                    <>
+                      <dt className="font-medium text-gray-700">Last updated</dt>
+                      <dd className={analysis.indexing.sitemap.isStale ? 'text-amber-700' : undefined}>
+                        {new Date(analysis.indexing.sitemap.newestLastmod).toLocaleDateString()}
+                        {analysis.indexing.sitemap.lastmodCoverage < 1 && ` (${Math.round(analysis.indexing.sitemap.lastmodCoverage * 100)}% of pages are dated)`}
+                      </dd>
+                    </>
+                  )}
+                </dl>
+                {(analysis.indexing.blockedKeyPages.length > 0 || analysis.indexing.conflicts.length > 0) && (
+                  <ul className="mt-3 list-disc list-inside text-sm text-amber-700">
+                    {analysis.indexing.blockedKeyPages.map(url => (
+                      <li key={url} className="break-all">{pathOf(url)}: blocked by robots.txt</li>
+                    ))}
+                    {analysis.indexing.conflicts.map(({ url, issue }) => (
+                      <li key={`${url}:${issue}`} className="break-all">{pathOf(url)}: {issue}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {analysis.links && (
+              <div className="mt-8">
+                <h3 className="text-xl font-semibold text-gray-900 mb-4">
+                  Link Check
+                </h3>
+                <p className="text-sm text-gray-600 mb-3">
+                  {analysis.links.checked} links, images and scripts checked: {analysis.links.broken.length} broken, {analysis.links.redirectChains.length} redirected, {analysis.links.mixedContent.length} loaded insecurely.
+                  {analysis.links.unverified > 0 && ` ${analysis.links.unverified} more couldn't be checked.`}
+                </p>
+                {analysis.links.broken.length > 0 && (
+                  <details open className="mb-3 text-sm">
+                    <summary className="cursor-pointer font-medium text-red-700">Broken ({analysis.links.broken.length})</summary>
+                    <ul className="mt-2 space-y-1 text-gray-600">
+                      {analysis.links.broken.map(link => (
+                        <li key={`${link.type}:${link.url}`} className="break-all">
+                          <span className="text-red-700">{link.status ?? link.error}</span> {describeLink(link)}
+                          <span className="text-gray-400"> ({link.type} on {pathOf(link.foundOn)})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {analysis.links.redirectChains.length > 0 && (
+                  <details className="mb-3 text-sm">
+                    <summary className="cursor-pointer font-medium text-amber-700">Redirects ({analysis.links.redirectChains.length})</summary>
+                    <ul className="mt-2 space-y-1 text-gray-600">
+                      {analysis.links.redirectChains.map(link => (
+                        <li key={`${link.type}:${link.url}`} className="break-all">
+                          {describeLink(link)} &rarr; {link.redirects.join(' → ')}
+                          <span className="text-gray-400"> (on {pathOf(link.foundOn)})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                {analysis.links.mixedContent.length > 0 && (
+                  <details className="text-sm">
+                    <summary className="cursor-pointer font-medium text-amber-700">Loaded over http ({analysis.links.mixedContent.length})</summary>
+                    <ul className="mt-2 space-y-1 text-gray-600">
+                      {analysis.links.mixedContent.map(resource => (
+                        <li key={resource.url} className="break-all">
+                          {resource.url}
+                          <span className="text-gray-400"> ({resource.type} on {pathOf(resource.foundOn)})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            )}
+
+            {screenshot && (
+              <div className="mt-8">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-semibold text-gray-900">
+                    Visual Report
+                  </h3>
+                  {analysis.screenshots && analysis.screenshots.length > 1 && (
+                    <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+                      {analysis.screenshots.map(({ device }) => (
+                        <button
+                          key={device}
+                          type="button"
+                          onClick={() => setScreenshotDevice(device)}
+                          className={`px-3 py-1 capitalize ${device === screenshot.device ? 'bg-[#1C6B62] text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                        >
+                          {device}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600 mb-3">
+                  {(Object.keys(WEBSITE_ANNOTATION_STYLES) as WebsiteAnnotationKind[]).map(kind => (
+                    <li key={kind} className="flex items-center gap-1">
+                      <span className="inline-block w-3 h-3 border-2" style={{ borderColor: WEBSITE_ANNOTATION_STYLES[kind].color }} />
+                      {WEBSITE_ANNOTATION_STYLES[kind].label} ({screenshot.annotations.filter(annotation => annotation.kind === kind).length})
+                    </li>
+                  ))}
+                </ul>
+                <div className="max-h-[600px] overflow-y-auto border border-gray-200 rounded-lg bg-gray-50">
+                  <Image
+                    src={screenshot.image}
+                    alt={`Your website on ${screenshot.device} with the elements we found outlined`}
+                    width={screenshot.width}
+                    height={screenshot.height}
+                    className="mx-auto"
+                  />
+                </div>
+                {screenshot.truncated && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Your page is very long, so only the top of it was captured.
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="mt-8">
               <h3 className="text-xl font-semibold text-gray-900 mb-4">
                 Recommendations
@@ -0,0 +1,17 @@
+import puppeteer from 'puppeteer';
+
+const BROWSER_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--disable-gpu'
+];
+
+// Shared headless Chrome setup for every audit that drives a real page
+export function launchBrowser(extraArgs: string[] = []) {
+  return puppeteer.launch({
+    headless: true,
+    args: [...BROWSER_ARGS, ...extraArgs]
+  });
+}
@@ -0,0 +1,95 @@
+import type { Page } from 'puppeteer';
+import { cropToDataUrl } from '@/lib/image';
+import type { ElementEvidence } from '@/types/scoring';
+
+const SNIPPET_LENGTH = 120;
+// Marks the matched element so it can be found again for its screenshot
+const MARKER_ATTRIBUTE = 'data-glamscore-evidence';
+
+export interface EvidenceQuery {
+  selector: string; // a selector list; the first element that also matches the pattern wins
+  attribute?: string; // read instead of the element's text
+  pattern?: RegExp; // tested against the text or attribute
+}
+
+interface MatchedElement {
+  key: string;
+  selector: string;
+  snippet: string;
+}
+
+// Finds the element behind each check on a live page and records a readable CSS
+// path, what it said and a small screenshot of it. Elements that aren't rendered
+// (meta tags, hidden links) get no screenshot; queries that match nothing are left out.
+export async function collectElementEvidence(
+  page: Page,
+  queries: Record<string, EvidenceQuery>
+): Promise<Record<string, ElementEvidence>> {
+  const serialized = Object.entries(queries).map(([key, query]) => ({
+    key,
+    selector: query.selector,
+    attribute: query.attribute ?? null,
+    pattern: query.pattern ? { source: query.pattern.source, flags: query.pattern.flags } : null
+  }));
+
+  const matches: MatchedElement[] = await page.evaluate((queries, marker, snippetLength) => {
+    // Ids end the path; otherwise a few levels of tag and position are enough to find it by eye
+    const pathTo = (element: Element): string => {
+      const parts: string[] = [];
+      let node: Element | null = element;
+      while (node && node !== document.documentElement && parts.length < 4) {
+        if (node.id) {
+          parts.unshift(`#${CSS.escape(node.id)}`);
+          break;
+        }
+        const tag = node.tagName.toLowerCase();
+        const current: Element = node;
+        const siblings: Element[] = node.parentElement
+          ? Array.from(node.parentElement.children).filter(child => child.tagName === current.tagName)
+          : [];
+        parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag);
+        node = node.parentElement;
+      }
+      return parts.join(' > ');
+    };
+
+    const found: { key: string; selector: string; snippet: string }[] = [];
+    queries.forEach(query => {
+      const pattern = query.pattern ? new RegExp(query.pattern.source, query.pattern.flags) : null;
+      let elements: Element[] = [];
+      try {
+        elements = Array.from(document.querySelectorAll(query.selector));
+      } catch {
+        return;
+      }
+      for (const element of elements) {
+        const text = (query.attribute ? element.getAttribute(query.attribute) : element.textContent) || '';
+        if (pattern && !pattern.test(text)) continue;
+        element.setAttribute(marker, query.key);
+        const snippet = text.replace(/\s+/g, ' ').trim();
+        found.push({
+          key: query.key,
+          selector: pathTo(element),
+          snippet: snippet.length > snippetLength ? `${snippet.slice(0, snippetLength - 1)}…` : snippet
+        });
+        return;
+      }
+    });
+    return found;
+  }, serialized, MARKER_ATTRIBUTE, SNIPPET_LENGTH);
+
+  const evidence: Record<string, ElementEvidence> = {};
+  for (const match of matches) {
+    evidence[match.key] = { selector: match.selector, ...(match.snippet && { snippet: match.snippet }) };
+    try {
+      const handle = await page.$(`[${MARKER_ATTRIBUTE}="${match.key}"]`);
+      const box = await handle?.boundingBox();
+      if (!handle || !box || box.width < 1 || box.height < 1) continue;
+      const shot = await handle.screenshot({ type: 'png' });
+      evidence[match.key].crop = await cropToDataUrl(Buffer.from(shot));
+    } catch (error) {
+      console.error(`Error capturing evidence for ${match.key}:`, error);
+    }
+  }
+  return evidence;
+}
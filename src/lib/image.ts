@@ -0,0 +1,72 @@
+import sharp from 'sharp';
+import type { BoundingBox, GrayscaleImage, ImageCrop } from '@/types/image';
+
+// Crops are shown in a narrow panel, so larger regions are scaled down to fit
+const CROP_SIZE = { width: 320, height: 240 };
+const CROP_MARGIN = 8;
+
+export async function toGrayscale(image: Buffer): Promise<GrayscaleImage> {
+  const { data, info } = await sharp(image)
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height };
+}
+
+// Copies the pixels inside a box, clamped to the image bounds
+export function regionPixels(image: GrayscaleImage, box: BoundingBox): Uint8Array {
+  const left = Math.max(0, Math.floor(box.left));
+  const top = Math.max(0, Math.floor(box.top));
+  const right = Math.min(image.width, Math.ceil(box.left + box.width));
+  const bottom = Math.min(image.height, Math.ceil(box.top + box.height));
+  if (right <= left || bottom <= top) return new Uint8Array(0);
+
+  const rowLength = right - left;
+  const pixels = new Uint8Array(rowLength * (bottom - top));
+  for (let y = top; y < bottom; y++) {
+    pixels.set(image.data.subarray(y * image.width + left, y * image.width + right), (y - top) * rowLength);
+  }
+  return pixels;
+}
+
+export function pixelStats(pixels: Uint8Array): { mean: number; stdDev: number } {
+  if (pixels.length === 0) return { mean: 0, stdDev: 0 };
+
+  let sum = 0;
+  for (const value of pixels) sum += value;
+  const mean = sum / pixels.length;
+
+  let squares = 0;
+  for (const value of pixels) squares += (value - mean) ** 2;
+  return { mean, stdDev: Math.sqrt(squares / pixels.length) };
+}
+
+// Cuts a region out with a little margin, or shrinks the whole image when no box is given
+export async function cropToDataUrl(image: Buffer, box?: BoundingBox): Promise<ImageCrop> {
+  let pipeline = sharp(image);
+  if (box) {
+    const { width = 0, height = 0 } = await sharp(image).metadata();
+    const left = Math.max(0, Math.floor(box.left - CROP_MARGIN));
+    const top = Math.max(0, Math.floor(box.top - CROP_MARGIN));
+    pipeline = pipeline.extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(width - left, Math.ceil(box.width + 2 * CROP_MARGIN))),
+      height: Math.max(1, Math.min(height - top, Math.ceil(box.height + 2 * CROP_MARGIN)))
+    });
+  }
+  const { data, info } = await pipeline
+    .resize({ ...CROP_SIZE, fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { image: `data:image/png;base64,${data.toString('base64')}`, width: info.width, height: info.height };
+}
+
+// YCbCr skin range, for RGB pixels
+export function isSkin([r, g, b]: [number, number, number]): boolean {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 40 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
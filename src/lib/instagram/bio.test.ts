@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeBio } from '@/lib/instagram/bio';
+
+const GOOD_BIO = 'Balayage, lashes & brows in Camden Town 📍\n✨ Award-winning colour team\n📞 020 7946 0321\n👇 Book online below';
+
+const failedChecks = (bioText: string, profile = {}) =>
+  analyzeBio(bioText, profile).checks.filter(check => !check.passed).map(check => check.id);
+
+describe('analyzeBio', () => {
+  it('passes every check for a complete salon bio', () => {
+    const result = analyzeBio(GOOD_BIO, { linkInBio: 'https://fresha.com/luxe', businessCategory: 'Hair Salon' });
+
+    expect(result).toMatchObject({
+      services: ['balayage', 'lashes', 'brows', 'colour'],
+      locations: ['Camden Town'],
+      hasCallToAction: true,
+      hasLink: true,
+      contactMethods: ['phone'],
+      emojiCount: 4,
+      score: 100
+    });
+    expect(result.checks.every(check => check.suggestion === null)).toBe(true);
+  });
+
+  it('reads a pin at the end of a line as nothing, not as the next line', () => {
+    expect(analyzeBio('Lashes 📍\nOpen late').locations).toEqual([]);
+  });
+
+  it('fills the template from the category, services, location and phone', () => {
+    expect(analyzeBio(GOOD_BIO, { businessCategory: 'Hair Salon' }).template).toBe(
+      'Hair Salon in Camden Town 📍\n✨ Balayage • Lashes • Brows\n📞 020 7946 0321\n👇 Book online below'
+    );
+  });
+
+  it('finds postcodes, street addresses and US cities', () => {
+    expect(analyzeBio('Nails & gel 💅 12 High Street, LS1 4AB').locations).toEqual(['12 High Street', 'LS1 4AB']);
+    expect(analyzeBio('Lash studio | Austin, TX').locations).toEqual(['Austin, TX']);
+  });
+
+  it('reads email, WhatsApp and DMs as contact, not as a link', () => {
+    const result = analyzeBio('Bridal make-up. WhatsApp or email hello@glow.co.uk. DM us');
+
+    expect(result.contactMethods).toEqual(['email', 'whatsapp', 'dm']);
+    expect(result.hasLink).toBe(false);
+    expect(analyzeBio('DM to book 💌').template).toContain('📞 DM to book');
+  });
+
+  it('fails what a vague bio leaves out', () => {
+    expect(failedChecks('Living my best life')).toEqual(['services', 'location', 'callToAction', 'link', 'contact', 'emoji', 'length']);
+    // "in" needs a place name after it, and "booked" isn't a call to action
+    expect(analyzeBio('Fully booked in june, sorry').hasCallToAction).toBe(false);
+    expect(analyzeBio('Happy in my work').locations).toEqual([]);
+  });
+
+  it('asks for fewer emojis and a shorter bio', () => {
+    const result = analyzeBio(`${'✨'.repeat(9)} ${'Hair '.repeat(30)}`);
+    const suggestions = result.checks.map(check => check.suggestion);
+
+    expect(suggestions).toContain('Cut back from 9 emojis to a handful - too many make the bio hard to read');
+    expect(suggestions).toContain(`Your bio is ${result.length} characters - Instagram cuts it off at 150`);
+  });
+});
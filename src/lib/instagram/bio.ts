@@ -0,0 +1,151 @@
+import type { BioAnalysis, BioCheck, BioCheckId } from '@/types/instagram';
+
+// Instagram cuts bios off at 150 characters
+const MAX_BIO_LENGTH = 150;
+// Shorter bios are leaving most of the space unused
+const MIN_BIO_LENGTH = 60;
+const MAX_EMOJIS = 8;
+
+// Service names clients search for, as they'd appear in a bio
+const SERVICE_KEYWORDS = [
+  'balayage', 'highlights', 'colour', 'color', 'blonde', 'cuts', 'haircuts', 'blow ?dry', 'extensions', 'keratin',
+  'perms?', 'braids', 'locs', 'fades', 'barber(ing)?', 'shaves?', 'hair', 'lash(es)?', 'lash extensions', 'lash lift',
+  'brows?', 'microblading', 'threading', 'henna', 'nails', 'gel', 'acrylics?', 'bbl', 'manicures?', 'pedicures?',
+  'make-?up', 'mua', 'bridal', 'facials?', 'skin ?care', 'peels?', 'waxing', 'sugaring', 'tanning', 'spray tans?',
+  'massage', 'aesthetics', 'botox', 'fillers?'
+];
+const SERVICE_PATTERN = new RegExp(`\\b(${SERVICE_KEYWORDS.join('|')})\\b`, 'gi');
+
+// "in Camden" phrases, the pin emoji, addresses and postcodes, with place names first
+// since they read best in the suggested bio
+const LOCATION_PATTERNS = [
+  /\b(?:in the heart of|in)\s+([A-Z][\w'-]*(?:[ ,]+[A-Z][\w'-]*)*)/g,
+  /📍[^\S\n]*([^\n|•]+)/gu, // the rest of the pin's line
+  /\b\d+\s+[A-Z][\w'-]*\s+(?:street|st|road|rd|avenue|ave|lane|ln|high street|boulevard|blvd)\b\.?/gi,
+  /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g, // UK postcode
+  /\b[A-Z][a-z]+(?: [A-Z][a-z]+)*,\s*[A-Z]{2}\b/g // US "City, ST"
+];
+
+const CALL_TO_ACTION_PATTERN = /\b(book(ing|ings)?|appointments?|reserve|dm (us |me )?to book|call (us|to book)|tap (the link|below)|link below|walk-?ins?)\b|👇|⬇️/iu;
+const URL_PATTERN = /(?:https?:\/\/)?(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/\S*)?/i;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+
+const CONTACT_PATTERNS: Record<string, RegExp> = {
+  phone: /(?:\+|\b)\d[\d\s().-]{7,}\d\b/,
+  email: /\b[\w.+-]+@[\w-]+\.[\w.]+\b/,
+  whatsapp: /\bwhats ?app\b/i,
+  dm: /\b(dm|message) (us|me|to book|for)\b/i
+};
+
+const CHECK_LABELS: Record<BioCheckId, string> = {
+  services: 'Names your services',
+  location: 'Says where you are',
+  callToAction: 'Asks people to book',
+  link: 'Has a booking link',
+  contact: 'Shows how to get in touch',
+  emoji: 'Uses emojis sparingly',
+  length: 'Uses the character budget'
+};
+
+const unique = (values: string[]): string[] => [...new Set(values.map(value => value.trim()).filter(Boolean))];
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Parts of an address already found whole are dropped
+function findLocations(text: string): string[] {
+  const found = unique(LOCATION_PATTERNS.flatMap(pattern =>
+    [...text.matchAll(pattern)].map(match => (match[1] ?? match[0]).replace(/[.,\s]+$/, ''))));
+  return found.filter(location => !found.some(other => other !== location && other.includes(location)));
+}
+
+// Keeps what the bio already says and leaves placeholders for what's missing
+function buildTemplate(details: { category: string | null; services: string[]; locations: string[]; contact: string | null }): string {
+  const lines = [
+    `${details.category ?? 'Hair & beauty salon'} in ${details.locations[0] ?? '[your neighbourhood]'} 📍`,
+    `✨ ${details.services.length > 0 ? details.services.slice(0, 3).map(capitalize).join(' • ') : '[Service] • [Service] • [Service]'}`,
+    `📞 ${details.contact ?? '[phone number]'}`,
+    '👇 Book online below'
+  ];
+  const template = lines.join('\n');
+  // A long category or address can push the template over the limit; the contact line goes first
+  return template.length <= MAX_BIO_LENGTH ? template : [lines[0], lines[1], lines[3]].join('\n').slice(0, MAX_BIO_LENGTH);
+}
+
+// Checks a bio against what a salon's bio needs. `linkInBio` is the separate
+// website field, which counts as the booking link.
+export function analyzeBio(
+  bioText: string,
+  profile: { linkInBio?: string | null; businessCategory?: string | null } = {}
+): BioAnalysis {
+  const text = bioText.trim();
+  const services = unique((text.match(SERVICE_PATTERN) || []).map(service => service.toLowerCase()));
+  const locations = findLocations(text);
+  const hasCallToAction = CALL_TO_ACTION_PATTERN.test(text);
+  const hasLink = Boolean(profile.linkInBio) || URL_PATTERN.test(text.replace(CONTACT_PATTERNS.email, ''));
+  const contactMethods = Object.keys(CONTACT_PATTERNS).filter(method => CONTACT_PATTERNS[method].test(text));
+  const emojiCount = (text.match(EMOJI_PATTERN) || []).length;
+  const length = [...text].length;
+
+  const results: Record<BioCheckId, { passed: boolean; suggestion: string }> = {
+    services: {
+      passed: services.length > 0,
+      suggestion: 'List your main services (e.g. balayage, lashes, nails) - people search for them'
+    },
+    location: {
+      passed: locations.length > 0,
+      suggestion: 'Add your town or neighbourhood after a 📍 so local clients know you\'re nearby'
+    },
+    callToAction: {
+      passed: hasCallToAction,
+      suggestion: 'End with a call to action such as "👇 Book online below"'
+    },
+    link: {
+      passed: hasLink,
+      suggestion: 'Add your online booking page as the link in your bio'
+    },
+    contact: {
+      passed: contactMethods.length > 0,
+      suggestion: 'Show one way to reach you - a phone number, email or "DM to book"'
+    },
+    emoji: {
+      passed: emojiCount > 0 && emojiCount <= MAX_EMOJIS,
+      suggestion: emojiCount === 0
+        ? 'Use a few emojis as bullet points (📍 ✨ 📞) to make the bio easy to scan'
+        : `Cut back from ${emojiCount} emojis to a handful - too many make the bio hard to read`
+    },
+    length: {
+      passed: length >= MIN_BIO_LENGTH && length <= MAX_BIO_LENGTH,
+      suggestion: length < MIN_BIO_LENGTH
+        ? `Your bio uses ${length} of ${MAX_BIO_LENGTH} characters - use the space to say what you do and where`
+        : `Your bio is ${length} characters - Instagram cuts it off at ${MAX_BIO_LENGTH}`
+    }
+  };
+
+  const checks: BioCheck[] = (Object.keys(results) as BioCheckId[]).map(id => ({
+    id,
+    label: CHECK_LABELS[id],
+    passed: results[id].passed,
+    suggestion: results[id].passed ? null : results[id].suggestion
+  }));
+
+  const phone = text.match(CONTACT_PATTERNS.phone)?.[0] ?? null;
+  const email = text.match(CONTACT_PATTERNS.email)?.[0] ?? null;
+
+  return {
+    length,
+    services,
+    locations,
+    hasCallToAction,
+    hasLink,
+    contactMethods,
+    emojiCount,
+    checks,
+    score: Math.round((checks.filter(check => check.passed).length / checks.length) * 100),
+    template: buildTemplate({
+      category: profile.businessCategory ?? null,
+      services,
+      locations,
+      contact: phone ?? email ?? (contactMethods.includes('dm') ? 'DM to book' : null)
+    })
+  };
+}
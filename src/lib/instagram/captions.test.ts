@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCaption, analyzeCaptions, splitCaptions } from '@/lib/instagram/captions';
+
+const GOOD_CAPTION = 'Soft copper balayage for Amy today. We kept her ends long and added a gloss for shine. ' +
+  'Book your colour consultation via the link in our bio ✨ #leedshair #balayage #redheads #leedssalon';
+
+describe('analyzeCaption', () => {
+  it('gives full marks to a clear, local caption with a call to action', () => {
+    const result = analyzeCaption(GOOD_CAPTION);
+
+    expect(result).toMatchObject({
+      hasCallToAction: true,
+      hashtags: ['leedshair', 'balayage', 'redheads', 'leedssalon'],
+      localHashtags: ['leedshair', 'leedssalon'],
+      megaHashtags: [],
+      bannedHashtags: [],
+      captionScore: 100,
+      hashtagScore: 100,
+      feedback: []
+    });
+    expect(result.excerpt).toBe('Soft copper balayage for Amy today. We kept');
+  });
+
+  it('flags generic and restricted tags and a missing call to action', () => {
+    const result = analyzeCaption('New look 💇‍♀️💕✨ #hair #beauty #salon #followforfollow');
+
+    expect(result.hasCallToAction).toBe(false);
+    expect(result.megaHashtags).toEqual(['hair', 'beauty', 'salon']);
+    expect(result.bannedHashtags).toEqual(['followforfollow']);
+    expect(result.feedback).toEqual(expect.arrayContaining([
+      'Too short - say what the service was and who did it',
+      'No call to action - end with "Book via the link in our bio"',
+      'Too many emojis - they crowd out the message',
+      'No local hashtags - add your town, e.g. #yourtownhair',
+      'Remove #followforfollow - restricted tags can hide the post'
+    ]));
+    // Only the number of tags is right
+    expect(result.hashtagScore).toBe(30);
+  });
+
+  it('scores a caption without hashtags zero for hashtags', () => {
+    expect(analyzeCaption('Book now for summer').hashtagScore).toBe(0);
+  });
+});
+
+describe('splitCaptions', () => {
+  it('splits pasted captions on lines of dashes', () => {
+    expect(splitCaptions('First caption\n---\nSecond\nline two\n  ----  \n\n---\n')).toEqual(['First caption', 'Second\nline two']);
+  });
+});
+
+describe('analyzeCaptions', () => {
+  it('averages the captions and finds tags pasted under most posts', () => {
+    const captions = Array.from({ length: 5 }, (_, i) => `${GOOD_CAPTION}${i === 0 ? ' #likeforlike' : ''}`);
+    const report = analyzeCaptions(['', ...captions])!;
+
+    expect(report).toMatchObject({ captionCount: 5, callToActionShare: 1, bannedHashtags: ['likeforlike'] });
+    expect(report.overusedHashtags).toEqual(['leedshair', 'balayage', 'redheads', 'leedssalon']);
+  });
+
+  it('returns null without any captions', () => {
+    expect(analyzeCaptions([' ', ''])).toBeNull();
+  });
+});
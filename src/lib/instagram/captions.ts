@@ -0,0 +1,159 @@
+import type { CaptionAnalysis, CaptionReport } from '@/types/instagram';
+
+// Long enough to say what the service was, short enough to read before "more"
+const LENGTH = { ideal: { min: 80, max: 600 }, ok: { min: 30, max: 2200 } };
+const HASHTAG_COUNT = { ideal: { min: 3, max: 15 }, max: 30 };
+const MAX_EMOJI_DENSITY = 0.3;
+const IDEAL_EMOJI_DENSITY = 0.2;
+
+// Captions repeat a tag this often before it reads as a pasted block
+const OVERUSED_SHARE = 0.8;
+const MIN_CAPTIONS_FOR_OVERUSE = 5;
+
+// Only the most recent captions are analysed and returned
+const MAX_CAPTIONS = 50;
+
+const CALL_TO_ACTION_PATTERN = /\b(book(ing)?|link in (our |my )?bio|dm (us|me)|message (us|me)|call (us|me|now)|appointments?|reserve|tap the link|order now|enquire|get in touch|walk-?ins?)\b/i;
+
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /@[\w.]+/g;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+
+// Huge generic tags where a salon's post is buried within minutes
+const MEGA_HASHTAGS = new Set([
+  'love', 'instagood', 'photooftheday', 'fashion', 'beautiful', 'happy', 'cute', 'followme', 'picoftheday',
+  'selfie', 'instadaily', 'style', 'beauty', 'hair', 'makeup', 'nails', 'hairstyles', 'hairstyle', 'hairgoals',
+  'skincare', 'lashes', 'instahair', 'nailart', 'makeupartist', 'hairstylist', 'haircut', 'instabeauty', 'glam', 'salon'
+]);
+
+// Tags Instagram has restricted, plus follow-for-follow bait that gets posts hidden
+const BANNED_HASHTAGS = new Set([
+  'beautyblogger', 'followforfollow', 'follow4follow', 'likeforlike', 'like4like', 'f4f', 'l4l', 'instalike',
+  'tagsforlikes', 'likes4likes', 'followback', 'mustfollow', 'adulting', 'alone', 'besties', 'costumes', 'dating',
+  'desk', 'elevator', 'hardworkpaysoff', 'humpday', 'instamood', 'petite', 'pushups', 'shower', 'single', 'snapchat',
+  'stranger', 'sunbathing', 'tanlines', 'thought'
+]);
+
+// Local tags are usually a place glued to a service, e.g. #camdenhair or #leedsnails
+const SERVICE_SUFFIX = /(hair|hairdresser|hairstylist|stylist|salon|nails?|beauty|lashes|brows|barbers?|makeup|mua|spa|colou?rist|balayage)$/;
+const NOT_PLACES = new Set(['', 'my', 'the', 'best', 'insta', 'love', 'new', 'pro', 'hair', 'beauty', 'nail', 'natural',
+  'curly', 'long', 'short', 'blonde', 'brown', 'red', 'pink', 'ombre', 'balayage', 'color', 'colour', 'men', 'mens',
+  'kids', 'bridal', 'wedding', 'gel', 'acrylic', 'lash', 'brow', 'ig', 'salon']);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const isLocalTag = (tag: string): boolean => {
+  const match = tag.match(SERVICE_SUFFIX);
+  if (!match) return false;
+  const place = tag.slice(0, tag.length - match[0].length);
+  return place.length >= 3 && !NOT_PLACES.has(place);
+};
+
+const countSyllables = (word: string): number => {
+  const groups = word.toLowerCase().replace(/e$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 0);
+};
+
+// Flesch reading ease on the prose, ignoring tags, mentions and emojis
+function readingEase(text: string): number | null {
+  const prose = text.replace(HASHTAG_PATTERN, '').replace(MENTION_PATTERN, '').replace(EMOJI_PATTERN, '');
+  const words = prose.match(/[a-z']+/gi) || [];
+  if (words.length < 5) return null;
+
+  const sentences = Math.max(1, prose.split(/[.!?\n]+/).filter(sentence => /[a-z]/i.test(sentence)).length);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  return round(206.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length));
+}
+
+const rangeCredit = (value: number, ideal: { min: number; max: number }, ok: { min: number; max: number }): number => {
+  if (value >= ideal.min && value <= ideal.max) return 1;
+  return value >= ok.min && value <= ok.max ? 0.5 : 0;
+};
+
+export function analyzeCaption(caption: string): CaptionAnalysis {
+  const text = caption.trim();
+  const hashtags = [...new Set((text.match(HASHTAG_PATTERN) || []).map(tag => tag.slice(1).toLowerCase()))];
+  const localHashtags = hashtags.filter(isLocalTag);
+  const megaHashtags = hashtags.filter(tag => MEGA_HASHTAGS.has(tag));
+  const bannedHashtags = hashtags.filter(tag => BANNED_HASHTAGS.has(tag));
+
+  const words = text.replace(HASHTAG_PATTERN, '').split(/\s+/).filter(Boolean).length;
+  const emojis = (text.match(EMOJI_PATTERN) || []).length;
+  const emojiDensity = words > 0 ? emojis / words : emojis > 0 ? 1 : 0;
+  const ease = readingEase(text);
+  const hasCallToAction = CALL_TO_ACTION_PATTERN.test(text);
+
+  const feedback: string[] = [];
+  if (text.length < LENGTH.ideal.min) feedback.push('Too short - say what the service was and who did it');
+  if (text.length > LENGTH.ideal.max) feedback.push('Very long - put the key message in the first line');
+  if (!hasCallToAction) feedback.push('No call to action - end with "Book via the link in our bio"');
+  if (ease !== null && ease < 40) feedback.push('Hard to read - use shorter sentences and everyday words');
+  if (emojiDensity > MAX_EMOJI_DENSITY) feedback.push('Too many emojis - they crowd out the message');
+  if (hashtags.length === 0) feedback.push('No hashtags - add a few local and service tags');
+  if (hashtags.length > HASHTAG_COUNT.max) feedback.push(`${hashtags.length} hashtags - Instagram only allows ${HASHTAG_COUNT.max}`);
+  if (hashtags.length > 0 && localHashtags.length === 0) feedback.push('No local hashtags - add your town, e.g. #yourtownhair');
+  if (megaHashtags.length > hashtags.length / 2) feedback.push(`Mostly generic tags (${megaHashtags.map(tag => `#${tag}`).join(' ')}) - swap some for niche ones`);
+  if (bannedHashtags.length > 0) feedback.push(`Remove ${bannedHashtags.map(tag => `#${tag}`).join(' ')} - restricted tags can hide the post`);
+
+  const emojiCredit = emojiDensity === 0 ? 0.5 : emojiDensity <= IDEAL_EMOJI_DENSITY ? 1 : emojiDensity <= MAX_EMOJI_DENSITY ? 0.5 : 0;
+  const readabilityCredit = ease === null ? 0.5 : ease >= 60 ? 1 : ease >= 40 ? 0.5 : 0;
+  const captionScore = 100 * (
+    0.3 * rangeCredit(text.length, LENGTH.ideal, LENGTH.ok) +
+    0.3 * Number(hasCallToAction) +
+    0.2 * readabilityCredit +
+    0.2 * emojiCredit
+  );
+
+  const hashtagScore = hashtags.length === 0 ? 0 : 100 * (
+    0.3 * rangeCredit(hashtags.length, HASHTAG_COUNT.ideal, { min: 1, max: HASHTAG_COUNT.max }) +
+    0.3 * Number(localHashtags.length > 0) +
+    0.2 * Number(megaHashtags.length <= hashtags.length / 2) +
+    0.2 * Number(bannedHashtags.length === 0)
+  );
+
+  return {
+    excerpt: text.split(/\s+/).slice(0, 8).join(' '),
+    length: text.length,
+    hasCallToAction,
+    hashtags,
+    localHashtags,
+    megaHashtags,
+    bannedHashtags,
+    emojiDensity: round(emojiDensity),
+    readingEase: ease,
+    captionScore: Math.round(captionScore),
+    hashtagScore: Math.round(hashtagScore),
+    feedback
+  };
+}
+
+// Captions pasted into the form are separated by a line holding only ---
+export function splitCaptions(text: string): string[] {
+  return text.split(/^\s*---+\s*$/m).map(caption => caption.trim()).filter(Boolean);
+}
+
+// Expects the most recent captions first. Returns null when there are none.
+export function analyzeCaptions(captions: string[]): CaptionReport | null {
+  const results = captions.map(caption => caption.trim()).filter(Boolean).slice(0, MAX_CAPTIONS).map(analyzeCaption);
+  if (results.length === 0) return null;
+
+  const tagCounts = new Map<string, number>();
+  results.forEach(result => result.hashtags.forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1)));
+  const overusedHashtags = results.length >= MIN_CAPTIONS_FOR_OVERUSE
+    ? [...tagCounts.entries()].filter(([, count]) => count / results.length >= OVERUSED_SHARE).map(([tag]) => tag)
+    : [];
+
+  return {
+    captionCount: results.length,
+    captionScore: Math.round(average(results.map(result => result.captionScore))),
+    hashtagScore: Math.round(average(results.map(result => result.hashtagScore))),
+    callToActionShare: round(results.filter(result => result.hasCallToAction).length / results.length),
+    averageLength: Math.round(average(results.map(result => result.length))),
+    overusedHashtags,
+    bannedHashtags: [...new Set(results.flatMap(result => result.bannedHashtags))],
+    captions: results
+  };
+}
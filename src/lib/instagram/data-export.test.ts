@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { buildZip } from '@/lib/__fixtures__/zip';
+import { exportMetrics, parseDataExport } from '@/lib/instagram/data-export';
+
+const DAY = 24 * 60 * 60;
+const NOW = Date.UTC(2026, 5, 1);
+const daysAgo = (days: number) => Math.floor(NOW / 1000) - days * DAY;
+
+// Instagram writes UTF-8 text as one Latin-1 character per byte
+const mangled = (text: string) => Buffer.from(text, 'utf8').toString('latin1');
+
+const field = (value: string) => ({ value });
+
+const EXPORT_FILES = {
+  'personal_information/personal_information/personal_information.json': JSON.stringify({
+    profile_user: [{
+      string_map_data: {
+        Username: field('luxe.salon'),
+        Bio: field(mangled('Colour studio in Leeds ✨')),
+        Website: field('https://luxesalon.co.uk')
+      }
+    }]
+  }),
+  'your_instagram_activity/content/posts_1.json': JSON.stringify([
+    { media: [{ creation_timestamp: daysAgo(3), title: mangled('Summer balayage ☀️ #balayage #leedshair') }] },
+    {
+      creation_timestamp: daysAgo(10),
+      title: 'Before and after #balayage',
+      media: [{ creation_timestamp: daysAgo(10) }, { creation_timestamp: daysAgo(10) }]
+    },
+    { media: [{ creation_timestamp: daysAgo(200), title: 'Old post' }] }
+  ]),
+  'your_instagram_activity/content/reels.json': JSON.stringify({
+    ig_reels_media: [{ media: [{ creation_timestamp: daysAgo(5), title: 'Blow-dry tutorial #hairtips' }] }]
+  }),
+  'your_instagram_activity/content/stories.json': JSON.stringify({
+    ig_stories: [{ creation_timestamp: daysAgo(1) }, { creation_timestamp: daysAgo(2) }, { creation_timestamp: daysAgo(120) }]
+  }),
+  'your_instagram_activity/content/profile_highlights.json': JSON.stringify([{ title: 'Prices' }, { title: 'Reviews' }]),
+  'your_instagram_activity/comments/post_comments_1.json': JSON.stringify([
+    { string_map_data: { Comment: field('Thank you!'), 'Media Owner': field('luxe.salon') } },
+    { string_map_data: { Comment: field('Love this'), 'Media Owner': field('someone.else') } }
+  ]),
+  'connections/followers_and_following/followers_1.json': JSON.stringify([{}, {}, {}]),
+  'media/posts/202606/photo.jpg': Buffer.from([0xff, 0xd8, 0xff])
+};
+
+describe('parseDataExport', () => {
+  it('reads the profile, posts, reels, stories, highlights and own replies', () => {
+    const data = parseDataExport(buildZip(EXPORT_FILES));
+
+    expect(data).toMatchObject({
+      username: 'luxe.salon',
+      bioText: 'Colour studio in Leeds ✨',
+      website: 'https://luxesalon.co.uk',
+      followerCount: 3,
+      highlightTitles: ['Prices', 'Reviews'],
+      ownPostComments: 1
+    });
+    expect(data.storyTimestamps).toHaveLength(3);
+    expect(data.posts.map(post => [post.type, post.caption, post.hashtags])).toEqual([
+      ['photo', 'Summer balayage ☀️ #balayage #leedshair', ['balayage', 'leedshair']],
+      ['carousel', 'Before and after #balayage', ['balayage']],
+      ['photo', 'Old post', []],
+      ['reel', 'Blow-dry tutorial #hairtips', ['hairtips']]
+    ]);
+  });
+
+  it('explains that an HTML export needs requesting again', () => {
+    const archive = buildZip({ 'your_instagram_activity/content/posts_1.html': '<html></html>' });
+    expect(() => parseDataExport(archive)).toThrow('HTML format');
+  });
+
+  it('rejects ZIPs that are not an Instagram export', () => {
+    expect(() => parseDataExport(buildZip({ 'notes.txt': 'hello' }))).toThrow('not an Instagram data export');
+    expect(() => parseDataExport(buildZip({ 'package.json': '{}' }))).toThrow('not an Instagram data export');
+  });
+});
+
+describe('exportMetrics', () => {
+  it('rates the last 90 days of activity', () => {
+    const metrics = exportMetrics(parseDataExport(buildZip(EXPORT_FILES)), NOW);
+
+    expect(metrics).toMatchObject({
+      postCount: 4,
+      storyCount: 3,
+      highlightCount: 2,
+      // 3 recent posts and 2 recent stories over 90 days
+      postsPerWeek: 0.23,
+      storiesPerWeek: 0.16,
+      // Posts 3, 5 and 10 days old fall in 2 of the last 12 weeks
+      activeWeekShare: 0.17,
+      hashtagsPerPost: 1,
+      uniqueHashtags: 3,
+      repliesPerPost: 0.25
+    });
+    expect(metrics.topHashtags[0]).toEqual({ tag: 'balayage', count: 2 });
+    expect(metrics.formats).toEqual(['photo', 'carousel', 'reel']);
+  });
+});
@@ -0,0 +1,177 @@
+import { readZipEntries, type ZipEntry } from '@/lib/zip';
+import type { ExportMetrics, ExportPost, ExportPostType, HashtagCount, InstagramDataExport } from '@/types/instagram';
+
+// Paths differ between export versions (with or without your_instagram_activity/),
+// so files are matched on the end of their path
+const FILE_PATTERNS = {
+  posts: /(^|\/)content\/posts_\d+\.json$/,
+  reels: /(^|\/)content\/reels\.json$/,
+  stories: /(^|\/)content\/stories\.json$/,
+  highlights: /(^|\/)content\/[^/]*highlight[^/]*\.json$/,
+  comments: /(^|\/)comments\/(post_comments(_\d+)?|reels_comments)\.json$/,
+  personalInformation: /(^|\/)personal_information\/personal_information\.json$/,
+  followers: /(^|\/)followers_and_following\/followers(_\d+)?\.json$/
+};
+
+// Largest JSON file read from the archive; media files are never inflated
+const MAX_JSON_SIZE = 50 * 1024 * 1024;
+
+const RECENT_DAYS = 90;
+const ACTIVE_WEEKS = 12;
+const TOP_HASHTAGS = 10;
+
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+
+type Json = unknown;
+
+const DAY = 24 * 60 * 60;
+
+// Export text is UTF-8 written out as one Latin-1 character per byte
+const fixEncoding = (text: string): string => {
+  if (/[\u0100-\uffff]/.test(text)) return text;
+  const decoded = Buffer.from(text, 'latin1').toString('utf8');
+  return decoded.includes('\ufffd') ? text : decoded;
+};
+
+const asArray = (value: Json): Json[] => Array.isArray(value) ? value : [];
+
+const asRecord = (value: Json): Record<string, Json> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, Json> : {};
+
+const asString = (value: Json): string => typeof value === 'string' ? fixEncoding(value) : '';
+
+const asNumber = (value: Json): number | null => typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// Most files are a bare list; newer ones wrap it in a single named key
+const listIn = (file: Json): Json[] =>
+  Array.isArray(file) ? file : asArray(Object.values(asRecord(file)).find(Array.isArray));
+
+// Labelled fields live under string_map_data, e.g. { "Username": { "value": "..." } }
+const mapValue = (item: Json, label: string): Json => asRecord(asRecord(asRecord(item).string_map_data)[label]).value;
+
+function readJson(entry: ZipEntry): Json {
+  if (entry.size > MAX_JSON_SIZE) return null;
+  try {
+    return JSON.parse(entry.read().toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+const hashtagsIn = (caption: string): string[] =>
+  (caption.match(HASHTAG_PATTERN) || []).map(tag => tag.slice(1).toLowerCase());
+
+function toPost(item: Json, type: ExportPostType): ExportPost | null {
+  const record = asRecord(item);
+  const media = asArray(record.media).map(asRecord);
+  const timestamp = asNumber(record.creation_timestamp) ?? asNumber(media[0]?.creation_timestamp);
+  if (timestamp === null) return null;
+
+  // Carousels carry the caption on the post; single photos on their only media item
+  const caption = asString(record.title) || asString(media[0]?.title);
+  return {
+    timestamp,
+    caption,
+    hashtags: hashtagsIn(caption),
+    type: type === 'photo' && media.length > 1 ? 'carousel' : type
+  };
+}
+
+// Reads the JSON files of an Instagram "Download your information" archive. Throws
+// when the upload isn't a ZIP or only holds the HTML version of the export.
+export function parseDataExport(archive: Buffer): InstagramDataExport {
+  const entries = readZipEntries(archive);
+  const jsonEntries = entries.filter(entry => entry.name.endsWith('.json'));
+
+  if (jsonEntries.length === 0) {
+    throw new Error(entries.some(entry => entry.name.endsWith('.html'))
+      ? 'This export is in HTML format - request your Instagram information again and choose JSON'
+      : 'This ZIP is not an Instagram data export');
+  }
+
+  const filesMatching = (pattern: RegExp): Json[] =>
+    jsonEntries.filter(entry => pattern.test(entry.name)).map(readJson);
+
+  const posts = [
+    ...filesMatching(FILE_PATTERNS.posts).flatMap(listIn).map(item => toPost(item, 'photo')),
+    // Each reels entry wraps its clip in a media list, like a post
+    ...filesMatching(FILE_PATTERNS.reels).flatMap(listIn).map(item => toPost(item, 'reel'))
+  ].filter((post): post is ExportPost => post !== null);
+
+  const storyTimestamps = filesMatching(FILE_PATTERNS.stories)
+    .flatMap(listIn)
+    .map(item => asNumber(asRecord(item).creation_timestamp))
+    .filter((timestamp): timestamp is number => timestamp !== null);
+
+  const highlightTitles = filesMatching(FILE_PATTERNS.highlights)
+    .flatMap(listIn)
+    .map(item => asString(asRecord(item).title));
+
+  const profileUser = filesMatching(FILE_PATTERNS.personalInformation).flatMap(listIn)[0];
+  const username = profileUser ? asString(mapValue(profileUser, 'Username')) || null : null;
+
+  const followerFiles = filesMatching(FILE_PATTERNS.followers);
+  const followerCount = followerFiles.length > 0 ? followerFiles.flatMap(listIn).length : null;
+
+  // Without a username there's no telling which comments were left on the account's own posts
+  const ownPostComments = username
+    ? filesMatching(FILE_PATTERNS.comments)
+      .flatMap(listIn)
+      .filter(item => asString(mapValue(item, 'Media Owner')).toLowerCase() === username.toLowerCase())
+      .length
+    : 0;
+
+  if (!profileUser && posts.length === 0 && storyTimestamps.length === 0) {
+    throw new Error('This ZIP is not an Instagram data export');
+  }
+
+  return {
+    username,
+    bioText: profileUser ? asString(mapValue(profileUser, 'Bio')) : null,
+    website: profileUser ? asString(mapValue(profileUser, 'Website')) || null : null,
+    followerCount,
+    posts,
+    storyTimestamps,
+    highlightTitles,
+    ownPostComments
+  };
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const round = (value: number | null): number | null => value === null ? null : Math.round(value * 100) / 100;
+
+// Rates cover the last 90 days before `now`, so an account that stopped posting scores low
+export function exportMetrics(data: InstagramDataExport, now = Date.now()): ExportMetrics {
+  const nowSeconds = now / 1000;
+  const recentPosts = data.posts.filter(post => post.timestamp >= nowSeconds - RECENT_DAYS * DAY);
+  const recentStories = data.storyTimestamps.filter(timestamp => timestamp >= nowSeconds - RECENT_DAYS * DAY);
+  const hasActivity = data.posts.length > 0 || data.storyTimestamps.length > 0;
+
+  const activeWeeks = new Set(data.posts
+    .map(post => Math.floor((nowSeconds - post.timestamp) / (7 * DAY)))
+    .filter(week => week >= 0 && week < ACTIVE_WEEKS));
+
+  const counts = new Map<string, number>();
+  data.posts.forEach(post => post.hashtags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  const topHashtags: HashtagCount[] = [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_HASHTAGS);
+
+  return {
+    postCount: data.posts.length,
+    storyCount: data.storyTimestamps.length,
+    highlightCount: data.highlightTitles.length,
+    postsPerWeek: hasActivity ? round(recentPosts.length / (RECENT_DAYS / 7)) : null,
+    activeWeekShare: hasActivity ? round(activeWeeks.size / ACTIVE_WEEKS) : null,
+    averageCaptionLength: round(average(data.posts.map(post => post.caption.length))),
+    hashtagsPerPost: round(average(data.posts.map(post => post.hashtags.length))),
+    uniqueHashtags: counts.size,
+    topHashtags,
+    storiesPerWeek: hasActivity ? round(recentStories.length / (RECENT_DAYS / 7)) : null,
+    repliesPerPost: data.username && data.posts.length > 0 ? round(data.ownPostComments / data.posts.length) : null,
+    formats: [...new Set(data.posts.map(post => post.type))]
+  };
+}
@@ -0,0 +1,56 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { analyzeGridAesthetics, type GridSource } from '@/lib/instagram/grid-aesthetics';
+import type { BoundingBox } from '@/types/image';
+
+const TILE = 96;
+
+// Three columns of tiles, each a gradient in its own direction and color
+async function gridImage(rows: number): Promise<{ image: Buffer; tiles: BoundingBox[] }> {
+  const width = TILE * 3;
+  const height = TILE * rows;
+  const data = Buffer.alloc(width * height * 3);
+  const tiles: BoundingBox[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < 3; column++) {
+      const index = row * 3 + column;
+      tiles.push({ left: column * TILE, top: row * TILE, width: TILE, height: TILE });
+      for (let y = 0; y < TILE; y++) {
+        for (let x = 0; x < TILE; x++) {
+          const ramp = Math.round(255 * (index % 2 === 0 ? x : y) / TILE);
+          const offset = ((row * TILE + y) * width + column * TILE + x) * 3;
+          data[offset] = index % 3 === 0 ? ramp : 40 * index;
+          data[offset + 1] = index % 3 === 1 ? ramp : 255 - 30 * index;
+          data[offset + 2] = index % 3 === 2 ? 255 - ramp : 20 * index;
+        }
+      }
+    }
+  }
+  const image = await sharp(data, { raw: { width, height, channels: 3 } }).png().toBuffer();
+  return { image, tiles };
+}
+
+describe('analyzeGridAesthetics', () => {
+  it('counts posts shown in two overlapping screenshots once', async () => {
+    const grid = await gridImage(2);
+    const single = await analyzeGridAesthetics([grid]);
+    const overlapping = await analyzeGridAesthetics([grid, { image: grid.image, tiles: grid.tiles.slice(3) }]);
+
+    expect(single?.tileCount).toBe(6);
+    expect(overlapping).toEqual(single);
+  });
+
+  it('keeps a post repeated within one screenshot', async () => {
+    const grid = await gridImage(1);
+    const repeated: GridSource = { image: grid.image, tiles: [...grid.tiles, grid.tiles[0]] };
+
+    expect((await analyzeGridAesthetics([repeated]))?.tileCount).toBe(4);
+  });
+
+  it('needs three distinct tiles', async () => {
+    const grid = await gridImage(1);
+    const source = { image: grid.image, tiles: grid.tiles.slice(0, 2) };
+
+    expect(await analyzeGridAesthetics([source, source])).toBeNull();
+  });
+});
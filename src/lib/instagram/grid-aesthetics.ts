@@ -0,0 +1,237 @@
+import sharp from 'sharp';
+import { isSkin } from '@/lib/image';
+import type { BoundingBox } from '@/types/image';
+import type { GridAesthetics, PaletteColor } from '@/types/instagram';
+
+// Tiles are compared as thumbnails, just large enough to keep caption-sized text sharp
+const SAMPLE_SIZE = 128;
+// Every nth pixel feeds the palette clustering
+const PALETTE_STRIDE = 4;
+const PALETTE_SIZE = 5;
+const KMEANS_ITERATIONS = 10;
+
+// Cohesion needs a few tiles to compare
+const MIN_TILES = 3;
+
+// Enough skin in a tile is treated as a face or person
+const SKIN_SHARE = 0.2;
+// Text graphics are sharp glyph edges on a flat background; photos have few hard
+// edges and textures have edges everywhere
+const TEXT_EDGE_CONTRAST = 60;
+const TEXT_EDGE_SHARE = { min: 0.02, max: 0.25 };
+const TEXT_FLAT_SHARE = 0.45;
+// Tiles whose difference hashes are this close share a layout
+const TEMPLATE_HASH_DISTANCE = 10;
+// Overlapping screenshots show some posts twice; a tile in another screenshot this
+// close in hash and average color is the same post
+const DUPLICATE_HASH_DISTANCE = 3;
+const DUPLICATE_COLOR_DISTANCE = 12;
+
+type Rgb = [number, number, number];
+
+interface TileSample {
+  pixels: Rgb[];
+  luma: number[];
+  hash: boolean[];
+  color: Rgb;
+}
+
+const lumaOf = ([r, g, b]: Rgb): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const distanceSquared = (a: Rgb, b: Rgb): number =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const toHex = (color: Rgb): string =>
+  '#' + color.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+
+const clamp = (value: number): number => Math.min(Math.max(value, 0), 1);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+async function sampleTile(image: Buffer, tile: BoundingBox): Promise<TileSample> {
+  const { data } = await sharp(image)
+    .extract(tile)
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels: Rgb[] = [];
+  for (let i = 0; i < data.length; i += 3) {
+    pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  const luma = pixels.map(lumaOf);
+  return { pixels, luma, hash: differenceHash(luma), color: averageColor(pixels) };
+}
+
+const isSamePost = (a: TileSample, b: TileSample): boolean =>
+  hammingDistance(a.hash, b.hash) <= DUPLICATE_HASH_DISTANCE &&
+  Math.sqrt(distanceSquared(a.color, b.color)) <= DUPLICATE_COLOR_DISTANCE;
+
+const averageColor = (pixels: Rgb[]): Rgb => {
+  const sum = pixels.reduce<Rgb>((total, pixel) => [total[0] + pixel[0], total[1] + pixel[1], total[2] + pixel[2]], [0, 0, 0]);
+  return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length];
+};
+
+const nearest = (color: Rgb, centres: Rgb[]): number => {
+  let best = 0;
+  for (let i = 1; i < centres.length; i++) {
+    if (distanceSquared(color, centres[i]) < distanceSquared(color, centres[best])) best = i;
+  }
+  return best;
+};
+
+// k-means seeded from brightness quantiles, so the same grid always gives the same palette
+function extractPalette(pixels: Rgb[]): Rgb[] {
+  const byLuma = [...pixels].sort((a, b) => lumaOf(a) - lumaOf(b));
+  let centres: Rgb[] = Array.from({ length: PALETTE_SIZE }, (_, i) =>
+    byLuma[Math.floor(((i + 0.5) / PALETTE_SIZE) * byLuma.length)]);
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centres.map(() => [0, 0, 0, 0]);
+    pixels.forEach(pixel => {
+      const sum = sums[nearest(pixel, centres)];
+      sum[0] += pixel[0];
+      sum[1] += pixel[1];
+      sum[2] += pixel[2];
+      sum[3]++;
+    });
+    centres = centres.map((centre, i) => sums[i][3] > 0
+      ? [sums[i][0] / sums[i][3], sums[i][1] / sums[i][3], sums[i][2] / sums[i][3]]
+      : centre);
+  }
+
+  return centres;
+}
+
+// Share of a tile's pixels in each palette color
+const paletteHistogram = (tile: TileSample, palette: Rgb[]): number[] => {
+  const counts = palette.map(() => 0);
+  tile.pixels.forEach(pixel => counts[nearest(pixel, palette)]++);
+  return counts.map(count => count / tile.pixels.length);
+};
+
+const hasFace = (tile: TileSample): boolean =>
+  tile.pixels.filter(isSkin).length / tile.pixels.length >= SKIN_SHARE;
+
+function hasTextOverlay(tile: TileSample): boolean {
+  let edges = 0;
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 1; x < SAMPLE_SIZE; x++) {
+      const i = y * SAMPLE_SIZE + x;
+      if (Math.abs(tile.luma[i] - tile.luma[i - 1]) > TEXT_EDGE_CONTRAST) edges++;
+    }
+  }
+  const edgeShare = edges / (SAMPLE_SIZE * (SAMPLE_SIZE - 1));
+  if (edgeShare < TEXT_EDGE_SHARE.min || edgeShare > TEXT_EDGE_SHARE.max) return false;
+
+  const histogram = new Array<number>(256 / 16).fill(0);
+  tile.luma.forEach(value => histogram[Math.min(15, Math.floor(value / 16))]++);
+  return Math.max(...histogram) / tile.luma.length >= TEXT_FLAT_SHARE;
+}
+
+// 64-bit difference hash of a 9x8 average of the tile
+function differenceHash(luma: number[]): boolean[] {
+  const cell = (column: number, row: number): number => {
+    const left = Math.floor((column * SAMPLE_SIZE) / 9);
+    const right = Math.floor(((column + 1) * SAMPLE_SIZE) / 9);
+    const top = row * (SAMPLE_SIZE / 8);
+    let sum = 0;
+    for (let y = top; y < top + SAMPLE_SIZE / 8; y++) {
+      for (let x = left; x < right; x++) sum += luma[y * SAMPLE_SIZE + x];
+    }
+    return sum / ((right - left) * (SAMPLE_SIZE / 8));
+  };
+
+  const bits: boolean[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let column = 0; column < 8; column++) {
+      bits.push(cell(column, row) < cell(column + 1, row));
+    }
+  }
+  return bits;
+}
+
+const hammingDistance = (a: boolean[], b: boolean[]): number =>
+  a.reduce((count, bit, i) => count + (bit !== b[i] ? 1 : 0), 0);
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+export interface GridSource {
+  image: Buffer;
+  tiles: BoundingBox[];
+}
+
+// Tiles can come from several screenshots of the same grid. Returns null when
+// fewer than three tiles are visible.
+export async function analyzeGridAesthetics(sources: GridSource[]): Promise<GridAesthetics | null> {
+  if (sources.reduce((count, source) => count + source.tiles.length, 0) < MIN_TILES) return null;
+
+  // Tiles repeated within one screenshot are separate posts, so only earlier screenshots are checked
+  const samples: TileSample[] = [];
+  for (const { image, tiles } of sources) {
+    const earlier = samples.length;
+    for (const tile of tiles) {
+      const sample = await sampleTile(image, tile);
+      if (!samples.slice(0, earlier).some(other => isSamePost(sample, other))) samples.push(sample);
+    }
+  }
+  if (samples.length < MIN_TILES) return null;
+
+  const centres = extractPalette(samples.flatMap(sample => sample.pixels.filter((_, i) => i % PALETTE_STRIDE === 0)));
+  const histograms = samples.map(sample => paletteHistogram(sample, centres));
+
+  // Tiles mixing the same colors in similar amounts overlap heavily. Close shades
+  // can land in neighbouring clusters, so the spread of tile average colors counts too.
+  let overlap = 0;
+  let pairs = 0;
+  for (let i = 0; i < histograms.length; i++) {
+    for (let j = i + 1; j < histograms.length; j++) {
+      overlap += histograms[i].reduce((sum, share, k) => sum + Math.min(share, histograms[j][k]), 0);
+      pairs++;
+    }
+  }
+  const tileColors = samples.map(sample => sample.color);
+  const gridColor = averageColor(tileColors);
+  const colorSpread = tileColors.reduce((sum, color) => sum + Math.sqrt(distanceSquared(color, gridColor)), 0) / tileColors.length;
+  const paletteCohesion = (overlap / pairs + clamp(1 - colorSpread / 100)) / 2;
+
+  const tileBrightness = samples.map(sample => sample.luma.reduce((sum, value) => sum + value, 0) / sample.luma.length);
+  const brightnessConsistency = clamp(1 - standardDeviation(tileBrightness) / 60);
+
+  const faceRatio = samples.filter(hasFace).length / samples.length;
+  const textOverlayRatio = samples.filter(hasTextOverlay).length / samples.length;
+
+  const hashes = samples.map(sample => sample.hash);
+  const repeatedTemplateRatio = hashes.filter((hash, i) =>
+    hashes.some((other, j) => i !== j && hammingDistance(hash, other) <= TEMPLATE_HASH_DISTANCE)).length / hashes.length;
+
+  // A salon grid should show people and not be dominated by text graphics or one template
+  const contentMix = [
+    faceRatio > 0,
+    textOverlayRatio <= 1 / 3,
+    repeatedTemplateRatio <= 0.5
+  ].filter(Boolean).length / 3;
+
+  const paletteShares = histograms
+    .reduce((totals, histogram) => totals.map((total, k) => total + histogram[k] / histograms.length), centres.map(() => 0));
+  const palette: PaletteColor[] = centres
+    .map((centre, k) => ({ hex: toHex(centre), share: round(paletteShares[k]) }))
+    .filter(color => color.share > 0)
+    .sort((a, b) => b.share - a.share);
+
+  return {
+    score: Math.round(100 * (0.45 * paletteCohesion + 0.35 * brightnessConsistency + 0.2 * contentMix)),
+    palette,
+    paletteCohesion: round(paletteCohesion),
+    brightnessConsistency: round(brightnessConsistency),
+    faceRatio: round(faceRatio),
+    textOverlayRatio: round(textOverlayRatio),
+    repeatedTemplateRatio: round(repeatedTemplateRatio),
+    tileCount: samples.length
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { highlightsInventory, readHighlights } from '@/lib/instagram/highlights';
+import type { StoryHighlight } from '@/types/instagram';
+
+const highlight = (label: string | null, coverColor = '#f4e1d2', left = 0): StoryHighlight => ({
+  box: { left, top: 400, width: 120, height: 120 },
+  label,
+  coverColor
+});
+
+describe('highlightsInventory', () => {
+  it('finds the key highlights from their labels', () => {
+    const inventory = highlightsInventory([
+      highlight('Balayage'),
+      highlight('Price list'),
+      highlight('Kind words'),
+      highlight('B&A'),
+      highlight('Book'),
+      highlight('Find us')
+    ]);
+
+    expect(inventory.present).toEqual(['services', 'prices', 'reviews', 'beforeAfter', 'book', 'location']);
+    expect(inventory.missing).toEqual([]);
+    expect(inventory.coverConsistency).toBe(1);
+  });
+
+  it('counts a label seen in two screenshots once, but keeps unlabelled highlights', () => {
+    const inventory = highlightsInventory([highlight('Reviews'), highlight('reviews', '#f4e1d2', 500), highlight(null), highlight(null)]);
+
+    expect(inventory.count).toBe(3);
+    expect(inventory.present).toEqual(['reviews']);
+    expect(inventory.missing).toEqual(['services', 'prices', 'beforeAfter', 'book', 'location']);
+  });
+
+  it('scores covers in clashing colors as inconsistent', () => {
+    const matching = highlightsInventory([highlight('Nails', '#f4e1d2'), highlight('Prices', '#efd9c8')]);
+    const clashing = highlightsInventory([highlight('Nails', '#000000'), highlight('Prices', '#ffffff'), highlight('Book', '#ff0000')]);
+
+    expect(matching.coverConsistency).toBeGreaterThan(0.8);
+    expect(clashing.coverConsistency).toBe(0);
+  });
+
+  it('does not read unrelated labels as key highlights', () => {
+    expect(highlightsInventory([highlight('Holiday'), highlight('Team')]).present).toEqual([]);
+  });
+});
+
+describe('readHighlights', () => {
+  it('has nothing to read without circles', async () => {
+    expect(await readHighlights(Buffer.alloc(0), [])).toEqual([]);
+  });
+});
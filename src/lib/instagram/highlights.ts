@@ -0,0 +1,134 @@
+import sharp from 'sharp';
+import { recognizeText, type OcrLine } from '@/lib/ocr';
+import type { BoundingBox } from '@/types/image';
+import type { HighlightsInventory, KeyHighlight, StoryHighlight } from '@/types/instagram';
+
+// Labels sit in a band under the circles about half a diameter tall
+const LABEL_BAND = 0.6;
+// Only the middle of a cover is sampled, clear of the ring around it
+const COVER_SAMPLE = 0.6;
+const MIN_LABEL_CONFIDENCE = 40;
+const LABEL_WORD_PATTERN = /\p{L}|[£$€&]/u;
+
+// Average distance from the mean cover color at which covers stop looking like a set
+const COVER_SPREAD = 80;
+
+// Own profiles show a "New" circle for adding highlights
+const NEW_HIGHLIGHT_PATTERN = /^\+?\s*new$/i;
+
+// What salon clients look for first, and the labels salons use for them
+const KEY_HIGHLIGHTS: Record<KeyHighlight, RegExp> = {
+  // Highlights named after a service count as showing services
+  services: /\b(services?|menu|treatments?|what we do|hair|colou?r|balayage|cuts?|nails?|lash(es)?|brows?|make-?up|facials?|skin|waxing|barber(ing)?)\b/i,
+  prices: /\b(prices?|pricing|price list|rates|costs?)\b|[£$€]/i,
+  reviews: /\b(reviews?|testimonials?|feedback|happy clients|kind words|love notes)\b/i,
+  beforeAfter: /\b(before|after|b ?[&+] ?a|transformations?|results)\b/i,
+  book: /\b(book|booking|appointments?|bookings)\b/i,
+  location: /\b(location|find us|visit us|where|address|directions|parking)\b/i
+};
+
+type Rgb = [number, number, number];
+
+const toHex = (color: Rgb): string =>
+  '#' + color.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Rgb =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+
+const distance = (a: Rgb, b: Rgb): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+async function coverColor(image: Buffer, circle: BoundingBox): Promise<string> {
+  const inset = Math.round(circle.width * (1 - COVER_SAMPLE) / 2);
+  const { channels } = await sharp(image)
+    .extract({
+      left: circle.left + inset,
+      top: circle.top + inset,
+      width: Math.max(1, circle.width - 2 * inset),
+      height: Math.max(1, circle.height - 2 * inset)
+    })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .stats();
+  return toHex([channels[0].mean, channels[1].mean, channels[2].mean]);
+}
+
+// Words in the band under a circle, left to right
+function labelFor(circle: BoundingBox, lines: OcrLine[]): string | null {
+  const top = circle.top + circle.height;
+  const bottom = top + circle.height * LABEL_BAND;
+  const words = lines
+    .flatMap(line => line.words)
+    .filter(word => {
+      const centreX = word.box.left + word.box.width / 2;
+      const centreY = word.box.top + word.box.height / 2;
+      return word.confidence >= MIN_LABEL_CONFIDENCE &&
+        centreX >= circle.left && centreX <= circle.left + circle.width &&
+        centreY >= top && centreY <= bottom;
+    })
+    .sort((a, b) => a.box.left - b.box.left);
+
+  // Circle edges are often read as stray "|" or "1"
+  const label = words.map(word => word.text).filter(text => LABEL_WORD_PATTERN.test(text)).join(' ').trim();
+  return label || null;
+}
+
+// Reads the cover and label of each highlight circle. Labels are small, so the
+// band under the circles is read again at a larger scale.
+export async function readHighlights(image: Buffer, circles: BoundingBox[]): Promise<StoryHighlight[]> {
+  if (circles.length === 0) return [];
+
+  const left = Math.min(...circles.map(circle => circle.left));
+  const right = Math.max(...circles.map(circle => circle.left + circle.width));
+  const top = Math.min(...circles.map(circle => circle.top + circle.height));
+  const { height: imageHeight = 0 } = await sharp(image).metadata();
+  const height = Math.min(Math.round(circles[0].height * LABEL_BAND), imageHeight - top);
+
+  let lines: OcrLine[] = [];
+  if (height > 0) {
+    try {
+      lines = (await recognizeText(image, { left, top, width: right - left, height })).lines;
+    } catch (error) {
+      console.error('Error reading highlight labels:', error);
+    }
+  }
+
+  const highlights: StoryHighlight[] = [];
+  for (const circle of circles) {
+    const label = labelFor(circle, lines);
+    if (label && NEW_HIGHLIGHT_PATTERN.test(label)) continue;
+    highlights.push({ box: circle, label, coverColor: await coverColor(image, circle) });
+  }
+  return highlights;
+}
+
+// Highlights can come from several screenshots; the same label is only counted once
+export function highlightsInventory(highlights: StoryHighlight[]): HighlightsInventory {
+  const seen = new Set<string>();
+  const unique = highlights.filter(highlight => {
+    if (!highlight.label) return true;
+    const key = highlight.label.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const labels = unique.map(highlight => highlight.label ?? '');
+  const keys = Object.keys(KEY_HIGHLIGHTS) as KeyHighlight[];
+  const present = keys.filter(key => labels.some(label => KEY_HIGHLIGHTS[key].test(label)));
+
+  const colors = unique.map(highlight => fromHex(highlight.coverColor));
+  const mean = colors.reduce<Rgb>((sum, color) => [sum[0] + color[0], sum[1] + color[1], sum[2] + color[2]], [0, 0, 0])
+    .map(total => total / Math.max(1, colors.length)) as Rgb;
+  const spread = colors.length > 0
+    ? colors.reduce((sum, color) => sum + distance(color, mean), 0) / colors.length
+    : 0;
+
+  return {
+    count: unique.length,
+    highlights: unique,
+    present,
+    missing: keys.filter(key => !present.includes(key)),
+    coverConsistency: Math.round(Math.max(0, 1 - spread / COVER_SPREAD) * 100) / 100
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { OcrLine } from '@/lib/ocr';
+import { insightsRates, mergeInsights, parseInsightsText } from '@/lib/instagram/insights';
+import type { InstagramInsights } from '@/types/instagram';
+
+// A line of words starting at `left`, each word 10px per character plus a space
+function line(text: string, top: number, left = 20): OcrLine {
+  let x = left;
+  const words = text.split(' ').map(word => {
+    const box = { left: x, top, width: word.length * 10, height: 20 };
+    x += box.width + 10;
+    return { text: word, confidence: 90, box };
+  });
+  return { text, confidence: 90, box: { left, top, width: x - 10 - left, height: 20 }, words };
+}
+
+const EMPTY: InstagramInsights = {
+  periodDays: null,
+  accountsReached: null,
+  accountsEngaged: null,
+  profileVisits: null,
+  externalLinkTaps: null,
+  followerGrowth: null,
+  totalFollowers: null
+};
+
+describe('parseInsightsText', () => {
+  it('reads values that follow their labels in the list view', () => {
+    expect(parseInsightsText([
+      line('Last 30 days', 40),
+      line('Accounts reached 4,210 +12.4%', 100),
+      line('Accounts engaged 312', 140),
+      line('Profile visits 640', 180),
+      line('External link taps 48', 220),
+      line('Total followers 2.1K', 260)
+    ])).toEqual({
+      periodDays: 30,
+      accountsReached: 4210,
+      accountsEngaged: 312,
+      profileVisits: 640,
+      externalLinkTaps: 48,
+      followerGrowth: null,
+      totalFollowers: 2100
+    });
+  });
+
+  it('pairs overview card values with the label below them, not the neighbouring card', () => {
+    const insights = parseInsightsText([
+      line('Last 7 days', 40),
+      line('1.2K', 100, 20),
+      line('85', 100, 300),
+      line('Accounts reached', 130, 20),
+      line('Profile visits', 130, 300)
+    ]);
+
+    expect(insights).toMatchObject({ periodDays: 7, accountsReached: 1200, profileVisits: 85 });
+  });
+
+  it('nets follows against unfollows when no growth figure is shown', () => {
+    const insights = parseInsightsText([line('Follows 40', 100), line('Unfollows 12', 140)]);
+    expect(insights.followerGrowth).toBe(28);
+  });
+});
+
+describe('mergeInsights', () => {
+  it('keeps the first value each screen shows', () => {
+    const merged = mergeInsights([
+      { ...EMPTY, accountsReached: 4000 },
+      { ...EMPTY, accountsReached: 3900, profileVisits: 200 }
+    ]);
+    expect(merged).toMatchObject({ accountsReached: 4000, profileVisits: 200 });
+    expect(mergeInsights([])).toBeNull();
+  });
+});
+
+describe('insightsRates', () => {
+  it('scales follower growth to 30 days and falls back to the profile follower count', () => {
+    const rates = insightsRates({
+      ...EMPTY,
+      periodDays: 7,
+      accountsReached: 4000,
+      accountsEngaged: 200,
+      profileVisits: 400,
+      externalLinkTaps: 40,
+      followerGrowth: 14
+    }, 2000);
+
+    expect(rates.engagementRate).toBe(0.05);
+    expect(rates.profileVisitRate).toBe(0.1);
+    expect(rates.linkTapRate).toBe(0.1);
+    expect(rates.discoveryRate).toBe(2);
+    expect(rates.followerGrowthRate).toBeCloseTo(0.03);
+  });
+
+  it('leaves rates null when a side of the ratio is missing', () => {
+    expect(insightsRates(EMPTY)).toEqual({
+      engagementRate: null,
+      profileVisitRate: null,
+      followerGrowthRate: null,
+      discoveryRate: null,
+      linkTapRate: null
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import type { OcrLine } from '@/lib/ocr';
+import { parseCount } from '@/lib/instagram/profile';
+import type { BoundingBox } from '@/types/image';
+import type { InsightsRates, InstagramInsights } from '@/types/instagram';
+
+type CountField = Exclude<keyof InstagramInsights, 'periodDays'>;
+
+// Labels as they appear on the Professional Dashboard and the Insights overview
+const METRIC_LABELS: Record<CountField, RegExp> = {
+  accountsReached: /\baccounts reached\b/i,
+  accountsEngaged: /\baccounts engaged\b/i,
+  profileVisits: /\bprofile visits\b/i,
+  externalLinkTaps: /\b(external link taps|link taps|website taps)\b/i,
+  followerGrowth: /\b(net followers|new followers|follower growth)\b/i,
+  totalFollowers: /\btotal followers\b/i
+};
+
+const FOLLOWS_LABEL = /^follows\b/i;
+const UNFOLLOWS_LABEL = /^unfollows\b/i;
+const PERIOD_PATTERN = /\blast (\d+) days\b/i;
+
+// Plain counts only; percentages are period-over-period changes, not values
+const COUNT_TOKEN = /^[+-]?[\d][\d.,]*[KM]?$/i;
+
+interface PlacedCount {
+  value: number;
+  box: BoundingBox;
+}
+
+const verticalCentre = (box: BoundingBox): number => box.top + box.height / 2;
+
+const cleanToken = (text: string): string => text.replace(/[^\d.,KM+-]/gi, '');
+
+const toCount = (token: string): number => {
+  const value = parseCount(token.replace(/^[+-]/, ''));
+  return token.startsWith('-') ? -value : value;
+};
+
+const countsIn = (line: OcrLine): PlacedCount[] =>
+  line.words
+    .filter(word => COUNT_TOKEN.test(cleanToken(word.text)))
+    .map(word => ({ value: toCount(cleanToken(word.text)), box: word.box }));
+
+// Box around the label's own words, since OCR may merge it with a neighbouring card
+function labelBox(line: OcrLine, labelText: string): BoundingBox {
+  const labelWords = labelText.toLowerCase().split(/\s+/);
+  const words = line.words.map(word => word.text.toLowerCase());
+  const start = words.findIndex((_, i) => labelWords.every((labelWord, j) => words[i + j]?.startsWith(labelWord)));
+  if (start === -1) return line.box;
+
+  const first = line.words[start].box;
+  const last = line.words[start + labelWords.length - 1].box;
+  return { left: first.left, top: first.top, width: last.left + last.width - first.left, height: first.height };
+}
+
+// Values follow the label on the same row in lists, and sit just above or below
+// it in the overview cards. OCR often splits or merges those rows.
+function valueForLabel(lines: OcrLine[], index: number, label: RegExp): number | null {
+  const line = lines[index];
+  const match = line.text.match(label);
+  if (!match) return null;
+
+  const afterLabel = line.text.slice((match.index ?? 0) + match[0].length).split(/\s+/).map(cleanToken);
+  const inline = afterLabel.find(token => COUNT_TOKEN.test(token));
+  if (inline) return toCount(inline);
+
+  const box = labelBox(line, match[0]);
+  const centre = verticalCentre(box);
+  const candidates = lines.flatMap(other => other === line ? [] : countsIn(other));
+
+  const sameRow = candidates
+    .filter(count => count.box.left >= box.left + box.width && Math.abs(verticalCentre(count.box) - centre) < box.height)
+    .sort((a, b) => a.box.left - b.box.left)[0];
+  if (sameRow) return sameRow.value;
+
+  const stacked = candidates
+    .filter(count =>
+      count.box.left < box.left + box.width &&
+      count.box.left + count.box.width > box.left &&
+      Math.abs(verticalCentre(count.box) - centre) < box.height * 3)
+    .sort((a, b) => Math.abs(verticalCentre(a.box) - centre) - Math.abs(verticalCentre(b.box) - centre))[0];
+  return stacked?.value ?? null;
+}
+
+export function parseInsightsText(lines: OcrLine[]): InstagramInsights {
+  const insights: InstagramInsights = {
+    periodDays: null,
+    accountsReached: null,
+    accountsEngaged: null,
+    profileVisits: null,
+    externalLinkTaps: null,
+    followerGrowth: null,
+    totalFollowers: null
+  };
+
+  const period = lines.map(line => line.text.match(PERIOD_PATTERN)).find(Boolean);
+  if (period) insights.periodDays = parseInt(period[1], 10);
+
+  (Object.keys(METRIC_LABELS) as CountField[]).forEach(field => {
+    const index = lines.findIndex(line => METRIC_LABELS[field].test(line.text));
+    if (index !== -1) insights[field] = valueForLabel(lines, index, METRIC_LABELS[field]);
+  });
+
+  // The followers breakdown shows follows and unfollows instead of a net figure
+  if (insights.followerGrowth === null) {
+    const follows = lines.findIndex(line => FOLLOWS_LABEL.test(line.text));
+    const unfollows = lines.findIndex(line => UNFOLLOWS_LABEL.test(line.text));
+    if (follows !== -1 && unfollows !== -1) {
+      const gained = valueForLabel(lines, follows, FOLLOWS_LABEL);
+      const lost = valueForLabel(lines, unfollows, UNFOLLOWS_LABEL);
+      if (gained !== null && lost !== null) insights.followerGrowth = gained - lost;
+    }
+  }
+
+  return insights;
+}
+
+// Several insights screens can be uploaded; the first one showing a value wins
+export function mergeInsights(parts: InstagramInsights[]): InstagramInsights | null {
+  if (parts.length === 0) return null;
+  return parts.slice(1).reduce((merged, part) => {
+    const result = { ...merged };
+    (Object.keys(part) as (keyof InstagramInsights)[]).forEach(key => {
+      if (result[key] === null) result[key] = part[key];
+    });
+    return result;
+  }, parts[0]);
+}
+
+const ratio = (numerator: number | null, denominator: number | null | undefined): number | null =>
+  numerator !== null && denominator ? numerator / denominator : null;
+
+// Followers fall back to the count read from the profile header
+export function insightsRates(insights: InstagramInsights, profileFollowers?: number | null): InsightsRates {
+  const followers = insights.totalFollowers ?? profileFollowers ?? null;
+  const growthPer30Days = insights.followerGrowth !== null
+    ? insights.followerGrowth * (30 / (insights.periodDays ?? 30))
+    : null;
+
+  return {
+    engagementRate: ratio(insights.accountsEngaged, insights.accountsReached),
+    profileVisitRate: ratio(insights.profileVisits, insights.accountsReached),
+    followerGrowthRate: ratio(growthPer30Days, followers),
+    discoveryRate: ratio(insights.accountsReached, followers),
+    linkTapRate: ratio(insights.externalLinkTaps, insights.profileVisits)
+  };
+}
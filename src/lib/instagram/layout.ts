@@ -0,0 +1,291 @@
+import type { BoundingBox, GrayscaleImage } from '@/types/image';
+import type { ProfileLayout } from '@/types/instagram';
+
+// Difference from the background that counts as text, icons or photos
+const INK_THRESHOLD = 24;
+// Photos rarely match the background exactly, so the grid uses a lower bar
+const PHOTO_THRESHOLD = 12;
+// Share of a row that grid photos cover once white or black areas are allowed for
+const GRID_ROW_COVERAGE = 0.6;
+// Rows and columns emptier than this inside the grid are the gaps between tiles
+const GUTTER_COVERAGE = 0.3;
+
+interface Span {
+  start: number;
+  end: number; // exclusive
+}
+
+const boxFromSpans = (x: Span, y: Span): BoundingBox => ({
+  left: x.start,
+  top: y.start,
+  width: x.end - x.start,
+  height: y.end - y.start
+});
+
+// Screenshots are dominated by the plain white or black app background
+function backgroundLevel(image: GrayscaleImage): number {
+  const histogram = new Array<number>(64).fill(0);
+  for (const value of image.data) histogram[value >> 2]++;
+  return histogram.indexOf(Math.max(...histogram)) * 4 + 2;
+}
+
+const isInk = (value: number, background: number, threshold = INK_THRESHOLD): boolean =>
+  Math.abs(value - background) > threshold;
+
+function rowCoverage(image: GrayscaleImage, background: number, left = 0, right = image.width): number[] {
+  const coverage: number[] = [];
+  for (let y = 0; y < image.height; y++) {
+    let count = 0;
+    for (let x = left; x < right; x++) {
+      if (isInk(image.data[y * image.width + x], background, PHOTO_THRESHOLD)) count++;
+    }
+    coverage.push(count / (right - left));
+  }
+  return coverage;
+}
+
+// Groups consecutive matching indices, bridging gaps of up to maxGap misses
+function spans(matches: boolean[], maxGap: number): Span[] {
+  const result: Span[] = [];
+  let current: Span | null = null;
+
+  matches.forEach((match, index) => {
+    if (!match) return;
+    if (current && index - current.end <= maxGap) {
+      current.end = index + 1;
+    } else {
+      current = { start: index, end: index + 1 };
+      result.push(current);
+    }
+  });
+
+  return result;
+}
+
+// Ink segments along one row, merging letters and thin rings into one segment
+function rowSegments(image: GrayscaleImage, background: number, y: number, maxGap: number, right = image.width): Span[] {
+  const matches: boolean[] = [];
+  for (let x = 0; x < right; x++) {
+    matches.push(isInk(image.data[y * image.width + x], background));
+  }
+  return spans(matches, maxGap);
+}
+
+// Finds the empty column between two tile columns, searching around an expected position
+function findGutter(columnCoverage: number[], from: number, to: number): Span | null {
+  let best = from;
+  for (let x = from; x < to; x++) {
+    if (columnCoverage[x] < columnCoverage[best]) best = x;
+  }
+  if (columnCoverage[best] >= GUTTER_COVERAGE) return null;
+
+  let start = best;
+  let end = best + 1;
+  while (start > from && columnCoverage[start - 1] < GUTTER_COVERAGE) start--;
+  while (end < to && columnCoverage[end] < GUTTER_COVERAGE) end++;
+  return { start, end };
+}
+
+function detectGrid(image: GrayscaleImage, background: number): { grid: BoundingBox; tiles: BoundingBox[] } | null {
+  const { width } = image;
+  const coverage = rowCoverage(image, background);
+  const gutterSize = Math.max(4, Math.round(width * 0.012));
+
+  // The grid is the first block of near full-width photos at least a tile tall
+  const photoRows = spans(coverage.map(value => value >= GRID_ROW_COVERAGE), gutterSize)
+    .filter(span => span.end - span.start >= width * 0.25);
+  if (photoRows.length === 0) return null;
+
+  const rows: Span = { start: photoRows[0].start, end: photoRows[photoRows.length - 1].end };
+
+  const columnCoverage: number[] = [];
+  for (let x = 0; x < width; x++) {
+    let count = 0;
+    for (let y = rows.start; y < rows.end; y++) {
+      if (isInk(image.data[y * width + x], background, PHOTO_THRESHOLD)) count++;
+    }
+    columnCoverage.push(count / (rows.end - rows.start));
+  }
+
+  const first = findGutter(columnCoverage, Math.round(width * 0.28), Math.round(width * 0.39));
+  const second = findGutter(columnCoverage, Math.round(width * 0.61), Math.round(width * 0.72));
+  if (!first || !second) return null;
+
+  const columns: Span[] = [
+    { start: 0, end: first.start },
+    { start: first.end, end: second.start },
+    { start: second.end, end: width }
+  ];
+
+  const tileRows = spans(coverage.slice(rows.start, rows.end).map(value => value >= GUTTER_COVERAGE), 0)
+    .map(span => ({ start: span.start + rows.start, end: span.end + rows.start }))
+    .filter(span => span.end - span.start >= width * 0.08);
+
+  return {
+    grid: boxFromSpans({ start: 0, end: width }, rows),
+    tiles: tileRows.flatMap(row => columns.map(column => boxFromSpans(column, row)))
+  };
+}
+
+// Round shapes leave the corners of their bounding box empty; photos and buttons don't
+function hasEmptyCorners(image: GrayscaleImage, background: number, box: BoundingBox): boolean {
+  const size = Math.max(2, Math.round(Math.min(box.width, box.height) * 0.12));
+  const corners = [
+    [box.left, box.top],
+    [box.left + box.width - size, box.top],
+    [box.left, box.top + box.height - size],
+    [box.left + box.width - size, box.top + box.height - size]
+  ];
+
+  return corners.every(([left, top]) => {
+    let count = 0;
+    for (let y = top; y < top + size; y++) {
+      for (let x = left; x < left + size; x++) {
+        if (isInk(image.data[y * image.width + x], background)) count++;
+      }
+    }
+    return count / (size * size) < 0.3;
+  });
+}
+
+// The profile picture is the first large circle on the left above the grid. Only
+// the leftmost segment of each row is used so the stats beside it are ignored.
+function detectProfilePicture(image: GrayscaleImage, background: number, bottom: number): BoundingBox | null {
+  const { width } = image;
+  const right = Math.round(width * 0.4);
+  const maxGap = Math.round(width * 0.03);
+  const extents: (Span | null)[] = [];
+
+  for (let y = 0; y < bottom; y++) {
+    const [first] = rowSegments(image, background, y, maxGap, right);
+    extents.push(first && first.end - first.start >= width * 0.06 ? first : null);
+  }
+
+  const rowGroups = spans(extents.map(extent => extent !== null), Math.max(2, Math.round(width * 0.005)));
+  for (const rowsSpan of rowGroups) {
+    const rows = extents.slice(rowsSpan.start, rowsSpan.end).filter((extent): extent is Span => extent !== null);
+    const box = boxFromSpans(
+      { start: Math.min(...rows.map(row => row.start)), end: Math.max(...rows.map(row => row.end)) },
+      rowsSpan
+    );
+    const aspect = box.width / box.height;
+
+    if (box.height < width * 0.12 || box.height > width * 0.4) continue;
+    if (aspect < 0.75 || aspect > 1.33) continue;
+    if (hasEmptyCorners(image, background, box)) return box;
+  }
+
+  return null;
+}
+
+// Highlights are a row of equal circles; the band where their middle chords are
+// wide enough is used to find the row, and the widest chords give the circles
+function detectHighlightCircles(image: GrayscaleImage, background: number, top: number, bottom: number): BoundingBox[] {
+  const { width } = image;
+  const minDiameter = width * 0.09;
+  const maxDiameter = width * 0.26;
+  const maxGap = Math.round(width * 0.015);
+
+  const segments: Span[][] = [];
+  for (let y = top; y < bottom; y++) {
+    segments.push(rowSegments(image, background, y, maxGap).filter(segment => {
+      const size = segment.end - segment.start;
+      return size >= minDiameter && size <= maxDiameter;
+    }));
+  }
+
+  const band = spans(segments.map(row => row.length > 0), Math.max(2, Math.round(width * 0.005)))
+    .find(span => span.end - span.start >= width * 0.1);
+  if (!band) return [];
+
+  const bandRows = segments.slice(band.start, band.end);
+  const chordTotal = (row: Span[]) => row.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+  const middle = bandRows.reduce((best, row) => chordTotal(row) > chordTotal(best) ? row : best, bandRows[0]);
+  const diameter = Math.max(...middle.map(segment => segment.end - segment.start));
+  const bandHeight = band.end - band.start;
+  if (bandHeight > diameter * 1.2) return [];
+
+  const centre = top + (band.start + band.end) / 2;
+  return middle
+    .filter(segment => segment.end - segment.start >= diameter * 0.75)
+    .map(segment => ({
+      left: segment.start,
+      top: Math.max(0, Math.round(centre - diameter / 2)),
+      width: segment.end - segment.start,
+      height: diameter
+    }));
+}
+
+// The original 15% / 25% / 10% split, tuned for one phone aspect ratio
+export function fixedBandLayout(width: number, height: number): ProfileLayout {
+  const headerHeight = Math.floor(height * 0.15);
+  const bioHeight = Math.floor(height * 0.25);
+  const highlightsHeight = Math.floor(height * 0.1);
+  const gridStart = headerHeight + bioHeight + highlightsHeight;
+
+  const tileSize = Math.floor(width / 3);
+  const tiles: BoundingBox[] = [];
+  for (let top = gridStart; top + tileSize <= height; top += tileSize) {
+    for (let column = 0; column < 3; column++) {
+      tiles.push({ left: column * tileSize, top, width: tileSize, height: tileSize });
+    }
+  }
+
+  return {
+    header: { left: 0, top: 0, width, height: headerHeight },
+    bio: { left: 0, top: headerHeight, width, height: bioHeight },
+    highlights: { left: 0, top: headerHeight + bioHeight, width, height: highlightsHeight },
+    grid: { left: 0, top: gridStart, width, height: height - gridStart },
+    profilePicture: null,
+    highlightCircles: [],
+    gridTiles: tiles,
+    lowConfidence: true
+  };
+}
+
+export function detectProfileLayout(image: GrayscaleImage): ProfileLayout {
+  const { width, height } = image;
+  const background = backgroundLevel(image);
+
+  const grid = detectGrid(image, background);
+  const profilePicture = grid ? detectProfilePicture(image, background, grid.grid.top) : null;
+  if (!grid || !profilePicture) {
+    return fixedBandLayout(width, height);
+  }
+
+  const headerBottom = profilePicture.top + profilePicture.height;
+  const circles = detectHighlightCircles(image, background, headerBottom, grid.grid.top);
+
+  // Highlight labels sit under the circles, so the region extends below them
+  let highlights: BoundingBox | null = null;
+  if (circles.length > 0) {
+    const left = Math.min(...circles.map(circle => circle.left));
+    const right = Math.max(...circles.map(circle => circle.left + circle.width));
+    const top = circles[0].top;
+    const bottom = Math.min(grid.grid.top, top + Math.round(circles[0].height * 1.45));
+    highlights = { left, top, width: right - left, height: bottom - top };
+  }
+
+  const bioBottom = highlights ? highlights.top : grid.grid.top;
+
+  return {
+    header: { left: 0, top: 0, width, height: headerBottom },
+    bio: { left: 0, top: headerBottom, width, height: Math.max(0, bioBottom - headerBottom) },
+    highlights,
+    grid: grid.grid,
+    profilePicture,
+    highlightCircles: circles,
+    gridTiles: grid.tiles,
+    lowConfidence: false
+  };
+}
+
+// For screenshots scrolled past the header, where only the posts are visible
+export function detectPostGrid(image: GrayscaleImage): { grid: BoundingBox; tiles: BoundingBox[] } | null {
+  return detectGrid(image, backgroundLevel(image));
+}
+
+// For screenshots cropped to the highlights row
+export function detectHighlightRow(image: GrayscaleImage): BoundingBox[] {
+  return detectHighlightCircles(image, backgroundLevel(image), 0, image.height);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { auditLinkInBio, classifyDestination, findBookingLink } from '@/lib/instagram/link-in-bio';
+
+describe('classifyDestination', () => {
+  it('recognises booking tools and link pages by their domain', () => {
+    expect(classifyDestination('https://www.fresha.com/a/luxe-hair-leeds')).toEqual({ destination: 'booking', provider: 'Fresha' });
+    expect(classifyDestination('https://luxe.as.me/')).toEqual({ destination: 'booking', provider: 'Acuity' });
+    expect(classifyDestination('https://linktr.ee/luxehair')).toEqual({ destination: 'aggregator', provider: 'Linktree' });
+  });
+
+  it('treats anything else as the salon\'s own website', () => {
+    expect(classifyDestination('https://luxehair.co.uk/book')).toEqual({ destination: 'website', provider: null });
+    // Only the domain itself and its subdomains match
+    expect(classifyDestination('https://notfresha.com/')).toEqual({ destination: 'website', provider: null });
+  });
+});
+
+describe('findBookingLink', () => {
+  const links = [
+    { href: 'https://luxehair.co.uk/appointments', text: 'Book an appointment' },
+    { href: 'https://booksy.com/en-gb/12345_luxe', text: 'Reserve' },
+    { href: 'https://instagram.com/luxehair', text: 'Instagram' }
+  ];
+
+  it('counts an embedded booking tool as no extra taps', () => {
+    expect(findBookingLink(links, ['https://widget.fresha.com/luxe'])).toEqual({ url: 'https://widget.fresha.com/luxe', taps: 0 });
+  });
+
+  it('prefers a link to a booking tool over one labelled as booking', () => {
+    expect(findBookingLink(links, [])).toEqual({ url: 'https://booksy.com/en-gb/12345_luxe', taps: 1 });
+    expect(findBookingLink([links[0], links[2]], [])).toEqual({ url: 'https://luxehair.co.uk/appointments', taps: 1 });
+  });
+
+  it('finds nothing on a page without booking links', () => {
+    expect(findBookingLink([links[2], { href: 'https://luxehair.co.uk/blog', text: 'Our bookshelf' }], [])).toBeNull();
+  });
+});
+
+describe('auditLinkInBio', () => {
+  it('reports an address that isn\'t a URL as broken without opening it', async () => {
+    expect(await auditLinkInBio('luxe hair')).toMatchObject({
+      url: 'luxe hair',
+      destination: 'broken',
+      error: 'The link is not a valid web address'
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import type { HTTPResponse } from 'puppeteer';
+import { launchBrowser } from '@/lib/browser';
+import type { LinkDestinationType, LinkInBioAudit } from '@/types/instagram';
+
+// Hostnames are matched on their registered domain, so subdomains count too
+const BOOKING_PROVIDERS: Record<string, string> = {
+  'fresha.com': 'Fresha',
+  'booksy.com': 'Booksy',
+  'vagaro.com': 'Vagaro',
+  'square.site': 'Square',
+  'squareup.com': 'Square',
+  'glossgenius.com': 'GlossGenius',
+  'styleseat.com': 'StyleSeat',
+  'schedulicity.com': 'Schedulicity',
+  'mindbodyonline.com': 'Mindbody',
+  'acuityscheduling.com': 'Acuity',
+  'as.me': 'Acuity',
+  'calendly.com': 'Calendly',
+  'setmore.com': 'Setmore',
+  'gettimely.com': 'Timely',
+  'treatwell.co.uk': 'Treatwell',
+  'treatwell.com': 'Treatwell',
+  'phorest.com': 'Phorest',
+  'salonized.com': 'Salonized',
+  'zenoti.com': 'Zenoti',
+  'joinblvd.com': 'Boulevard',
+  'mangomint.com': 'Mangomint',
+  'booker.com': 'Booker',
+  'simplybook.me': 'SimplyBook.me',
+  'timetap.com': 'TimeTap'
+};
+
+const LINK_AGGREGATORS: Record<string, string> = {
+  'linktr.ee': 'Linktree',
+  'beacons.ai': 'Beacons',
+  'linkin.bio': 'Later',
+  'lnk.bio': 'Lnk.Bio',
+  'campsite.bio': 'Campsite',
+  'taplink.cc': 'Taplink',
+  'bio.link': 'bio.link',
+  'solo.to': 'solo.to',
+  'hoo.be': 'hoo.be',
+  'stan.store': 'Stan',
+  'carrd.co': 'Carrd',
+  'linkpop.com': 'Linkpop',
+  'msha.ke': 'Milkshake'
+};
+
+const BOOKING_TEXT_PATTERN = /\b(book|booking|appointments?|schedule|reserve)\b/i;
+
+const NAVIGATION_TIMEOUT = 30000;
+// Client-side redirects (meta refresh, JavaScript) are given this long to fire
+const SETTLE_TIME = 1500;
+
+const MOBILE_USER_AGENT = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+export interface PageLink {
+  href: string;
+  text: string;
+}
+
+function providerFor(url: string, providers: Record<string, string>): string | null {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    const domain = Object.keys(providers).find(key => hostname === key || hostname.endsWith(`.${key}`));
+    return domain ? providers[domain] : null;
+  } catch {
+    return null;
+  }
+}
+
+const normalizeUrl = (url: string): string =>
+  /^https?:\/\//i.test(url.trim()) ? url.trim() : `https://${url.trim()}`;
+
+const brokenLink = (url: string, fields: Partial<LinkInBioAudit>): LinkInBioAudit => ({
+  url,
+  finalUrl: null,
+  destination: 'broken',
+  provider: null,
+  redirects: 0,
+  statusCode: null,
+  loadTime: null,
+  bookingTaps: null,
+  bookingUrl: null,
+  error: null,
+  ...fields
+});
+
+// Booking tools first: a link page or site is only a step on the way to one
+export function classifyDestination(finalUrl: string): { destination: LinkDestinationType; provider: string | null } {
+  const bookingProvider = providerFor(finalUrl, BOOKING_PROVIDERS);
+  const aggregator = providerFor(finalUrl, LINK_AGGREGATORS);
+  return {
+    destination: bookingProvider ? 'booking' : aggregator ? 'aggregator' : 'website',
+    provider: bookingProvider ?? aggregator
+  };
+}
+
+// A booking tool link, or failing that a link or embed labelled as booking
+export function findBookingLink(links: PageLink[], frames: string[]): { url: string; taps: number } | null {
+  const embedded = frames.find(src => providerFor(src, BOOKING_PROVIDERS));
+  if (embedded) return { url: embedded, taps: 0 };
+
+  const toProvider = links.find(link => providerFor(link.href, BOOKING_PROVIDERS));
+  const labelled = links.find(link => BOOKING_TEXT_PATTERN.test(link.text));
+  const link = toProvider ?? labelled;
+  return link ? { url: link.href, taps: 1 } : null;
+}
+
+// Opens the link the way a follower would and reports where it ends up. Load
+// failures are reported as a broken destination rather than thrown.
+export async function auditLinkInBio(link: string): Promise<LinkInBioAudit> {
+  const url = normalizeUrl(link);
+  try {
+    new URL(url);
+  } catch {
+    return brokenLink(link, { error: 'The link is not a valid web address' });
+  }
+
+  const browser = await launchBrowser();
+
+  try {
+    const page = await browser.newPage();
+    await page.setUserAgent(MOBILE_USER_AGENT);
+    await page.setViewport({ width: 375, height: 812, isMobile: true, hasTouch: true });
+    page.setDefaultNavigationTimeout(NAVIGATION_TIMEOUT);
+
+    // Every main-frame navigation after the first is a client-side redirect
+    let navigations = 0;
+    page.on('framenavigated', frame => {
+      if (frame === page.mainFrame()) navigations++;
+    });
+
+    const startTime = Date.now();
+    let response: HTTPResponse | null;
+    try {
+      response = await page.goto(url, { waitUntil: 'load' });
+    } catch (error) {
+      return brokenLink(link, { error: error instanceof Error ? error.message : 'The link did not load' });
+    }
+    const loadTime = Date.now() - startTime;
+    await new Promise(resolve => setTimeout(resolve, SETTLE_TIME));
+
+    const httpRedirects = response?.request().redirectChain().length ?? 0;
+    const redirects = httpRedirects + Math.max(0, navigations - 1);
+    const statusCode = response?.status() ?? null;
+    const finalUrl = page.url();
+
+    if (!response || (statusCode !== null && statusCode >= 400)) {
+      return brokenLink(link, {
+        finalUrl,
+        redirects,
+        statusCode,
+        loadTime,
+        error: statusCode ? `The page returned status ${statusCode}` : 'No response from the link'
+      });
+    }
+
+    const { links, frames } = await page.evaluate(() => ({
+      links: Array.from(document.querySelectorAll('a[href]')).map(anchor => ({
+        href: (anchor as HTMLAnchorElement).href,
+        text: (anchor.textContent || anchor.getAttribute('aria-label') || '').trim()
+      })),
+      frames: Array.from(document.querySelectorAll('iframe[src]')).map(frame => (frame as HTMLIFrameElement).src)
+    }));
+
+    const { destination, provider } = classifyDestination(finalUrl);
+    const booking = destination === 'booking' ? { url: finalUrl, taps: 0 } : findBookingLink(links, frames);
+
+    return {
+      url: link,
+      finalUrl,
+      destination,
+      provider,
+      redirects,
+      statusCode,
+      loadTime,
+      bookingTaps: booking?.taps ?? null,
+      bookingUrl: booking?.url ?? null,
+      error: null
+    };
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,128 @@
+import sharp from 'sharp';
+import type { BoundingBox } from '@/types/image';
+import type { PinnedPostsDetection, PinnedTile, ProfileLayout } from '@/types/instagram';
+
+// Only the first row of the grid can hold pinned posts
+const PINNED_TILE_COUNT = 3;
+
+// Tile corners are resized so a whole tile would be this wide before matching
+const TILE_WIDTH = 120;
+// The glyph sits in the top-right corner, roughly 12-17% of the tile width across
+const CORNER_SHARE = 0.4;
+const TEMPLATE_SIZES = [14, 17, 20];
+
+// Normalised cross-correlation needed to call a tile pinned. Carousel and reel
+// icons in the same corner score around 0.4-0.5.
+const PIN_THRESHOLD = 0.65;
+
+// Instagram's white thumbtack, drawn upright in a 24px box and tilted 45 degrees
+const PIN_GLYPH = `
+  <g transform="rotate(45 12 12)" fill="#fff">
+    <rect x="8" y="2" width="8" height="2.5" rx="0.5"/>
+    <polygon points="9.5,4.5 14.5,4.5 14,10 17,13 7,13 10,10"/>
+    <rect x="11.4" y="13" width="1.2" height="8"/>
+  </g>`;
+
+interface Template {
+  size: number;
+  values: Float64Array; // zero-mean
+  norm: number;
+}
+
+let templatesPromise: Promise<Template[]> | null = null;
+
+async function renderTemplate(size: number): Promise<Template> {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 24 24">
+    <rect width="24" height="24" fill="#000"/>${PIN_GLYPH}</svg>`;
+  const { data } = await sharp(Buffer.from(svg))
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const mean = data.reduce((sum, value) => sum + value, 0) / data.length;
+  const values = Float64Array.from(data, value => value - mean);
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+  return { size, values, norm };
+}
+
+function getTemplates(): Promise<Template[]> {
+  if (!templatesPromise) {
+    templatesPromise = Promise.all(TEMPLATE_SIZES.map(renderTemplate)).catch(error => {
+      templatesPromise = null;
+      throw error;
+    });
+  }
+  return templatesPromise;
+}
+
+// Best normalised cross-correlation of the template anywhere in the corner
+function bestMatch(corner: Uint8Array, width: number, height: number, template: Template): number {
+  const { size, values, norm } = template;
+  const area = size * size;
+  let best = -1;
+
+  for (let top = 0; top + size <= height; top++) {
+    for (let left = 0; left + size <= width; left++) {
+      let sum = 0;
+      let squares = 0;
+      let product = 0;
+
+      for (let y = 0; y < size; y++) {
+        const row = (top + y) * width + left;
+        for (let x = 0; x < size; x++) {
+          const pixel = corner[row + x];
+          sum += pixel;
+          squares += pixel * pixel;
+          product += pixel * values[y * size + x];
+        }
+      }
+
+      // The template is zero-mean, so the patch mean drops out of the product
+      const variance = squares - (sum * sum) / area;
+      if (variance <= 0) continue;
+      best = Math.max(best, product / (Math.sqrt(variance) * norm));
+    }
+  }
+
+  return best;
+}
+
+async function matchTile(image: Buffer, tile: BoundingBox, templates: Template[]): Promise<number> {
+  const cornerSize = Math.max(1, Math.round(tile.width * CORNER_SHARE));
+  const corner: BoundingBox = {
+    left: tile.left + tile.width - cornerSize,
+    top: tile.top,
+    width: cornerSize,
+    height: Math.min(cornerSize, tile.height)
+  };
+  const scaledSize = Math.round(TILE_WIDTH * CORNER_SHARE);
+
+  const { data, info } = await sharp(image)
+    .extract(corner)
+    .resize({ width: scaledSize, height: Math.max(1, Math.round(scaledSize * corner.height / corner.width)), fit: 'fill' })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return Math.max(...templates.map(template => bestMatch(data, info.width, info.height, template)));
+}
+
+export async function detectPinnedPosts(image: Buffer, layout: ProfileLayout): Promise<PinnedPostsDetection> {
+  const templates = await getTemplates();
+  const tiles: PinnedTile[] = [];
+
+  for (const box of layout.gridTiles.slice(0, PINNED_TILE_COUNT)) {
+    const score = await matchTile(image, box, templates);
+    tiles.push({ box, score: Math.round(score * 100) / 100, pinned: score >= PIN_THRESHOLD });
+  }
+
+  if (tiles.length === 0) {
+    return { tiles, confidence: 0 };
+  }
+
+  // Scores close to the threshold are coin flips; guessed tile positions halve the confidence
+  const margin = tiles.reduce((sum, tile) => sum + Math.min(1, Math.abs(tile.score - PIN_THRESHOLD) / 0.3), 0) / tiles.length;
+  const confidence = layout.lowConfidence ? margin / 2 : margin;
+
+  return { tiles, confidence: Math.round(confidence * 100) / 100 };
+}
@@ -0,0 +1,69 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { assessProfilePicture } from '@/lib/instagram/profile-picture';
+import type { BoundingBox } from '@/types/image';
+
+type Rgb = [number, number, number];
+
+// A profile header on a white page with the avatar drawn inside `circle`
+async function avatar(circle: BoundingBox, paint: (x: number, y: number) => Rgb): Promise<Buffer> {
+  const size = circle.left * 2 + circle.width;
+  const data = Buffer.alloc(size * size * 3, 255);
+  const radius = circle.width / 2;
+  const centre = circle.left + radius;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if ((x - centre) ** 2 + (y - centre) ** 2 > radius ** 2) continue;
+      data.set(paint(x - circle.left, y - circle.left), (y * size + x) * 3);
+    }
+  }
+  return sharp(data, { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+}
+
+const circleOf = (diameter: number): BoundingBox => ({ left: 40, top: 40, width: diameter, height: diameter });
+
+// A white bar across a navy background
+const logo = (diameter: number) => (x: number, y: number): Rgb =>
+  Math.abs(y - diameter / 2) < diameter / 10 && Math.abs(x - diameter / 2) < diameter / 3 ? [255, 255, 255] : [20, 40, 90];
+
+// Deterministic noise, so every run sees the same picture
+const noise = (x: number, y: number): number => ((x * 73856093) ^ (y * 19349663)) % 97;
+
+// Each check reads the picture's text twice, which is slow on noisy pictures
+describe('assessProfilePicture', { timeout: 30000 }, () => {
+  it('recognises a flat logo with a contrasting mark', async () => {
+    const circle = circleOf(200);
+    const result = await assessProfilePicture(await avatar(circle, logo(200)), circle);
+
+    expect(result.kind).toBe('logo');
+    expect(result.diameter).toBe(200);
+    expect(result.contrast).toBeGreaterThan(0.15);
+    expect(result.image).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('recognises skin tones as a face', async () => {
+    const circle = circleOf(200);
+    const face = await avatar(circle, (x, y) => [200 + noise(x, y) % 40, 150 + noise(y, x) % 30, 120 + noise(x, x + y) % 25]);
+
+    expect((await assessProfilePicture(face, circle)).kind).toBe('face');
+  });
+
+  it('recognises busy colors as a photo', async () => {
+    const circle = circleOf(200);
+    const photo = await avatar(circle, (x, y) => [noise(x, y) * 2, noise(y, x) * 2, noise(x + y, y) * 2]);
+
+    expect((await assessProfilePicture(photo, circle)).kind).toBe('photo');
+  });
+
+  it('scores a small, soft picture below a large, sharp one', async () => {
+    const large = circleOf(200);
+    const small = circleOf(80);
+    const blurred = await sharp(await avatar(small, logo(80))).blur(3).toBuffer();
+
+    const largeResult = await assessProfilePicture(await avatar(large, logo(200)), large);
+    const smallResult = await assessProfilePicture(blurred, small);
+
+    expect(smallResult.sharpness).toBeLessThan(largeResult.sharpness);
+    expect(smallResult.score).toBeLessThan(largeResult.score);
+  });
+});
@@ -0,0 +1,250 @@
+import sharp from 'sharp';
+import { isSkin } from '@/lib/image';
+import { thresholdCredit } from '@/lib/scoring';
+import { recognizeText } from '@/lib/ocr';
+import type { BoundingBox } from '@/types/image';
+import { PROFILE_PICTURE_THRESHOLDS, type ProfilePictureKind, type ProfilePictureQuality } from '@/types/instagram';
+
+// A story ring is separated from the picture by a gap in the app background;
+// without one the picture fills the circle up to its anti-aliased edge
+const RING_SEARCH = { outer: 0.98, inner: 0.75, step: 0.01 };
+const GAP_COLOR_DISTANCE = 24;
+const PICTURE_RADIUS = 0.97;
+// The subject is judged from the middle of the circle against the band just inside the crop
+const CENTRE_RADIUS = 0.5;
+const EDGE_RADIUS = { inner: 0.75, outer: 0.95 };
+
+// Logos are a few flat colors; colors are bucketed to 4 bits per channel. A
+// portrait on a plain backdrop is flat too, so skin wins unless it's almost all flat.
+const LOGO_COLOR_SHARE = 0.6;
+const FLAT_GRAPHIC_SHARE = 0.85;
+const LOGO_COLORS = 3;
+const FACE_SKIN_SHARE = 0.15;
+const MIN_MARK_SHARE = 0.02;
+
+// Avatars next to posts and comments are drawn about this wide
+const FEED_SIZE = 40;
+const MIN_TEXT_CONFIDENCE = 60;
+// Share of the full-size words that must still be read at feed size
+const LEGIBLE_SHARE = 0.5;
+
+const DATA_URL_SIZE = 160;
+
+type Rgb = [number, number, number];
+
+interface DominantColor {
+  color: Rgb;
+  share: number;
+}
+
+interface Crop {
+  pixels: Rgb[];
+  luma: number[];
+  size: number;
+  inside: boolean[];
+}
+
+const lumaOf = ([r, g, b]: Rgb): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Distance from the centre of the square as a share of its radius
+const radiusAt = (index: number, size: number): number => {
+  const centre = (size - 1) / 2;
+  const x = index % size;
+  const y = Math.floor(index / size);
+  return Math.sqrt((x - centre) ** 2 + (y - centre) ** 2) / (size / 2);
+};
+
+const colorDistance = (a: Rgb, b: Rgb): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+const averageColor = (pixels: Rgb[]): Rgb => {
+  const sum = pixels.reduce<Rgb>((total, pixel) => [total[0] + pixel[0], total[1] + pixel[1], total[2] + pixel[2]], [0, 0, 0]);
+  return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length];
+};
+
+// Walks inwards from the edge of the circle looking for a ring of background color.
+// The corners of the box, outside the circle, give the background.
+function pictureRadius(crop: Crop): number {
+  const radii = crop.pixels.map((_, i) => radiusAt(i, crop.size));
+  const background = averageColor(crop.pixels.filter((_, i) => radii[i] > 1.1));
+
+  for (let radius = RING_SEARCH.outer; radius >= RING_SEARCH.inner; radius -= RING_SEARCH.step) {
+    const ring = crop.pixels.filter((_, i) => radii[i] <= radius && radii[i] > radius - RING_SEARCH.step);
+    if (ring.length > 0 && colorDistance(averageColor(ring), background) < GAP_COLOR_DISTANCE) {
+      return radius - RING_SEARCH.step;
+    }
+  }
+  return PICTURE_RADIUS;
+}
+
+function pictureBox(box: BoundingBox, radius: number, image: { width: number; height: number }): BoundingBox {
+  const size = Math.floor(Math.min(box.width, box.height) * radius);
+  const left = Math.round(box.left + (box.width - size) / 2);
+  const top = Math.round(box.top + (box.height - size) / 2);
+  return {
+    left: Math.max(0, left),
+    top: Math.max(0, top),
+    width: Math.min(size, image.width - Math.max(0, left)),
+    height: Math.min(size, image.height - Math.max(0, top))
+  };
+}
+
+async function readCrop(image: Buffer, box: BoundingBox): Promise<Crop> {
+  const size = Math.min(box.width, box.height);
+  const { data } = await sharp(image)
+    .extract({ ...box, width: size, height: size })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels: Rgb[] = [];
+  for (let i = 0; i < data.length; i += 3) {
+    pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  return {
+    pixels,
+    luma: pixels.map(lumaOf),
+    size,
+    inside: pixels.map((_, i) => radiusAt(i, size) <= 1)
+  };
+}
+
+// Variance of the 4-neighbour Laplacian, over pixels whose neighbours are all in the circle
+function laplacianVariance(crop: Crop): number {
+  const { luma, size } = crop;
+  const values: number[] = [];
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const i = y * size + x;
+      if (radiusAt(i, size) > 0.95) continue;
+      values.push(luma[i - 1] + luma[i + 1] + luma[i - size] + luma[i + size] - 4 * luma[i]);
+    }
+  }
+  const mean = average(values);
+  return average(values.map(value => (value - mean) ** 2));
+}
+
+function edgeContrast(crop: Crop): number {
+  const centre: number[] = [];
+  const edge: number[] = [];
+  crop.luma.forEach((value, i) => {
+    const radius = radiusAt(i, crop.size);
+    if (radius <= CENTRE_RADIUS) centre.push(value);
+    else if (radius >= EDGE_RADIUS.inner && radius <= EDGE_RADIUS.outer) edge.push(value);
+  });
+  return Math.abs(average(centre) - average(edge)) / 255;
+}
+
+// The mark can be a small share of the picture, so any color with a few percent counts
+const logoContrast = (colors: DominantColor[]): number => {
+  const marks = colors.slice(1).filter(color => color.share >= MIN_MARK_SHARE);
+  return Math.max(0, ...marks.map(mark => Math.abs(lumaOf(colors[0].color) - lumaOf(mark.color)) / 255));
+};
+
+// Colors inside the circle, bucketed, most common first
+function dominantColors(crop: Crop): DominantColor[] {
+  const pixels = crop.pixels.filter((_, i) => crop.inside[i]);
+  const buckets = new Map<number, Rgb[]>();
+  pixels.forEach(pixel => {
+    const key = ((pixel[0] >> 4) << 8) | ((pixel[1] >> 4) << 4) | (pixel[2] >> 4);
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(pixel);
+    else buckets.set(key, [pixel]);
+  });
+  return [...buckets.values()]
+    .sort((a, b) => b.length - a.length)
+    .map(bucket => ({ color: averageColor(bucket), share: bucket.length / pixels.length }));
+}
+
+function classify(crop: Crop, colors: DominantColor[]): ProfilePictureKind {
+  const pixels = crop.pixels.filter((_, i) => crop.inside[i]);
+  const topShare = colors.slice(0, LOGO_COLORS).reduce((sum, color) => sum + color.share, 0);
+  const skinShare = pixels.filter(isSkin).length / pixels.length;
+
+  if (skinShare >= FACE_SKIN_SHARE && topShare < FLAT_GRAPHIC_SHARE) return 'face';
+  return topShare >= LOGO_COLOR_SHARE ? 'logo' : 'photo';
+}
+
+const wordsIn = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9&]{2,}/g) || []);
+
+// Reads the avatar at full size, then again after shrinking it to feed size
+async function readText(image: Buffer, box: BoundingBox): Promise<{ hasText: boolean; textLegible: boolean | null }> {
+  const crop = await sharp(image).extract(box).png().toBuffer();
+  try {
+    const full = await recognizeText(crop);
+    const words = full.lines
+      .flatMap(line => line.words)
+      .filter(word => word.confidence >= MIN_TEXT_CONFIDENCE)
+      .flatMap(word => wordsIn(word.text));
+    if (words.length === 0) return { hasText: false, textLegible: null };
+
+    const small = await sharp(crop).resize(FEED_SIZE, FEED_SIZE).png().toBuffer();
+    const read = new Set(wordsIn((await recognizeText(small)).text));
+    const kept = words.filter(word => read.has(word)).length;
+    return { hasText: true, textLegible: kept / words.length >= LEGIBLE_SHARE };
+  } catch (error) {
+    console.error('Error reading profile picture text:', error);
+    return { hasText: false, textLegible: null };
+  }
+}
+
+// Circular PNG, as Instagram shows it
+async function toDataUrl(image: Buffer, box: BoundingBox): Promise<string> {
+  const mask = Buffer.from(
+    `<svg width="${DATA_URL_SIZE}" height="${DATA_URL_SIZE}"><circle cx="${DATA_URL_SIZE / 2}" cy="${DATA_URL_SIZE / 2}" r="${DATA_URL_SIZE / 2}"/></svg>`
+  );
+  const png = await sharp(image)
+    .extract(box)
+    .resize(DATA_URL_SIZE, DATA_URL_SIZE, { fit: 'fill' })
+    .ensureAlpha()
+    .composite([{ input: mask, blend: 'dest-in' }])
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+// Crops the avatar out of a profile screenshot and checks it the way a client
+// sees it: big and sharp enough, standing out from its background, and with
+// any text still readable when it's shrunk next to a post
+export async function assessProfilePicture(image: Buffer, circle: BoundingBox): Promise<ProfilePictureQuality> {
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  const outline = await readCrop(image, pictureBox(circle, 1, { width, height }));
+  const box = pictureBox(circle, pictureRadius(outline), { width, height });
+  const crop = await readCrop(image, box);
+
+  const diameter = Math.min(circle.width, circle.height);
+  const sharpness = laplacianVariance(crop);
+  const colors = dominantColors(crop);
+  const kind = classify(crop, colors);
+  // Photos are judged on the subject against the edge of the crop, logos on the mark against its background
+  const contrast = kind === 'logo' ? logoContrast(colors) : edgeContrast(crop);
+  const { hasText, textLegible } = await readText(image, box);
+
+  // Faces and logos are what clients recognise; a generic photo gets half
+  const kindCredit = kind === 'photo' ? 0.5 : 1;
+  const score = 100 * (
+    0.2 * thresholdCredit(diameter, PROFILE_PICTURE_THRESHOLDS.diameter) +
+    0.25 * thresholdCredit(sharpness, PROFILE_PICTURE_THRESHOLDS.sharpness) +
+    0.2 * thresholdCredit(contrast, PROFILE_PICTURE_THRESHOLDS.contrast) +
+    0.2 * kindCredit +
+    0.15 * (textLegible === false ? 0 : 1)
+  );
+
+  return {
+    score: Math.round(score),
+    kind,
+    diameter,
+    sharpness: Math.round(sharpness),
+    contrast: round(contrast),
+    hasText,
+    textLegible,
+    image: await toDataUrl(image, box)
+  };
+}
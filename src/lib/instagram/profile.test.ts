@@ -0,0 +1,78 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { fetchInstagramProfile, fixtureProfileFetcher, parseCount, parseProfileHtml } from '@/lib/instagram/profile';
+
+const fetcher = fixtureProfileFetcher(path.join(__dirname, '__fixtures__/profiles'));
+
+describe('parseProfileHtml', () => {
+  it('reads everything a public profile page embeds', async () => {
+    const profile = await fetchInstagramProfile('@luxe.salon', fetcher);
+
+    expect(profile).toEqual({
+      handle: 'luxe.salon',
+      displayName: 'Luxe Hair & Beauty',
+      bioText: 'Award-winning colour studio in Leeds ✨\nBalayage · Cuts · Bridal\nBook online ↓',
+      linkInBio: 'https://luxesalon.co.uk/book',
+      highlightCount: 6,
+      postCount: 842,
+      pinnedPostCount: 2,
+      businessCategory: 'Hair Salon',
+      followerCount: 12480,
+      followingCount: 310,
+      hasProfilePicture: true
+    });
+  });
+
+  it('falls back to the meta tags on a logged-out page', async () => {
+    const profile = await fetchInstagramProfile('glowstudio', fetcher);
+
+    expect(profile).toMatchObject({
+      displayName: 'Glow Studio',
+      bioText: 'Lashes, brows & facials in Bristol. DM to book',
+      linkInBio: null,
+      businessCategory: null,
+      postCount: 96,
+      followerCount: 1204,
+      followingCount: 488,
+      // Only the page's JSON lists highlights and pinned posts
+      highlightCount: null,
+      pinnedPostCount: null,
+      hasProfilePicture: true
+    });
+  });
+
+  it('reads the counts of a private profile but no bio', async () => {
+    const profile = await fetchInstagramProfile('privatebrows', fetcher);
+
+    expect(profile).toMatchObject({
+      displayName: 'Brow Bar by Mia',
+      bioText: '',
+      postCount: 27,
+      followerCount: 342,
+      followingCount: 150,
+      highlightCount: null,
+      pinnedPostCount: null,
+      // The page shows Instagram's default avatar
+      hasProfilePicture: false
+    });
+  });
+
+  it('rejects a page without any profile data', async () => {
+    await expect(fetchInstagramProfile('loginwall', fetcher)).rejects.toThrow('may be private or require a login');
+    expect(() => parseProfileHtml('<html></html>', 'someone')).toThrow('@someone');
+  });
+
+  it('rejects invalid and unknown handles', async () => {
+    await expect(fetchInstagramProfile('not a handle', fetcher)).rejects.toThrow('valid Instagram handle');
+    await expect(fetchInstagramProfile('nobody', fetcher)).rejects.toThrow('@nobody was not found');
+  });
+});
+
+describe('parseCount', () => {
+  it('reads abbreviated and separated counts', () => {
+    expect(parseCount('12.5K')).toBe(12500);
+    expect(parseCount('1,204')).toBe(1204);
+    expect(parseCount('3M')).toBe(3000000);
+    expect(parseCount('none')).toBe(0);
+  });
+});
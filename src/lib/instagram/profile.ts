@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { launchBrowser } from '@/lib/browser';
+import type { InstagramProfile } from '@/types/instagram';
+
+// Returns the raw HTML of a public profile page for the given handle
+export type ProfileFetcher = (handle: string) => Promise<string>;
+
+const HANDLE_PATTERN = /^[a-zA-Z0-9._]{1,30}$/;
+
+// Instagram serves this image for accounts without a profile picture
+const DEFAULT_AVATAR_ID = '44884218_345707102882519_2446069589734326272_n';
+
+export const puppeteerProfileFetcher: ProfileFetcher = async (handle) => {
+  const browser = await launchBrowser();
+
+  try {
+    const page = await browser.newPage();
+    await page.setViewport({ width: 375, height: 812 });
+    page.setDefaultNavigationTimeout(60000);
+    page.setDefaultTimeout(60000);
+
+    const response = await page.goto(`https://www.instagram.com/${handle}/`, {
+      waitUntil: ['domcontentloaded', 'networkidle2'],
+      timeout: 60000
+    });
+
+    if (response?.status() === 404) {
+      throw new Error(`Instagram profile @${handle} was not found`);
+    }
+
+    return await page.content();
+  } finally {
+    await browser.close();
+  }
+};
+
+// Reads saved profile pages named <handle>.html, so tests never hit the live site
+export const fixtureProfileFetcher = (directory: string): ProfileFetcher => async (handle) => {
+  try {
+    return await fs.readFile(path.join(directory, `${handle}.html`), 'utf8');
+  } catch {
+    throw new Error(`Instagram profile @${handle} was not found`);
+  }
+};
+
+export function getProfileFetcher(): ProfileFetcher {
+  const fixturesDir = process.env.INSTAGRAM_FIXTURES_DIR;
+  return fixturesDir ? fixtureProfileFetcher(fixturesDir) : puppeteerProfileFetcher;
+}
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const metaContent = (html: string, attribute: 'name' | 'property', value: string): string | null => {
+  const tags = html.match(/<meta\b[^>]*>/gi) || [];
+  for (const tag of tags) {
+    if (!new RegExp(`\\b${attribute}=["']${value}["']`, 'i').test(tag)) continue;
+    const content = tag.match(/\bcontent=(["'])([\s\S]*?)\1/i);
+    if (content) return decodeEntities(content[2]);
+  }
+  return null;
+};
+
+const jsonString = (html: string, key: string): string | null => {
+  const match = html.match(new RegExp(`"${key}":"((?:[^"\\\\]|\\\\.)*)"`));
+  if (!match) return null;
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch {
+    return null;
+  }
+};
+
+const jsonNumber = (html: string, key: string): number | null => {
+  const match = html.match(new RegExp(`"${key}":(?:\\{"count":)?(\\d+)`));
+  return match ? parseInt(match[1], 10) : null;
+};
+
+// Parses "1,234", "12.5K" or "3M" style counts
+export function parseCount(text: string): number {
+  const match = text.replace(/,/g, '').trim().match(/^([\d.]+)\s*([KMB])?/i);
+  if (!match) return 0;
+  const multiplier = { K: 1e3, M: 1e6, B: 1e9 }[(match[2] || '').toUpperCase() as 'K' | 'M' | 'B'] || 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+const countFromSummary = (summary: string, label: string): number | null => {
+  const match = summary.match(new RegExp(`([\\d.,]+\\s*[KMB]?)\\s+${label}`, 'i'));
+  return match ? parseCount(match[1]) : null;
+};
+
+export function parseProfileHtml(html: string, handle: string): InstagramProfile {
+  // "1,234 Followers, 56 Following, 78 Posts - Name (@handle) on Instagram: "bio""
+  const summary = metaContent(html, 'name', 'description') || metaContent(html, 'property', 'og:description') || '';
+  const title = metaContent(html, 'property', 'og:title') || '';
+  // Highlights and pins are only in the page's JSON; the meta tags carry the other counts
+  const hasProfileJson = html.includes('"edge_followed_by"');
+  const hasProfileData = hasProfileJson || /[\d.,]+\s*[KMB]?\s+Followers/i.test(summary);
+
+  if (!hasProfileData) {
+    throw new Error(`Could not read the Instagram profile @${handle}. It may be private or require a login.`);
+  }
+
+  const summaryBio = summary.match(/on Instagram:\s*"([\s\S]*)"\s*$/);
+  const summaryName = (summary.match(/-\s*(?:See Instagram photos and videos from\s*)?(.+?)\s*\(@/) || title.match(/^(.+?)\s*\(@/) || [])[1];
+  const profilePicture = jsonString(html, 'profile_pic_url_hd') || jsonString(html, 'profile_pic_url') || metaContent(html, 'property', 'og:image');
+
+  return {
+    handle,
+    displayName: jsonString(html, 'full_name') || summaryName || '',
+    bioText: jsonString(html, 'biography') ?? (summaryBio ? summaryBio[1] : ''),
+    linkInBio: jsonString(html, 'external_url') || null,
+    highlightCount: jsonNumber(html, 'highlight_reel_count'),
+    postCount: jsonNumber(html, 'edge_owner_to_timeline_media') ?? countFromSummary(summary, 'Posts'),
+    pinnedPostCount: hasProfileJson ? (html.match(/"pinned_for_users":\[\{/g) || []).length : null,
+    businessCategory: jsonString(html, 'category_name') || jsonString(html, 'business_category_name') || null,
+    followerCount: jsonNumber(html, 'edge_followed_by') ?? countFromSummary(summary, 'Followers'),
+    followingCount: jsonNumber(html, 'edge_follow') ?? countFromSummary(summary, 'Following'),
+    hasProfilePicture: profilePicture ? !profilePicture.includes(DEFAULT_AVATAR_ID) : false
+  };
+}
+
+export async function fetchInstagramProfile(handle: string, fetcher: ProfileFetcher = getProfileFetcher()): Promise<InstagramProfile> {
+  const normalizedHandle = handle.trim().replace(/^@/, '');
+  if (!HANDLE_PATTERN.test(normalizedHandle)) {
+    throw new Error('Please enter a valid Instagram handle');
+  }
+
+  const html = await fetcher(normalizedHandle);
+  return parseProfileHtml(html, normalizedHandle);
+}
@@ -0,0 +1,74 @@
+import { recognizeText, type OcrResult } from '@/lib/ocr';
+import { detectHighlightRow, detectPostGrid, detectProfileLayout } from '@/lib/instagram/layout';
+import type { BoundingBox, GrayscaleImage } from '@/types/image';
+import type { ProfileLayout, ScreenshotType } from '@/types/instagram';
+
+// Headings on the professional dashboard and insights screens
+const INSIGHTS_PATTERN = /\b(accounts reached|accounts engaged|profile activity|profile visits|external link taps|insights|professional dashboard)\b/i;
+const STATS_PATTERN = /\bfollowers\b[\s\S]*\bfollowing\b/i;
+// A single post shows its like count above the caption
+const POST_PATTERN = /^(liked by\b|[\d.,]+[KM]? likes?\b)/im;
+
+// A scrolled grid screenshot is mostly posts
+const MIN_GRID_SHARE = 0.4;
+const MIN_HIGHLIGHTS = 2;
+
+export interface ScreenshotScan {
+  type: ScreenshotType;
+  image: GrayscaleImage;
+  layout: ProfileLayout;
+  // Null when OCR failed; every other type can still be detected from pixels
+  text: OcrResult | null;
+  gridTiles: BoundingBox[];
+  // Set when the tiles are the fixed-band guess rather than a detected grid
+  gridTilesEstimated: boolean;
+  highlightCircles: BoundingBox[];
+}
+
+async function readText(image: Buffer): Promise<OcrResult | null> {
+  try {
+    return await recognizeText(image);
+  } catch (error) {
+    console.error('Error reading screenshot text:', error);
+    return null;
+  }
+}
+
+// Works out which part of Instagram a screenshot shows, keeping the layout and
+// text so the caller doesn't have to detect them again
+export async function classifyScreenshot(imageBuffer: Buffer, image: GrayscaleImage): Promise<ScreenshotScan> {
+  const layout = detectProfileLayout(image);
+  const text = await readText(imageBuffer);
+  const scan = { image, layout, text, gridTiles: layout.gridTiles, gridTilesEstimated: false, highlightCircles: layout.highlightCircles };
+
+  if (text && INSIGHTS_PATTERN.test(text.text) && !STATS_PATTERN.test(text.text)) {
+    return { ...scan, type: 'insights', gridTiles: [], highlightCircles: [] };
+  }
+
+  if (text && POST_PATTERN.test(text.text) && !STATS_PATTERN.test(text.text)) {
+    return { ...scan, type: 'post', gridTiles: [], highlightCircles: [] };
+  }
+
+  if (!layout.lowConfidence) {
+    return { ...scan, type: 'profile' };
+  }
+
+  // The header wasn't found, but the grid below it may still be
+  const grid = detectPostGrid(image);
+  if (text && STATS_PATTERN.test(text.text)) {
+    return grid
+      ? { ...scan, type: 'profile', gridTiles: grid.tiles }
+      : { ...scan, type: 'profile', gridTilesEstimated: true };
+  }
+
+  if (grid && grid.grid.height >= image.height * MIN_GRID_SHARE) {
+    return { ...scan, type: 'grid', gridTiles: grid.tiles, highlightCircles: [] };
+  }
+
+  const highlightCircles = detectHighlightRow(image);
+  if (highlightCircles.length >= MIN_HIGHLIGHTS) {
+    return { ...scan, type: 'highlights', gridTiles: [], highlightCircles };
+  }
+
+  return { ...scan, type: 'unknown', gridTiles: [], highlightCircles: [] };
+}
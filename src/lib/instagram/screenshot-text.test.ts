@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { OcrLine } from '@/lib/ocr';
+import { parsePostCaption, parseProfileText } from '@/lib/instagram/screenshot-text';
+
+// OCR lines stacked down the screenshot, one word box per word
+const lines = (...texts: (string | [string, number])[]): OcrLine[] =>
+  texts.map((entry, index) => {
+    const [text, confidence] = typeof entry === 'string' ? [entry, 90] : entry;
+    const box = { left: 20, top: 40 * index, width: 300, height: 30 };
+    return { text, confidence, box, words: text.split(' ').map(word => ({ text: word, confidence, box })) };
+  });
+
+describe('parseProfileText', () => {
+  it('reads a profile header with the counts above their labels', () => {
+    const text = parseProfileText(lines(
+      'luxe.salon',
+      '842 12.5K 310',
+      'posts followers following',
+      'Luxe Hair & Beauty',
+      'Hair Salon',
+      'Award-winning colour studio in Leeds',
+      'Balayage, cuts and bridal',
+      'luxesalon.co.uk/book',
+      'Following Message Contact'
+    ), 88);
+
+    expect(text).toEqual({
+      handle: 'luxe.salon',
+      displayName: 'Luxe Hair & Beauty',
+      businessCategory: 'Hair Salon',
+      bioText: 'Award-winning colour studio in Leeds\nBalayage, cuts and bridal',
+      linkInBio: 'luxesalon.co.uk/book',
+      postCount: 842,
+      followerCount: 12500,
+      followingCount: 310,
+      confidence: 88
+    });
+  });
+
+  it('reads counts written inline with their labels and skips illegible lines', () => {
+    const text = parseProfileText(lines(
+      '@glowstudio',
+      ['~~ ## ~~', 12],
+      '96 posts 1,204 followers 488 following',
+      'Glow Studio',
+      'Facials and skin care in Bristol',
+      'See translation',
+      'Follow Message'
+    ), 75);
+
+    expect(text).toMatchObject({
+      handle: 'glowstudio',
+      displayName: 'Glow Studio',
+      businessCategory: null,
+      bioText: 'Facials and skin care in Bristol',
+      linkInBio: null,
+      postCount: 96,
+      followerCount: 1204,
+      followingCount: 488
+    });
+  });
+
+  it('leaves fields null when the stats row was not legible', () => {
+    const text = parseProfileText(lines('Glow Studio'), 30);
+    expect(text).toMatchObject({ handle: null, postCount: null, followerCount: null, followingCount: null });
+  });
+});
+
+describe('parsePostCaption', () => {
+  it('reads the caption between the likes and the comments link', () => {
+    expect(parsePostCaption(lines(
+      '1,024 likes',
+      'luxe.salon Fresh balayage for summer',
+      'Book via the link in bio #balayage... more',
+      'View all 36 comments'
+    ))).toBe('Fresh balayage for summer\nBook via the link in bio #balayage');
+  });
+
+  it('returns null without a likes line to anchor on', () => {
+    expect(parsePostCaption(lines('luxe.salon', 'Fresh balayage for summer'))).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import type { OcrLine } from '@/lib/ocr';
+import { parseCount } from '@/lib/instagram/profile';
+import type { ProfileScreenshotText } from '@/types/instagram';
+
+// Lines tesseract is less sure of than this are usually icons or photo noise
+const MIN_LINE_CONFIDENCE = 40;
+
+const COUNT_PATTERN = /^[\d.,]+[KMB]?$/i;
+const STATS_LABELS_PATTERN = /\bposts?\b.*\bfollowers?\b|\bfollowers?\b.*\bfollowing\b/i;
+const HANDLE_PATTERN = /^@?([a-z0-9._]{2,30})$/;
+const URL_PATTERN = /(?:https?:\/\/)?(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/\S*)?/i;
+
+// Everything below the bio starts with a row of action buttons or "Followed by ..."
+const BUTTON_LABELS = '(?:follow|following|message|contact|email|call|directions|book now|edit profile|share profile|subscribe)';
+const BUTTON_ROW_PATTERN = new RegExp(`^${BUTTON_LABELS}(?:\\W+${BUTTON_LABELS})*\\W*$|^followed by`, 'i');
+
+// Instagram shows the business category as a grey line under the name
+const CATEGORY_PATTERN = /\b(salon|beauty|spa|barber|nail|lash|brow|makeup|cosmetic|hair|esthetic|aesthetic|personal care|local business|health ?& ?beauty|tanning|wax|massage)/i;
+
+// UI chrome that shows up between the name and the bio
+const IGNORED_LINE_PATTERN = /^(see translation|translate|professional dashboard|\.\.\. ?more|more)$/i;
+
+const countsIn = (line: OcrLine): number[] =>
+  line.words
+    .map(word => word.text.replace(/[^\d.,KMB]/gi, ''))
+    .filter(text => COUNT_PATTERN.test(text) && /\d/.test(text))
+    .map(parseCount);
+
+function findHandle(lines: OcrLine[]): { handle: string | null; index: number } {
+  for (let index = 0; index < lines.length; index++) {
+    const candidates = lines[index].words
+      .map(word => word.text.replace(/^[^@a-z0-9]+|[^a-z0-9._]+$/gi, ''))
+      .filter(text => HANDLE_PATTERN.test(text) && /[a-z]/.test(text));
+    const longest = candidates.sort((a, b) => b.length - a.length)[0];
+    if (longest && longest.length >= 3) {
+      return { handle: longest.replace(/^@/, ''), index };
+    }
+  }
+  return { handle: null, index: -1 };
+}
+
+// Reads posts, followers and following either from "78 posts 12.5K followers ..."
+// on one line, or from a row of numbers sitting above the labels
+function findStats(lines: OcrLine[]): { counts: number[]; index: number } {
+  const index = lines.findIndex(line => STATS_LABELS_PATTERN.test(line.text));
+  if (index === -1) return { counts: [], index };
+
+  const inline = countsIn(lines[index]);
+  if (inline.length >= 3) return { counts: inline.slice(0, 3), index };
+
+  const above = index > 0 ? countsIn(lines[index - 1]) : [];
+  return { counts: above.length >= 3 ? above.slice(-3) : inline, index };
+}
+
+export function parseProfileText(lines: OcrLine[], confidence: number): ProfileScreenshotText {
+  const legible = lines.filter(line => line.confidence >= MIN_LINE_CONFIDENCE);
+  const { handle, index: handleIndex } = findHandle(legible.slice(0, 3));
+  const { counts, index: statsIndex } = findStats(legible);
+
+  const bodyStart = Math.max(statsIndex, handleIndex) + 1;
+  const buttonIndex = legible.findIndex((line, index) => index >= bodyStart && BUTTON_ROW_PATTERN.test(line.text));
+  const body = legible
+    .slice(bodyStart, buttonIndex === -1 ? undefined : buttonIndex)
+    .map(line => line.text)
+    .filter(text => !IGNORED_LINE_PATTERN.test(text));
+
+  const displayName = body.shift() ?? null;
+  const businessCategory = body.length > 0 && body[0].length <= 40 && CATEGORY_PATTERN.test(body[0])
+    ? body.shift() ?? null
+    : null;
+
+  const linkIndex = body.findIndex(text => URL_PATTERN.test(text) && !text.includes('@') && !/\s/.test(text.replace(URL_PATTERN, '').trim()));
+  const linkInBio = linkIndex === -1 ? null : (body.splice(linkIndex, 1)[0].match(URL_PATTERN) || [null])[0];
+
+  return {
+    handle,
+    displayName,
+    bioText: body.join('\n'),
+    linkInBio,
+    businessCategory,
+    postCount: counts[0] ?? null,
+    followerCount: counts[1] ?? null,
+    followingCount: counts[2] ?? null,
+    confidence
+  };
+}
+
+// A single post shows its likes, then "handle caption...", then the comments link and date
+const LIKES_PATTERN = /^(liked by\b|[\d.,]+[KM]? likes?\b)/i;
+const CAPTION_END_PATTERN = /^(view (all )?[\d.,]+ comments?|add a comment|\d+ (seconds?|minutes?|hours?|days?|weeks?) ago|(january|february|march|april|may|june|july|august|september|october|november|december) \d{1,2}\b)/i;
+const TRUNCATED_PATTERN = /\s*(\.\.\.|…)\s*more$/i;
+
+// Returns null when the screenshot has no likes line to anchor the caption on
+export function parsePostCaption(lines: OcrLine[]): string | null {
+  const legible = lines.filter(line => line.confidence >= MIN_LINE_CONFIDENCE);
+  const likesIndex = legible.findIndex(line => LIKES_PATTERN.test(line.text));
+  if (likesIndex === -1) return null;
+
+  const endIndex = legible.findIndex((line, index) => index > likesIndex && CAPTION_END_PATTERN.test(line.text));
+  const captionLines = legible
+    .slice(likesIndex + 1, endIndex === -1 ? undefined : endIndex)
+    .map(line => line.text);
+  if (captionLines.length === 0) return null;
+
+  // The caption is prefixed with the poster's handle
+  captionLines[0] = captionLines[0].replace(/^@?[a-z0-9._]{2,30}\s+/i, '');
+  const caption = captionLines.join('\n').replace(TRUNCATED_PATTERN, '').trim();
+  return caption || null;
+}
@@ -0,0 +1,104 @@
+import sharp from 'sharp';
+import { createWorker, type Bbox, type Worker } from 'tesseract.js';
+import eng from '@tesseract.js-data/eng';
+import type { BoundingBox } from '@/types/image';
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  box: BoundingBox;
+}
+
+export interface OcrLine {
+  text: string;
+  confidence: number; // 0-100, as reported by tesseract
+  box: BoundingBox;
+  words: OcrWord[];
+}
+
+export interface OcrOptions {
+  // Whether the text is lighter than its background; guessed from the dominant color when unset
+  lightText?: boolean;
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+  lines: OcrLine[];
+}
+
+// Phone screenshots are usually wide enough; smaller crops are upscaled so
+// 12-14px UI text stays readable
+const MIN_OCR_WIDTH = 1000;
+
+// The language data ships with the app, so recognition never needs the network
+// and there's nothing to cache in the working directory.
+// A single worker is shared by all requests; tesseract queues jobs internally.
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', 1, { langPath: eng.langPath, gzip: eng.gzip, cacheMethod: 'none' }).catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+// Crops, upscales and inverts dark-mode screenshots and light-on-dark crops so the
+// text is always dark on light. The output stays RGB: tesseract reads nothing from 1-channel PNGs.
+async function prepareImage(image: Buffer, region?: BoundingBox, lightText?: boolean): Promise<{ buffer: Buffer; scale: number }> {
+  let pipeline = sharp(image);
+  if (region) pipeline = pipeline.extract(region);
+
+  const cropped = await pipeline.flatten({ background: '#ffffff' }).removeAlpha().png().toBuffer({ resolveWithObject: true });
+  const scale = cropped.info.width < MIN_OCR_WIDTH ? MIN_OCR_WIDTH / cropped.info.width : 1;
+  // The dominant color is the app background, even when bright photos pull the mean up
+  const { dominant } = await sharp(cropped.data).stats();
+  const isDark = lightText ?? (dominant.r + dominant.g + dominant.b) / 3 < 128;
+
+  let prepared = sharp(cropped.data).grayscale();
+  if (scale > 1) prepared = prepared.resize({ width: Math.round(cropped.info.width * scale) });
+  if (isDark) prepared = prepared.negate({ alpha: false });
+
+  return {
+    buffer: await prepared.normalize().toColourspace('srgb').png().toBuffer(),
+    scale
+  };
+}
+
+// Maps a box on the prepared image back onto the original screenshot
+const toBox = (bbox: Bbox, scale: number, region?: BoundingBox): BoundingBox => ({
+  left: Math.round(bbox.x0 / scale) + (region?.left ?? 0),
+  top: Math.round(bbox.y0 / scale) + (region?.top ?? 0),
+  width: Math.round((bbox.x1 - bbox.x0) / scale),
+  height: Math.round((bbox.y1 - bbox.y0) / scale)
+});
+
+export async function recognizeText(image: Buffer, region?: BoundingBox, { lightText }: OcrOptions = {}): Promise<OcrResult> {
+  const { buffer, scale } = await prepareImage(image, region, lightText);
+  const worker = await getWorker();
+  const { data } = await worker.recognize(buffer, {}, { text: true, blocks: true });
+
+  const lines = (data.blocks || [])
+    .flatMap(block => block.paragraphs)
+    .flatMap(paragraph => paragraph.lines)
+    .map(line => ({
+      text: line.text.trim(),
+      confidence: line.confidence,
+      box: toBox(line.bbox, scale, region),
+      words: line.words.map(word => ({
+        text: word.text,
+        confidence: word.confidence,
+        box: toBox(word.bbox, scale, region)
+      }))
+    }))
+    .filter(line => line.text.length > 0);
+
+  return {
+    text: data.text.trim(),
+    confidence: data.confidence,
+    lines
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { ScoringCriteria } from '@/types/scoring';
+import { defineScorers, scoreAnalysis, thresholdCredit, unknown } from '@/lib/scoring';
+
+interface Analysis {
+  hasTitle: boolean;
+  loadTime: number;
+}
+
+const REGISTRY: ScoringCriteria[] = [
+  {
+    category: 'Basics',
+    items: [
+      { id: 'basics.title', label: 'Has a title', weight: 4 },
+      { id: 'basics.speed', label: 'Loads quickly', weight: 6 }
+    ]
+  }
+];
+
+const LOAD_TIME = { green: 2000, yellow: 4000 };
+
+describe('defineScorers', () => {
+  it('accepts a table that scores exactly the registry', () => {
+    const scorers = {
+      'basics.title': { credit: (a: Analysis) => a.hasTitle, evidence: 'hasTitle' },
+      'basics.speed': { credit: (a: Analysis) => thresholdCredit(a.loadTime, LOAD_TIME), evidence: 'loadTime' }
+    };
+    expect(defineScorers<Analysis>(REGISTRY, scorers)).toBe(scorers);
+  });
+
+  it('rejects a scorer for an id the registry does not know', () => {
+    expect(() => defineScorers<Analysis>(REGISTRY, {
+      'basics.title': { credit: a => a.hasTitle, evidence: 'hasTitle' },
+      'basics.speed': { credit: () => 1, evidence: 'loadTime' },
+      'basics.favicon': { credit: () => 1, evidence: '' }
+    })).toThrow('Scored criteria missing from the registry: basics.favicon');
+  });
+
+  it('rejects a registry criterion without a scorer', () => {
+    expect(() => defineScorers<Analysis>(REGISTRY, {
+      'basics.title': { credit: a => a.hasTitle, evidence: 'hasTitle' }
+    })).toThrow('Registry criteria without a scorer: basics.speed');
+  });
+
+  it('rejects duplicate ids in the registry', () => {
+    const duplicated = [{ ...REGISTRY[0], items: [...REGISTRY[0].items, REGISTRY[0].items[0]] }];
+    expect(() => defineScorers<Analysis>(duplicated, {})).toThrow('Duplicate criterion ids in registry: basics.title');
+  });
+});
+
+describe('scoreAnalysis', () => {
+  it('leaves unknown criteria out of the score and the maximum', () => {
+    const scorers = defineScorers<Analysis>(REGISTRY, {
+      'basics.title': { credit: a => a.hasTitle, evidence: 'hasTitle' },
+      'basics.speed': { credit: () => unknown('Not measured'), evidence: 'loadTime' }
+    });
+    const result = scoreAnalysis(REGISTRY, scorers, { hasTitle: true, loadTime: 0 });
+
+    expect(result).toMatchObject({ totalPoints: 4, maxPoints: 4, percentage: 100 });
+    expect(result.details.Basics.items['basics.speed']).toMatchObject({ status: 'unknown', reason: 'Not measured', points: 0 });
+  });
+
+  it('gives half credit at the yellow threshold', () => {
+    expect(thresholdCredit(3000, LOAD_TIME)).toBe(0.5);
+    expect(thresholdCredit(5000, LOAD_TIME)).toBe(0);
+    expect(thresholdCredit(5, { green: 4, yellow: 2 })).toBe(1);
+  });
+});
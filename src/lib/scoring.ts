@@ -0,0 +1,193 @@
+import type { CriterionEvidence, CriterionResult, CriterionStatus, ElementEvidence, ScoringCriteria, ScoringResult } from '@/types/scoring';
+
+// What a scorer returns when the analysis can't answer the criterion
+export interface UndeterminedCredit {
+  status: Extract<CriterionStatus, 'unknown' | 'not_applicable'>;
+  reason: string;
+}
+
+export interface CriterionScorer<A> {
+  // Returns the share of the weight earned (0-1); booleans are all-or-nothing
+  credit: (analysis: A) => number | boolean | UndeterminedCredit;
+  // Dotted path to the analysis field the credit was derived from
+  evidence: string;
+  // What the field was compared against, when the credit comes from thresholdCredit
+  thresholds?: Thresholds;
+}
+
+// Scorers are keyed by the criterion ids published in src/types/*.ts
+export type CriteriaScorers<A> = Record<string, CriterionScorer<A>>;
+
+export interface Thresholds {
+  green: number;
+  yellow: number;
+}
+
+export const unknown = (reason: string): UndeterminedCredit => ({ status: 'unknown', reason });
+
+export const notApplicable = (reason: string): UndeterminedCredit => ({ status: 'not_applicable', reason });
+
+const roundPoints = (value: number): number => Math.round(value * 100) / 100;
+
+// Partial credit is a pass; the points say how good
+const statusFor = (credit: number): CriterionStatus => credit > 0 ? 'pass' : 'fail';
+
+// Results saved before criteria had a status were all checked
+export const isDetermined = (item: CriterionResult): boolean =>
+  item.status !== 'unknown' && item.status !== 'not_applicable';
+
+// Criteria left out of the score, for the pages to ask about
+export const undeterminedCriteria = (score: ScoringResult): CriterionResult[] =>
+  Object.values(score.details).flatMap(category => Object.values(category.items)).filter(item => !isDetermined(item));
+
+const normalizeCredit = (credit: number | boolean): number => {
+  const value = typeof credit === 'boolean' ? Number(credit) : credit;
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(Math.max(value, 0), 1);
+};
+
+const resolvePath = (source: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+
+// Full credit at the green threshold, half credit at yellow. Thresholds where
+// green is below yellow (load time, broken links) are treated as lower-is-better.
+export function thresholdCredit(value: number, thresholds: Thresholds): number {
+  const lowerIsBetter = thresholds.green < thresholds.yellow;
+  const meets = (threshold: number) => lowerIsBetter ? value <= threshold : value >= threshold;
+
+  if (meets(thresholds.green)) return 1;
+  if (meets(thresholds.yellow)) return 0.5;
+  return 0;
+}
+
+// "≤ 2000 for full credit, ≤ 4000 for half", in the same direction thresholdCredit reads them
+export function describeThresholds(thresholds: Thresholds): string {
+  const comparison = thresholds.green < thresholds.yellow ? '≤' : '≥';
+  return `${comparison} ${thresholds.green} for full credit, ${comparison} ${thresholds.yellow} for half`;
+}
+
+// Evidence values are whatever the analysis held, so they're shown loosely
+export function formatEvidenceValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return 'Nothing found';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.length > 0 ? value.map(formatEvidenceValue).join(', ') : 'Nothing found';
+  return JSON.stringify(value);
+}
+
+// Placeholder criteria have no field behind them and nothing to show
+export const hasEvidence = (evidence: CriterionEvidence): boolean =>
+  Boolean(evidence.path || evidence.selector || evidence.snippet || evidence.crop);
+
+function summarize(details: ScoringResult['details']): ScoringResult {
+  const totalPoints = roundPoints(Object.values(details).reduce((sum, category) => sum + category.score, 0));
+  const maxPoints = roundPoints(Object.values(details).reduce((sum, category) => sum + category.maxScore, 0));
+
+  return {
+    totalPoints,
+    maxPoints,
+    percentage: maxPoints > 0 ? Math.round((totalPoints / maxPoints) * 100) : 0,
+    details
+  };
+}
+
+// Criteria that couldn't be checked are left out of both the score and the maximum
+function summarizeCategory(items: { [key: string]: CriterionResult }): ScoringResult['details'][string] {
+  const results = Object.values(items).filter(isDetermined);
+  return {
+    score: roundPoints(results.reduce((sum, item) => sum + item.points, 0)),
+    maxScore: roundPoints(results.reduce((sum, item) => sum + item.weight, 0)),
+    items
+  };
+}
+
+// Throws when a route scores an id the registry doesn't know, or leaves a
+// published criterion unscored, so the two lists can't drift apart again
+export function defineScorers<A>(registry: ScoringCriteria[], scorers: CriteriaScorers<A>): CriteriaScorers<A> {
+  const ids = registry.flatMap(category => category.items.map(item => item.id));
+  const known = new Set(ids);
+
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate criterion ids in registry: ${duplicates.join(', ')}`);
+  }
+
+  const unknown = Object.keys(scorers).filter(id => !known.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Scored criteria missing from the registry: ${unknown.join(', ')}`);
+  }
+
+  const unscored = ids.filter(id => !scorers[id]);
+  if (unscored.length > 0) {
+    throw new Error(`Registry criteria without a scorer: ${unscored.join(', ')}`);
+  }
+
+  return scorers;
+}
+
+// Elements are keyed by the same dotted paths as the scorers' evidence, so a route
+// can attach what it matched on the page without each scorer knowing about it
+export function scoreAnalysis<A>(
+  registry: ScoringCriteria[],
+  scorers: CriteriaScorers<A>,
+  analysis: A,
+  elements: Record<string, ElementEvidence> = {}
+): ScoringResult {
+  const details: ScoringResult['details'] = {};
+
+  registry.forEach(({ category, items: criteria }) => {
+    const items: { [key: string]: CriterionResult } = {};
+
+    criteria.forEach(criterion => {
+      const scorer = scorers[criterion.id];
+      if (!scorer) {
+        throw new Error(`No scorer for criterion "${criterion.id}"`);
+      }
+
+      const outcome = scorer.credit(analysis);
+      const undetermined = typeof outcome === 'object' ? outcome : null;
+      const credit = typeof outcome === 'object' ? 0 : normalizeCredit(outcome);
+      items[criterion.id] = {
+        id: criterion.id,
+        label: criterion.label,
+        weight: criterion.weight,
+        credit,
+        points: roundPoints(criterion.weight * credit),
+        status: undetermined ? undetermined.status : statusFor(credit),
+        ...(undetermined && { reason: undetermined.reason }),
+        evidence: {
+          path: scorer.evidence,
+          value: resolvePath(analysis, scorer.evidence),
+          ...(scorer.thresholds && { thresholds: { green: scorer.thresholds.green, yellow: scorer.thresholds.yellow } }),
+          ...elements[scorer.evidence]
+        }
+      };
+    });
+
+    details[category] = summarizeCategory(items);
+  });
+
+  return summarize(details);
+}
+
+// Used by the audit pages when a criterion is manually toggled. Toggling an
+// unknown criterion resolves it, so it counts towards the score from then on.
+export function setCriterionCredit(score: ScoringResult, category: string, id: string, credit: number): ScoringResult {
+  const current = score.details[category]?.items[id];
+  if (!current) return score;
+
+  const value = normalizeCredit(credit);
+  const items = {
+    ...score.details[category].items,
+    [id]: { ...current, credit: value, points: roundPoints(current.weight * value), status: statusFor(value), reason: undefined }
+  };
+
+  return summarize({
+    ...score.details,
+    [category]: summarizeCategory(items)
+  });
+}
@@ -0,0 +1,111 @@
+import sharp from 'sharp';
+import decodeHeic from 'heic-decode';
+import { describe, expect, it, vi } from 'vitest';
+import { detectImageFormat, normalizeImage, UPLOAD_ERROR_STATUS, UploadError } from '@/lib/upload';
+import { crc32 } from '@/lib/__fixtures__/zip';
+
+// Wrapped so a test can stand in for a decoded photo; everything else decodes for real
+vi.mock('heic-decode', async importOriginal => {
+  const actual = await importOriginal<{ default: typeof decodeHeic }>();
+  return { default: vi.fn(actual.default) };
+});
+
+// An ftyp box with the given major and compatible brands, as HEIF files start
+const ftyp = (major: string, ...compatible: string[]): Buffer => {
+  const box = Buffer.alloc(16 + 4 * compatible.length);
+  box.writeUInt32BE(box.length, 0);
+  box.write('ftyp', 4, 'ascii');
+  box.write(major, 8, 'ascii');
+  compatible.forEach((brand, i) => box.write(brand, 16 + 4 * i, 'ascii'));
+  return box;
+};
+
+const png = (width = 40, height = 30) =>
+  sharp({ create: { width, height, channels: 3, background: '#c2185b' } }).png().toBuffer();
+
+// A valid PNG whose header claims far more pixels than it holds
+async function hugePng(): Promise<Buffer> {
+  const bytes = Buffer.from(await png(1, 1));
+  bytes.writeUInt32BE(20000, 16);
+  bytes.writeUInt32BE(20000, 20);
+  bytes.writeUInt32BE(crc32(bytes.subarray(12, 29)), 29);
+  return bytes;
+}
+
+const upload = (bytes: Buffer | string, type: string, name = 'screenshot.png') => new File([bytes], name, { type });
+
+async function uploadError(file: File): Promise<UploadError> {
+  try {
+    await normalizeImage(file);
+  } catch (error) {
+    if (error instanceof UploadError) return error;
+    throw error;
+  }
+  throw new Error('The upload was accepted');
+}
+
+describe('detectImageFormat', () => {
+  it('reads the format from the first bytes', async () => {
+    expect(detectImageFormat(await png())).toBe('png');
+    expect(detectImageFormat(await sharp(await png()).jpeg().toBuffer())).toBe('jpeg');
+    expect(detectImageFormat(await sharp(await png()).webp().toBuffer())).toBe('webp');
+    expect(detectImageFormat(Buffer.from('GIF89a\x01\x00\x01\x00\x00\x00', 'latin1'))).toBe('gif');
+  });
+
+  it('tells HEIC from AVIF by the ftyp brands', () => {
+    expect(detectImageFormat(ftyp('heic', 'mif1', 'heic'))).toBe('heic');
+    // iPhones write mif1 as the major brand with heic among the compatible ones
+    expect(detectImageFormat(ftyp('mif1', 'miaf', 'heic'))).toBe('heic');
+    expect(detectImageFormat(ftyp('avif', 'mif1', 'miaf'))).toBe('avif');
+    expect(detectImageFormat(ftyp('isom', 'mp41'))).toBeNull();
+  });
+
+  it('rejects unknown and short input', () => {
+    expect(detectImageFormat(Buffer.from('%PDF-1.7\n%âãÏÓ\n'))).toBeNull();
+    expect(detectImageFormat(Buffer.from([0xff, 0xd8, 0xff]))).toBeNull();
+  });
+});
+
+describe('normalizeImage', () => {
+  it('re-encodes an upload as PNG', async () => {
+    const result = await normalizeImage(upload(await sharp(await png()).jpeg().toBuffer(), 'image/jpeg', 'photo.jpg'));
+
+    expect(result).toMatchObject({ width: 40, height: 30, format: 'jpeg' });
+    expect(detectImageFormat(result.buffer)).toBe('png');
+  });
+
+  it('rejects files over the size limit', async () => {
+    const error = await uploadError(upload(Buffer.alloc(21 * 1024 * 1024), 'image/png'));
+
+    expect(error.code).toBe('too_large');
+    expect(error.fileName).toBe('screenshot.png');
+    expect(UPLOAD_ERROR_STATUS[error.code]).toBe(413);
+  });
+
+  it('rejects files that aren\'t images, or are images in a format it can\'t read', async () => {
+    const notImage = await uploadError(upload('name,email', 'text/csv', 'clients.csv'));
+    const bitmap = await uploadError(upload(Buffer.from('BM' + '\0'.repeat(40)), 'image/bmp', 'logo.bmp'));
+
+    expect(notImage.code).toBe('unsupported_type');
+    expect(bitmap.code).toBe('unsupported_type');
+    expect(UPLOAD_ERROR_STATUS.unsupported_type).toBe(415);
+  });
+
+  it('reports damaged files as corrupted', async () => {
+    const wrongBytes = await uploadError(upload(Buffer.from('<html>not an image</html>'), 'image/png'));
+    const truncated = await uploadError(upload((await png(400, 400)).subarray(0, 120), 'image/png'));
+    const badHeic = await uploadError(upload(Buffer.concat([ftyp('heic', 'mif1'), Buffer.alloc(64)]), '', 'IMG_0001.HEIC'));
+
+    expect([wrongBytes.code, truncated.code, badHeic.code]).toEqual(['corrupted', 'corrupted', 'corrupted']);
+    expect(UPLOAD_ERROR_STATUS.corrupted).toBe(422);
+  });
+
+  it('rejects images with too many pixels before and after decoding', async () => {
+    expect((await uploadError(upload(await hugePng(), 'image/png'))).code).toBe('too_large');
+
+    vi.mocked(decodeHeic).mockResolvedValueOnce({ width: 20000, height: 20000, data: new Uint8ClampedArray(4) });
+    const heic = await uploadError(upload(ftyp('heic', 'mif1'), 'image/heic', 'IMG_0002.HEIC'));
+    expect(heic.code).toBe('too_large');
+    expect(heic.message).toContain('too many pixels');
+  });
+});
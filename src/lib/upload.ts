@@ -0,0 +1,115 @@
+import sharp from 'sharp';
+import decodeHeic from 'heic-decode';
+import { MAX_UPLOAD_MB, type UploadErrorCode } from '@/types/image';
+
+// Wide enough for any phone screenshot at full resolution; full-page website
+// captures are long, so height gets more room
+const MAX_WIDTH = 2048;
+const MAX_HEIGHT = 16384;
+// Decoding stops before this many pixels, so a tiny file can't expand into gigabytes
+const MAX_INPUT_PIXELS = 100_000_000;
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'heic' | 'avif';
+
+const SUPPORTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'image/heif', 'image/avif'];
+// Browsers often send HEIC with no type or as a generic binary
+const GENERIC_TYPES = ['', 'application/octet-stream'];
+
+// HEIF files start with an ftyp box whose brand says what's inside
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+export class UploadError extends Error {
+  constructor(public readonly code: UploadErrorCode, message: string, public readonly fileName?: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export interface NormalizedImage {
+  buffer: Buffer; // PNG without metadata, upright
+  width: number;
+  height: number;
+  format: ImageFormat; // what was uploaded
+}
+
+// Reads the format from the first bytes rather than trusting the name or type
+export function detectImageFormat(bytes: Buffer): ImageFormat | null {
+  if (bytes.length < 12) return null;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  if (bytes.toString('ascii', 0, 4) === 'GIF8') return 'gif';
+  if (bytes.toString('ascii', 4, 8) === 'ftyp') {
+    // The major brand, then the compatible brands up to the end of the box
+    const boxEnd = Math.min(bytes.readUInt32BE(0), bytes.length);
+    const brands = [bytes.toString('ascii', 8, 12)];
+    for (let offset = 16; offset + 4 <= boxEnd; offset += 4) brands.push(bytes.toString('ascii', offset, offset + 4));
+    if (brands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+    if (brands.some(brand => HEIC_BRANDS.includes(brand))) return 'heic';
+  }
+  return null;
+}
+
+// sharp's prebuilt libvips reads AVIF but not HEVC, so iPhone photos go through libheif
+async function decode(bytes: Buffer, format: ImageFormat): Promise<sharp.Sharp> {
+  if (format !== 'heic') return sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS, failOn: 'truncated' });
+
+  const { width, height, data } = await decodeHeic({ buffer: bytes });
+  if (width * height > MAX_INPUT_PIXELS) throw new Error('Input image exceeds pixel limit');
+  return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } });
+}
+
+// Checks an uploaded image and re-encodes it the same way whatever the phone sent:
+// rotated upright, downscaled when huge and with EXIF and location data dropped.
+// Throws an UploadError that can be shown to the user as is.
+export async function normalizeImage(file: File): Promise<NormalizedImage> {
+  if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+    throw new UploadError('too_large', `${file.name} is larger than ${MAX_UPLOAD_MB}MB`, file.name);
+  }
+
+  const type = file.type.toLowerCase();
+  if (!type.startsWith('image/') && !GENERIC_TYPES.includes(type)) {
+    throw new UploadError('unsupported_type', `${file.name} is not an image - upload a PNG, JPEG, WebP or HEIC screenshot`, file.name);
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const format = detectImageFormat(bytes);
+  if (!format) {
+    // A type we'd accept with bytes that don't match is a damaged file; any other image type isn't supported
+    if (SUPPORTED_TYPES.includes(type) || GENERIC_TYPES.includes(type)) {
+      throw new UploadError('corrupted', `${file.name} doesn't look like an image - it may be damaged`, file.name);
+    }
+    throw new UploadError('unsupported_type', `${file.name} is in a format we can't read - upload a PNG, JPEG, WebP or HEIC screenshot`, file.name);
+  }
+
+  try {
+    const image = await decode(bytes, format);
+    // rotate() with no angle applies the EXIF orientation; metadata isn't carried over unless asked for
+    const { data, info } = await image
+      .rotate()
+      .resize({ width: MAX_WIDTH, height: MAX_HEIGHT, fit: 'inside', withoutEnlargement: true })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      buffer: data,
+      width: info.width,
+      height: info.height,
+      format
+    };
+  } catch (error) {
+    if (error instanceof Error && /pixel limit/i.test(error.message)) {
+      throw new UploadError('too_large', `${file.name} has too many pixels to process - upload a smaller screenshot`, file.name);
+    }
+    console.error(`Error decoding ${file.name}:`, error);
+    throw new UploadError('corrupted', `${file.name} couldn't be opened - it may be damaged or only partly uploaded`, file.name);
+  }
+}
+
+// Lets clients tell a rejected file apart from a failed analysis
+export const UPLOAD_ERROR_STATUS: Record<UploadErrorCode, number> = {
+  unsupported_type: 415,
+  too_large: 413,
+  corrupted: 422
+};
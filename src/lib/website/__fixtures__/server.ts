@@ -0,0 +1,18 @@
+import { createServer, type RequestListener } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface TestServer {
+  origin: string;
+  close: () => Promise<void>;
+}
+
+// A local site for tests that fetch, on a free port
+export async function startServer(handler: RequestListener): Promise<TestServer> {
+  const server = createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
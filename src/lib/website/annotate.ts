@@ -0,0 +1,152 @@
+import sharp from 'sharp';
+import type { Page } from 'puppeteer';
+import type { BoundingBox } from '@/types/image';
+import {
+  WEBSITE_ANNOTATION_STYLES,
+  type AnnotatedScreenshot,
+  type WebsiteAnnotation,
+  type WebsiteDevice
+} from '@/types/website';
+
+const VIEWPORTS: Record<WebsiteDevice, { width: number; height: number }> = {
+  mobile: { width: 375, height: 667 },
+  desktop: { width: 1280, height: 800 }
+};
+// Very long pages are cut off; the first few screens are what visitors judge a site by
+const MAX_PAGE_HEIGHT = 6000;
+// Keeps both captures small enough to send back and save with the result
+const MAX_IMAGE_WIDTH = 800;
+const JPEG_QUALITY = 70;
+const STROKE_WIDTH = 3;
+// Lazy-loaded images only appear once scrolled to
+const SCROLL_PAUSE_MS = 150;
+const SETTLE_MS = 500;
+
+interface PageAnnotations {
+  annotations: WebsiteAnnotation[];
+  pageHeight: number;
+}
+
+// Finds the elements worth pointing out, in page coordinates. Elements that
+// aren't rendered at this viewport (collapsed menus, display: none) are skipped.
+async function locateElements(page: Page): Promise<PageAnnotations> {
+  return page.evaluate(() => {
+    const annotations: { kind: WebsiteAnnotation['kind']; box: BoundingBox }[] = [];
+    const add = (kind: WebsiteAnnotation['kind'], element: Element | null | undefined) => {
+      if (!element) return;
+      const rect = element.getBoundingClientRect();
+      if (rect.width < 1 || rect.height < 1 || window.getComputedStyle(element).visibility === 'hidden') return;
+      annotations.push({
+        kind,
+        box: { left: rect.left + window.scrollX, top: rect.top + window.scrollY, width: rect.width, height: rect.height }
+      });
+    };
+
+    add('logo', document.querySelector('img[alt*="logo" i], [class*="logo" i] img, [class*="logo" i] svg, header img'));
+    add('headline', document.querySelector('h1'));
+    add('booking', Array.from(document.querySelectorAll('a, button')).find(element =>
+      /\b(book|appointment|schedule)/i.test(element.textContent || '')
+    ));
+
+    // A tel: link, or else the element holding the first phone-shaped text
+    let phone: Element | null = document.querySelector('a[href^="tel:"]');
+    if (!phone) {
+      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (/\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/.test(node.textContent || '')) {
+          phone = node.parentElement;
+          break;
+        }
+      }
+    }
+    add('phone', phone);
+
+    document.querySelectorAll('a[href*="instagram.com"], a[href*="facebook.com"], a[href*="tiktok.com"]')
+      .forEach(link => add('social', link));
+    document.querySelectorAll('img:not([alt])').forEach(image => add('missingAlt', image));
+
+    return { annotations, pageHeight: document.documentElement.scrollHeight };
+  });
+}
+
+// Scrolls down a screen at a time so lazy content loads, then back to the top
+async function scrollThrough(page: Page, height: number): Promise<void> {
+  await page.evaluate(async (maxHeight, pause) => {
+    const bottom = Math.min(document.documentElement.scrollHeight, maxHeight);
+    for (let y = 0; y < bottom; y += window.innerHeight) {
+      window.scrollTo(0, y);
+      await new Promise(resolve => setTimeout(resolve, pause));
+    }
+    window.scrollTo(0, 0);
+  }, height, SCROLL_PAUSE_MS);
+  await new Promise(resolve => setTimeout(resolve, SETTLE_MS));
+}
+
+function overlaySvg(width: number, height: number, annotations: WebsiteAnnotation[]): Buffer {
+  const rects = annotations.map(({ kind, box }) =>
+    `<rect x="${box.left}" y="${box.top}" width="${box.width}" height="${box.height}" ` +
+    `fill="none" stroke="${WEBSITE_ANNOTATION_STYLES[kind].color}" stroke-width="${STROKE_WIDTH}"/>`
+  );
+  return Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${rects.join('')}</svg>`);
+}
+
+// Keeps the part of a box above the cut-off, or drops it if none is
+function clipToHeight(box: BoundingBox, height: number): BoundingBox | null {
+  if (box.top >= height) return null;
+  return { ...box, height: Math.min(box.height, height - box.top) };
+}
+
+async function captureDevice(page: Page, device: WebsiteDevice): Promise<AnnotatedScreenshot> {
+  const viewport = VIEWPORTS[device];
+  await page.setViewport(viewport);
+  await scrollThrough(page, MAX_PAGE_HEIGHT);
+
+  const { annotations, pageHeight } = await locateElements(page);
+  const captureHeight = Math.max(viewport.height, Math.min(pageHeight, MAX_PAGE_HEIGHT));
+  const shot = await page.screenshot({
+    type: 'png',
+    clip: { x: 0, y: 0, width: viewport.width, height: captureHeight },
+    captureBeyondViewport: true
+  });
+
+  const visible = annotations.flatMap(annotation => {
+    const box = clipToHeight(annotation.box, captureHeight);
+    return box ? [{ ...annotation, box }] : [];
+  });
+  // sharp resizes before compositing, so the outlines are flattened first
+  const outlined = await sharp(Buffer.from(shot))
+    .composite([{ input: overlaySvg(viewport.width, captureHeight, visible), top: 0, left: 0 }])
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { data, info } = await sharp(outlined.data, { raw: outlined.info })
+    .resize({ width: Math.min(viewport.width, MAX_IMAGE_WIDTH), withoutEnlargement: true })
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+
+  const scale = info.width / viewport.width;
+  return {
+    device,
+    image: `data:image/jpeg;base64,${data.toString('base64')}`,
+    width: info.width,
+    height: info.height,
+    truncated: pageHeight > captureHeight,
+    annotations: visible.map(({ kind, box }) => ({
+      kind,
+      box: { left: box.left * scale, top: box.top * scale, width: box.width * scale, height: box.height * scale }
+    }))
+  };
+}
+
+// Captures the whole page at phone and desktop widths with the found elements
+// outlined. Leaves the page at the desktop viewport; a failed capture is left out.
+export async function captureAnnotatedScreenshots(page: Page): Promise<AnnotatedScreenshot[]> {
+  const screenshots: AnnotatedScreenshot[] = [];
+  for (const device of Object.keys(VIEWPORTS) as WebsiteDevice[]) {
+    try {
+      screenshots.push(await captureDevice(page, device));
+    } catch (error) {
+      console.error(`Error capturing ${device} screenshot:`, error);
+    }
+  }
+  return screenshots;
+}
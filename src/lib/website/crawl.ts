@@ -0,0 +1,235 @@
+import type { Browser, Page } from 'puppeteer';
+import type { CrawledPage, CrawlProgress, LinkedResource, LinkedResourceType, WebsiteCrawl, WebsitePageKind } from '@/types/website';
+import type { SiteIndex } from '@/lib/website/indexing';
+import { isAllowed } from '@/lib/website/robots';
+
+const MAX_PAGES = 8; // including the homepage
+// Page loads, including failed ones; dead sitemap entries shouldn't keep the crawl going
+const MAX_ATTEMPTS = MAX_PAGES * 3;
+const MAX_DEPTH = 2; // clicks from the homepage
+const PAGE_TIMEOUT_MS = 30000;
+// Sitemap entries queued as candidates; the rest are only counted
+const MAX_SITEMAP_CANDIDATES = 200;
+// Pause between pages; a longer Crawl-delay from robots.txt is honoured up to the cap
+const POLITE_DELAY_MS = 500;
+const MAX_CRAWL_DELAY_MS = 5000;
+const MOBILE_VIEWPORT = { width: 375, height: 667 };
+
+// Tried in order against a link's address and text
+const PAGE_KINDS: [WebsitePageKind, RegExp][] = [
+  ['services', /servic|treatment|price|pricing|menu/i],
+  ['team', /team|staff|stylist|therapist|artist|meet|about/i],
+  ['testimonials', /testimonial|review/i],
+  ['booking', /book|appointment/i],
+  ['contact', /contact|find[-\s]?us|location|visit/i],
+  ['blog', /blog|news|journal|article/i]
+];
+// Links to files rather than pages
+const NON_PAGE_PATH = /\.(pdf|jpe?g|png|gif|webp|svg|xml|zip|docx?|mp3|mp4)$/i;
+export const BLOCKED_BY_ROBOTS = 'Blocked by robots.txt';
+
+interface PageLink {
+  href: string;
+  text: string;
+  inNav: boolean;
+}
+
+type PageFindings = Omit<CrawledPage, 'url' | 'depth' | 'kind'> & {
+  links: PageLink[];
+  assets: { url: string; type: Exclude<LinkedResourceType, 'link'> }[];
+};
+
+// The crawl as reported, plus every address the pages referenced for the link check
+export interface CrawlResult {
+  crawl: WebsiteCrawl;
+  resources: LinkedResource[];
+}
+
+interface Candidate {
+  depth: number;
+  kind: WebsitePageKind;
+  inNav: boolean;
+}
+
+export function classifyPage(url: string, text = ''): WebsitePageKind {
+  const { pathname } = new URL(url);
+  if (pathname === '/' || pathname === '') return 'home';
+  return PAGE_KINDS.find(([, pattern]) => pattern.test(pathname) || pattern.test(text))?.[0] ?? 'other';
+}
+
+// Same-site page addresses without their fragment; anything else is null
+function pageUrl(href: string, origin: string): string | null {
+  try {
+    const url = new URL(href);
+    if (url.origin !== origin || NON_PAGE_PATH.test(url.pathname)) return null;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+// The per-page checks, run inside the page
+async function inspectPage(page: Page): Promise<PageFindings> {
+  return page.evaluate(() => {
+    const text = document.body?.innerText || '';
+    const images = Array.from(document.images);
+
+    // A bio is a card with a photo, a name heading and a paragraph about the person
+    let bioCount = 0;
+    if (/stylist|therapist|team|artist|founder|specialis/i.test(text)) {
+      document.querySelectorAll('h2, h3, h4').forEach(heading => {
+        const card = heading.parentElement;
+        const words = (card?.querySelector('p')?.textContent || '').trim().split(/\s+/).length;
+        if (card?.querySelector('img') && words >= 20) bioCount++;
+      });
+    }
+
+    return {
+      title: document.title,
+      noindex: Array.from(document.querySelectorAll('meta[name="robots" i], meta[name="googlebot" i]'))
+        .some(meta => /noindex/i.test(meta.getAttribute('content') || '')),
+      hasMetaDescription: Boolean(document.querySelector('meta[name="description"]')?.getAttribute('content')),
+      h1Count: document.querySelectorAll('h1').length,
+      imageCount: images.length,
+      missingAltCount: images.filter(image => !image.hasAttribute('alt')).length,
+      // A price list, e.g. "Cut & finish £45"
+      hasPrices: (text.match(/[£$€]\s?\d+/g) || []).length >= 3,
+      bioCount,
+      hasTestimonials: document.querySelector('blockquote, [class*="testimonial" i], [itemtype*="Review"]') !== null ||
+        /testimonials|what (our )?(clients|customers) say/i.test(text),
+      hasBlogPosts: document.querySelectorAll('article').length >= 2 ||
+        document.querySelectorAll('time[datetime]').length >= 2 ||
+        document.querySelector('link[type="application/rss+xml"]') !== null,
+      links: Array.from(document.querySelectorAll('a[href]')).map(link => ({
+        href: (link as HTMLAnchorElement).href,
+        text: (link.textContent || '').trim().slice(0, 80),
+        inNav: link.closest('nav, header, [role="navigation"]') !== null
+      })),
+      assets: [
+        ...images.map(image => ({ url: image.currentSrc || image.src, type: 'image' as const })),
+        ...Array.from(document.scripts).filter(script => script.src).map(script => ({ url: script.src, type: 'script' as const }))
+      ]
+    };
+  });
+}
+
+// Key pages of a kind we haven't seen yet come first, then navigation links, then the shallowest
+function nextCandidate(candidates: Map<string, Candidate>, seenKinds: Set<WebsitePageKind>): string | null {
+  let best: [string, number] | null = null;
+  for (const [url, candidate] of candidates) {
+    const rank = (candidate.kind !== 'other' && !seenKinds.has(candidate.kind) ? 4 : 0) +
+      (candidate.inNav ? 2 : 0) - candidate.depth;
+    if (!best || rank > best[1]) best = [url, rank];
+  }
+  return best?.[0] ?? null;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Visits up to MAX_PAGES same-site pages, starting from the already loaded
+// homepage and following navigation links and the sitemap. robots.txt is
+// respected for every page but the homepage, which the owner asked us to audit.
+// Candidates left when the page or attempt limit is reached are reported as unvisited.
+export async function crawlWebsite(
+  browser: Browser,
+  home: Page,
+  { robots, sitemap }: SiteIndex,
+  onPage?: (progress: CrawlProgress) => void
+): Promise<CrawlResult> {
+  const homeUrl = home.url();
+  const { origin } = new URL(homeUrl);
+  const delay = Math.min(Math.max(POLITE_DELAY_MS, (robots.crawlDelay ?? 0) * 1000), MAX_CRAWL_DELAY_MS);
+
+  const pages: CrawledPage[] = [];
+  const skipped: WebsiteCrawl['skipped'] = [];
+  const visited = new Set<string>();
+  const candidates = new Map<string, Candidate>();
+  const seenKinds = new Set<WebsitePageKind>();
+  const resources = new Map<string, LinkedResource>();
+
+  const addLinks = (links: PageLink[], depth: number) => {
+    if (depth > MAX_DEPTH) return;
+    for (const link of links) {
+      const url = pageUrl(link.href, origin);
+      if (!url || visited.has(url)) continue;
+      const existing = candidates.get(url);
+      if (existing && existing.depth <= depth && (existing.inNav || !link.inNav)) continue;
+      candidates.set(url, { depth, kind: classifyPage(url, link.text), inNav: link.inNav || Boolean(existing?.inNav) });
+    }
+  };
+
+  const record = (url: string, depth: number, kind: WebsitePageKind, findings: PageFindings) => {
+    const { links, assets, ...checks } = findings;
+    pages.push({ url, depth, kind, ...checks });
+    const referenced = [...links.map(link => ({ url: link.href, type: 'link' as const })), ...assets];
+    for (const resource of referenced) {
+      try {
+        const address = new URL(resource.url);
+        if (!/^https?:$/.test(address.protocol)) continue;
+        address.hash = '';
+        if (!resources.has(address.href)) {
+          resources.set(address.href, { ...resource, url: address.href, internal: address.origin === origin, foundOn: url });
+        }
+      } catch {
+        // Not a usable address
+      }
+    }
+    seenKinds.add(kind);
+    addLinks(links, depth + 1);
+  };
+
+  onPage?.({ url: homeUrl, index: 1, total: 1 });
+  visited.add(pageUrl(homeUrl, origin) ?? homeUrl);
+  record(homeUrl, 0, 'home', await inspectPage(home));
+
+  const sitemapLinks = sitemap.entries.slice(0, MAX_SITEMAP_CANDIDATES).map(({ loc }) => ({ href: loc, text: '', inNav: false }));
+  addLinks(sitemapLinks, 1);
+
+  let attempts = 0;
+  while (pages.length < MAX_PAGES && attempts < MAX_ATTEMPTS) {
+    const url = nextCandidate(candidates, seenKinds);
+    if (!url) break;
+    const { depth, kind } = candidates.get(url)!;
+    candidates.delete(url);
+    visited.add(url);
+
+    if (!isAllowed(robots, url)) {
+      skipped.push({ url, reason: BLOCKED_BY_ROBOTS });
+      continue;
+    }
+
+    onPage?.({ url, index: pages.length + 1, total: Math.min(MAX_PAGES, pages.length + 1 + candidates.size) });
+    attempts++;
+    await wait(delay);
+
+    const tab = await browser.newPage();
+    try {
+      await tab.setViewport(MOBILE_VIEWPORT);
+      const response = await tab.goto(url, { waitUntil: 'domcontentloaded', timeout: PAGE_TIMEOUT_MS });
+      const finalUrl = pageUrl(tab.url(), origin);
+      if (!response || !response.ok()) {
+        skipped.push({ url, reason: `Returned status ${response?.status() ?? 'unknown'}` });
+      } else if (!finalUrl) {
+        skipped.push({ url, reason: 'Redirected to another site' });
+      } else if (finalUrl === url || !visited.has(finalUrl)) {
+        // A redirect to a page we've already checked is dropped
+        visited.add(finalUrl);
+        const findings = await inspectPage(tab);
+        // noindex can also be sent as a header
+        findings.noindex ||= /noindex/i.test(response.headers()['x-robots-tag'] ?? '');
+        record(finalUrl, depth, kind, findings);
+      }
+    } catch (error) {
+      console.error(`Error crawling ${url}:`, error);
+      skipped.push({ url, reason: 'Failed to load' });
+    } finally {
+      await tab.close();
+    }
+  }
+
+  return {
+    crawl: { pages, skipped, unvisited: candidates.size, robotsTxtFound: robots.found },
+    resources: Array.from(resources.values())
+  };
+}
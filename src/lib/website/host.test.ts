@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { alternateHost, describeHostIssues, resolveHost } from '@/lib/website/host';
+import type { HostReport } from '@/types/website';
+import { startServer } from '@/lib/website/__fixtures__/server';
+
+describe('alternateHost', () => {
+  it('pairs the www and bare forms of a domain', () => {
+    expect(alternateHost('salon.com')).toBe('www.salon.com');
+    expect(alternateHost('www.salon.com')).toBe('salon.com');
+    expect(alternateHost('salon.co.uk')).toBe('www.salon.co.uk');
+    expect(alternateHost('www.salon.co.uk')).toBe('salon.co.uk');
+  });
+
+  it('has no twin for subdomains, IP addresses or local names', () => {
+    expect(alternateHost('book.salon.com')).toBeNull();
+    expect(alternateHost('book.salon.co.uk')).toBeNull();
+    expect(alternateHost('192.168.1.10')).toBeNull();
+    expect(alternateHost('localhost')).toBeNull();
+  });
+});
+
+const REPORT: HostReport = {
+  requestedUrl: 'salon.com',
+  finalUrl: 'https://www.salon.com/',
+  canonicalOrigin: 'https://www.salon.com',
+  alternate: { origin: 'https://salon.com', landsOn: 'https://www.salon.com' },
+  canonicalTag: 'https://www.salon.com/'
+};
+
+describe('describeHostIssues', () => {
+  it('has nothing to say when the twin redirects and the canonical tag matches', () => {
+    expect(describeHostIssues(REPORT)).toEqual([]);
+  });
+
+  it('reports a twin that fails, serves the site itself, or redirects elsewhere', () => {
+    const landingOn = (landsOn: string | null) =>
+      describeHostIssues({ ...REPORT, alternate: { origin: 'https://salon.com', landsOn } });
+
+    expect(landingOn(null)).toEqual(['salon.com doesn\'t load, so visitors who type it get an error']);
+    expect(landingOn('https://salon.com')).toEqual(['www.salon.com and salon.com both serve the site instead of one redirecting to the other']);
+    expect(landingOn('https://salonstudio.com')).toEqual(['salon.com redirects to salonstudio.com rather than www.salon.com']);
+  });
+
+  it('checks the canonical tag against where the site is served', () => {
+    const tagged = (canonicalTag: string | null) => describeHostIssues({ ...REPORT, canonicalTag });
+
+    expect(tagged(null)).toEqual(['The homepage has no canonical tag']);
+    expect(tagged('https://salon.com/')).toEqual(['The canonical tag points to salon.com but the site is served from www.salon.com']);
+    expect(tagged('http://www.salon.com/')).toEqual(['The canonical tag uses http but the site is served over https']);
+    expect(tagged('/home')).toEqual(['The canonical tag isn\'t a valid address']);
+  });
+});
+
+describe('resolveHost', () => {
+  it('resolves a relative canonical tag against the page', async () => {
+    const server = await startServer((_, response) => response.writeHead(200).end());
+    try {
+      // An IP address has no www twin to check
+      expect(await resolveHost(server.origin, `${server.origin}/`, '/')).toEqual({
+        requestedUrl: server.origin,
+        finalUrl: `${server.origin}/`,
+        canonicalOrigin: server.origin,
+        alternate: null,
+        canonicalTag: `${server.origin}/`
+      });
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import net from 'net';
+import type { HostReport } from '@/types/website';
+import { checkUrl } from '@/lib/website/links';
+
+// Second-level labels that are part of a country's suffix, as in salon.co.uk
+const COUNTRY_SECOND_LEVEL = /^(co|com|net|org|ac|gov)$/;
+
+// The www and bare forms of a domain are twins; subdomains like book.salon.com have none
+export function alternateHost(hostname: string): string | null {
+  if (net.isIP(hostname) || !hostname.includes('.')) return null;
+  if (hostname.startsWith('www.')) return hostname.slice(4);
+  const labels = hostname.split('.');
+  const isBare = labels.length === 2 || (labels.length === 3 && COUNTRY_SECOND_LEVEL.test(labels[1]) && labels[2].length === 2);
+  return isBare ? `www.${hostname}` : null;
+}
+
+// Where an address ends up once its redirects are followed; null when it doesn't load
+async function landingOrigin(url: string): Promise<string | null> {
+  const outcome = await checkUrl(url);
+  if (outcome.status === null || outcome.status >= 400) return null;
+  return new URL(outcome.redirects[outcome.redirects.length - 1] ?? url).origin;
+}
+
+// `finalUrl` is where the browser ended up loading `requestedUrl`
+export async function resolveHost(requestedUrl: string, finalUrl: string, canonicalHref: string | null): Promise<HostReport> {
+  const { origin, protocol, hostname, port } = new URL(finalUrl);
+  const twin = alternateHost(hostname);
+  const alternateOrigin = twin && `${protocol}//${twin}${port ? `:${port}` : ''}`;
+
+  let canonicalTag: string | null = null;
+  if (canonicalHref) {
+    try {
+      canonicalTag = new URL(canonicalHref, finalUrl).href;
+    } catch {
+      canonicalTag = canonicalHref;
+    }
+  }
+
+  return {
+    requestedUrl,
+    finalUrl,
+    canonicalOrigin: origin,
+    alternate: alternateOrigin ? { origin: alternateOrigin, landsOn: await landingOrigin(`${alternateOrigin}/`) } : null,
+    canonicalTag
+  };
+}
+
+const hostOf = (origin: string) => new URL(origin).host;
+
+// One line per way the site fails to settle on a single address
+export function describeHostIssues(report: HostReport): string[] {
+  const issues: string[] = [];
+  const site = hostOf(report.canonicalOrigin);
+  const { alternate } = report;
+  if (alternate && alternate.landsOn === null) {
+    issues.push(`${hostOf(alternate.origin)} doesn't load, so visitors who type it get an error`);
+  } else if (alternate && alternate.landsOn === alternate.origin) {
+    issues.push(`${site} and ${hostOf(alternate.origin)} both serve the site instead of one redirecting to the other`);
+  } else if (alternate && alternate.landsOn !== report.canonicalOrigin) {
+    issues.push(`${hostOf(alternate.origin)} redirects to ${hostOf(alternate.landsOn!)} rather than ${site}`);
+  }
+
+  if (!report.canonicalTag) {
+    issues.push('The homepage has no canonical tag');
+  } else {
+    try {
+      const tagged = new URL(report.canonicalTag);
+      if (tagged.host !== site) {
+        issues.push(`The canonical tag points to ${tagged.host} but the site is served from ${site}`);
+      } else if (tagged.origin !== report.canonicalOrigin) {
+        issues.push(`The canonical tag uses ${tagged.protocol.slice(0, -1)} but the site is served over ${new URL(report.canonicalOrigin).protocol.slice(0, -1)}`);
+      }
+    } catch {
+      issues.push('The canonical tag isn\'t a valid address');
+    }
+  }
+  return issues;
+}
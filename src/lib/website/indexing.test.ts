@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { BLOCKED_BY_ROBOTS } from '@/lib/website/crawl';
+import { analyzeIndexing, describeIndexingIssues, type SiteIndex } from '@/lib/website/indexing';
+import { parseRobotsTxt } from '@/lib/website/robots';
+import type { CrawledPage, WebsiteCrawl } from '@/types/website';
+
+const page = (url: string, kind: CrawledPage['kind'], noindex = false): CrawledPage => ({
+  url,
+  depth: 1,
+  kind,
+  title: '',
+  hasMetaDescription: true,
+  noindex,
+  h1Count: 1,
+  imageCount: 0,
+  missingAltCount: 0,
+  hasPrices: false,
+  bioCount: 0,
+  hasTestimonials: false,
+  hasBlogPosts: false
+});
+
+const CRAWL: WebsiteCrawl = {
+  pages: [
+    page('https://salon.com/', 'home'),
+    page('https://salon.com/team', 'team', true),
+    page('https://salon.com/thank-you', 'other', true),
+    page('https://salon.com/offers', 'other', true)
+  ],
+  skipped: [
+    { url: 'https://salon.com/book', reason: BLOCKED_BY_ROBOTS },
+    { url: 'https://salon.com/admin', reason: BLOCKED_BY_ROBOTS },
+    { url: 'https://salon.com/contact', reason: 'Timed out' }
+  ],
+  unvisited: 0,
+  robotsTxtFound: true
+};
+
+const INDEX: SiteIndex = {
+  robots: parseRobotsTxt('User-agent: *\nDisallow: /book\nDisallow: /admin\nSitemap: https://salon.com/sitemap.xml'),
+  sitemap: {
+    files: ['https://salon.com/sitemap.xml'],
+    entries: [
+      { loc: 'https://salon.com/', lastmod: '2020-03-01' },
+      { loc: 'https://salon.com/book', lastmod: null },
+      { loc: 'https://salon.com/offers', lastmod: '2020-01-15' }
+    ],
+    urlCount: 3
+  }
+};
+
+describe('analyzeIndexing', () => {
+  it('cross-checks robots.txt, the sitemap and the crawled pages', () => {
+    const report = analyzeIndexing(INDEX, CRAWL);
+
+    expect(report.robotsTxt).toEqual({ found: true, declaredSitemaps: ['https://salon.com/sitemap.xml'], crawlDelay: null });
+    expect(report.sitemap).toEqual({
+      found: true,
+      files: ['https://salon.com/sitemap.xml'],
+      urlCount: 3,
+      newestLastmod: '2020-03-01T00:00:00.000Z',
+      lastmodCoverage: 2 / 3,
+      isStale: true
+    });
+    // /admin isn't a key page, and /contact failed for another reason
+    expect(report.blockedKeyPages).toEqual(['https://salon.com/book']);
+    // The unlisted thank-you page may be noindex on purpose
+    expect(report.conflicts).toEqual([
+      { url: 'https://salon.com/book', issue: 'listed in the sitemap but blocked by robots.txt' },
+      { url: 'https://salon.com/team', issue: 'marked noindex although it is a key page' },
+      { url: 'https://salon.com/offers', issue: 'listed in the sitemap but marked noindex' }
+    ]);
+  });
+
+  it('flags a homepage blocked by robots.txt', () => {
+    const index = { ...INDEX, robots: parseRobotsTxt('User-agent: *\nDisallow: /') };
+    expect(analyzeIndexing(index, CRAWL).blockedKeyPages[0]).toBe('https://salon.com/');
+  });
+});
+
+describe('describeIndexingIssues', () => {
+  it('lists one line per problem', () => {
+    expect(describeIndexingIssues(analyzeIndexing(INDEX, CRAWL))).toEqual([
+      'The sitemap hasn\'t been updated since 2020-03-01',
+      '/book is blocked by robots.txt',
+      '1 page listed in the sitemap but blocked by robots.txt',
+      '1 page marked noindex although it is a key page',
+      '1 page listed in the sitemap but marked noindex'
+    ]);
+  });
+
+  it('reports a missing sitemap', () => {
+    const index = { ...INDEX, sitemap: { files: [], entries: [], urlCount: 0 } };
+    expect(describeIndexingIssues(analyzeIndexing(index, { ...CRAWL, pages: [], skipped: [] }))).toEqual(['No sitemap found']);
+  });
+});
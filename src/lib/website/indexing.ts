@@ -0,0 +1,98 @@
+import type { IndexingReport, WebsiteCrawl } from '@/types/website';
+import { BLOCKED_BY_ROBOTS, classifyPage } from '@/lib/website/crawl';
+import { fetchRobotsTxt, isAllowed, type RobotsTxt } from '@/lib/website/robots';
+import { readSitemaps, type SitemapReading } from '@/lib/website/sitemap';
+
+// Where sitemaps usually live when robots.txt doesn't say
+const CONVENTIONAL_SITEMAPS = ['/sitemap.xml', '/sitemap_index.xml'];
+// A sitemap whose newest page is older than this has probably stopped being updated
+const STALE_AFTER_DAYS = 365;
+const MAX_CONFLICTS = 20;
+
+export interface SiteIndex {
+  robots: RobotsTxt;
+  sitemap: SitemapReading;
+}
+
+// robots.txt, then the sitemaps it declares or else the first conventional one that exists
+export async function readSiteIndex(origin: string): Promise<SiteIndex> {
+  const robots = await fetchRobotsTxt(origin);
+  if (robots.sitemaps.length > 0) {
+    return { robots, sitemap: await readSitemaps(robots.sitemaps) };
+  }
+  for (const path of CONVENTIONAL_SITEMAPS) {
+    const sitemap = await readSitemaps([`${origin}${path}`]);
+    if (sitemap.files.length > 0) return { robots, sitemap };
+  }
+  return { robots, sitemap: { files: [], entries: [], urlCount: 0 } };
+}
+
+const sameUrl = (url: string): string => {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+};
+
+// Cross-checks robots.txt and the sitemap against each other and the crawled pages
+export function analyzeIndexing({ robots, sitemap }: SiteIndex, crawl: WebsiteCrawl): IndexingReport {
+  const lastmods = sitemap.entries
+    .map(entry => entry.lastmod ? Date.parse(entry.lastmod) : NaN)
+    .filter(time => !isNaN(time));
+  const newest = lastmods.length > 0 ? Math.max(...lastmods) : null;
+  const listed = new Set(sitemap.entries.map(entry => sameUrl(entry.loc)));
+
+  const home = crawl.pages[0];
+  const blockedKeyPages = [
+    ...(home && !isAllowed(robots, home.url) ? [home.url] : []),
+    ...crawl.skipped
+      .filter(page => page.reason === BLOCKED_BY_ROBOTS && classifyPage(page.url) !== 'other')
+      .map(page => page.url)
+  ];
+
+  const conflicts: IndexingReport['conflicts'] = [];
+  for (const entry of sitemap.entries) {
+    if (!isAllowed(robots, entry.loc)) conflicts.push({ url: entry.loc, issue: 'listed in the sitemap but blocked by robots.txt' });
+  }
+  // Other pages may be noindex on purpose, like thank-you pages
+  for (const page of crawl.pages.filter(page => page.noindex)) {
+    if (listed.has(sameUrl(page.url))) {
+      conflicts.push({ url: page.url, issue: 'listed in the sitemap but marked noindex' });
+    } else if (page.kind !== 'other') {
+      conflicts.push({ url: page.url, issue: 'marked noindex although it is a key page' });
+    }
+  }
+
+  return {
+    robotsTxt: { found: robots.found, declaredSitemaps: robots.sitemaps, crawlDelay: robots.crawlDelay },
+    sitemap: {
+      found: sitemap.files.length > 0,
+      files: sitemap.files,
+      urlCount: sitemap.urlCount,
+      newestLastmod: newest === null ? null : new Date(newest).toISOString(),
+      lastmodCoverage: sitemap.entries.length > 0 ? lastmods.length / sitemap.entries.length : 0,
+      isStale: newest !== null && Date.now() - newest > STALE_AFTER_DAYS * 24 * 60 * 60 * 1000
+    },
+    blockedKeyPages,
+    conflicts: conflicts.slice(0, MAX_CONFLICTS)
+  };
+}
+
+// One line per problem, with repeated conflicts counted together
+export function describeIndexingIssues(report: IndexingReport): string[] {
+  const issues: string[] = [];
+  if (!report.sitemap.found) {
+    issues.push('No sitemap found');
+  } else if (report.sitemap.urlCount === 0) {
+    issues.push('The sitemap lists no pages');
+  } else if (report.sitemap.isStale && report.sitemap.newestLastmod) {
+    issues.push(`The sitemap hasn't been updated since ${report.sitemap.newestLastmod.slice(0, 10)}`);
+  }
+  report.blockedKeyPages.forEach(url => issues.push(`${new URL(url).pathname} is blocked by robots.txt`));
+
+  const counts = new Map<string, number>();
+  report.conflicts.forEach(({ issue }) => counts.set(issue, (counts.get(issue) ?? 0) + 1));
+  counts.forEach((count, issue) => issues.push(`${count} ${count === 1 ? 'page' : 'pages'} ${issue}`));
+  return issues;
+}
@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { checkLinks, checkUrl } from '@/lib/website/links';
+import type { LinkedResource } from '@/types/website';
+import { startServer, type TestServer } from '@/lib/website/__fixtures__/server';
+
+// path -> [status, Location]
+const ROUTES: Record<string, [number, string?]> = {
+  '/': [200],
+  '/old-prices': [301, '/prices-2024'],
+  '/prices-2024': [302, '/prices'],
+  '/prices': [200],
+  '/moved': [301, '/'],
+  '/gone': [404],
+  '/loop': [302, '/loop'],
+  '/instagram': [403]
+};
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startServer((request, response) => {
+    const path = request.url ?? '/';
+    // Like some site builders, this page fails HEAD but answers GET
+    if (path === '/no-head') {
+      response.writeHead(request.method === 'HEAD' ? 405 : 200).end();
+      return;
+    }
+    const [status, location] = ROUTES[path] ?? [404];
+    response.writeHead(status, location ? { Location: location } : {}).end();
+  });
+});
+
+afterAll(() => server.close());
+
+const link = (path: string, internal = true): LinkedResource => ({
+  url: `${server.origin}${path}`,
+  type: 'link',
+  internal,
+  foundOn: `${server.origin}/`
+});
+
+describe('checkUrl', () => {
+  it('records each redirect hop', async () => {
+    expect(await checkUrl(`${server.origin}/old-prices`)).toEqual({
+      status: 200,
+      redirects: [`${server.origin}/prices-2024`, `${server.origin}/prices`]
+    });
+  });
+
+  it('falls back to GET when HEAD fails', async () => {
+    expect(await checkUrl(`${server.origin}/no-head`)).toEqual({ status: 200, redirects: [] });
+  });
+
+  it('gives up on redirect loops and unreachable hosts', async () => {
+    expect(await checkUrl(`${server.origin}/loop`)).toMatchObject({ status: null, error: 'Too many redirects' });
+    expect(await checkUrl('http://127.0.0.1:9/')).toEqual({ status: null, error: 'Could not connect', redirects: [] });
+  });
+});
+
+describe('checkLinks', () => {
+  it('reports broken links, redirect chains and mixed content', async () => {
+    const image: LinkedResource = {
+      url: `${server.origin}/logo.png`,
+      type: 'image',
+      internal: true,
+      foundOn: 'https://salon.com/'
+    };
+    const report = await checkLinks([link('/'), link('/gone'), link('/old-prices'), link('/moved'), link('/instagram', false), image]);
+
+    expect(report.checked).toBe(5);
+    expect(report.broken.map(broken => broken.url).sort()).toEqual([`${server.origin}/gone`, `${server.origin}/logo.png`]);
+    // An internal link redirecting once is still worth pointing at its final address
+    expect(report.redirectChains.map(chain => chain.url).sort()).toEqual([`${server.origin}/moved`, `${server.origin}/old-prices`]);
+    expect(report.mixedContent).toEqual([image]);
+    // The refused link isn't counted as broken
+    expect(report.unverified).toBe(1);
+  });
+});
@@ -0,0 +1,129 @@
+import type { CheckedLink, LinkedResource, LinkReport } from '@/types/website';
+import { CRAWLER_USER_AGENT } from '@/lib/website/robots';
+
+const MAX_CHECKS = 150;
+const CONCURRENCY = 6;
+// At most this many requests to one host at a time, started at least this far apart
+const PER_HOST_CONCURRENCY = 2;
+const PER_HOST_DELAY_MS = 250;
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+// Social sites and the like answer automated requests with these; the link itself may be fine
+const REFUSED_STATUSES = [401, 403, 429, 999];
+const USER_AGENT = `Mozilla/5.0 (compatible; ${CRAWLER_USER_AGENT}/1.0)`;
+
+interface LinkOutcome {
+  status: number | null;
+  error?: string;
+  redirects: string[];
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function request(url: string, method: 'HEAD' | 'GET'): Promise<Response> {
+  const response = await fetch(url, {
+    method,
+    redirect: 'manual',
+    headers: { 'User-Agent': USER_AGENT },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  // Only the status and headers matter
+  await response.body?.cancel();
+  return response;
+}
+
+// HEAD first; servers that don't support it, or fail it, get a GET
+async function requestStatus(url: string): Promise<Response> {
+  try {
+    const response = await request(url, 'HEAD');
+    if (response.status < 400) return response;
+  } catch {
+    // Retried with GET below
+  }
+  return request(url, 'GET');
+}
+
+// Follows redirects by hand so each hop is recorded
+export async function checkUrl(url: string): Promise<LinkOutcome> {
+  const redirects: string[] = [];
+  let current = url;
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const response = await requestStatus(current);
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return { status: response.status, redirects };
+      }
+      current = new URL(location, current).href;
+      redirects.push(current);
+    }
+    return { status: null, error: 'Too many redirects', redirects };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    return { status: null, error: timedOut ? 'Timed out' : 'Could not connect', redirects };
+  }
+}
+
+// Runs the checks CONCURRENCY at a time, taking the next one whose host isn't busy
+async function checkPolitely(resources: LinkedResource[], check: (resource: LinkedResource) => Promise<void>): Promise<void> {
+  const pending = [...resources];
+  const active = new Map<string, number>();
+  const lastStarted = new Map<string, number>();
+
+  const worker = async () => {
+    while (pending.length > 0) {
+      const now = Date.now();
+      const index = pending.findIndex(({ url }) => {
+        const { host } = new URL(url);
+        return (active.get(host) ?? 0) < PER_HOST_CONCURRENCY && now - (lastStarted.get(host) ?? 0) >= PER_HOST_DELAY_MS;
+      });
+      if (index === -1) {
+        await wait(PER_HOST_DELAY_MS / 5);
+        continue;
+      }
+      const [resource] = pending.splice(index, 1);
+      const { host } = new URL(resource.url);
+      active.set(host, (active.get(host) ?? 0) + 1);
+      lastStarted.set(host, now);
+      try {
+        await check(resource);
+      } finally {
+        active.set(host, (active.get(host) ?? 1) - 1);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+}
+
+// Internal links first, then images and scripts, then links to other sites
+const checkPriority = (resource: LinkedResource) => resource.type === 'link' ? (resource.internal ? 0 : 2) : 1;
+
+export async function checkLinks(resources: LinkedResource[]): Promise<LinkReport> {
+  const mixedContent = resources.filter(resource =>
+    resource.type !== 'link' && resource.url.startsWith('http:') && resource.foundOn.startsWith('https:')
+  );
+  const toCheck = [...resources].sort((a, b) => checkPriority(a) - checkPriority(b)).slice(0, MAX_CHECKS);
+
+  const checked: CheckedLink[] = [];
+  let refused = 0;
+  await checkPolitely(toCheck, async resource => {
+    const outcome = await checkUrl(resource.url);
+    if (outcome.status !== null && REFUSED_STATUSES.includes(outcome.status)) {
+      refused++;
+      return;
+    }
+    checked.push({ ...resource, ...outcome });
+  });
+
+  const isBroken = (link: CheckedLink) => link.status === null || link.status >= 400;
+  return {
+    checked: checked.length,
+    broken: checked.filter(isBroken),
+    redirectChains: checked.filter(link =>
+      !isBroken(link) && (link.redirects.length > 1 || (link.internal && link.redirects.length > 0))
+    ),
+    mixedContent,
+    unverified: refused + resources.length - toCheck.length
+  };
+}
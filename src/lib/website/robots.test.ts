@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { classifyPage } from '@/lib/website/crawl';
+import { isAllowed, parseRobotsTxt } from '@/lib/website/robots';
+
+const ROBOTS_TXT = `# Salon site
+User-agent: Googlebot
+Disallow: /
+
+User-agent: *
+Disallow: /admin/
+Disallow: /*.pdf$
+Allow: /admin/prices
+Crawl-delay: 2
+
+Sitemap: https://salon.com/sitemap.xml
+`;
+
+describe('parseRobotsTxt', () => {
+  it('reads the * group and every sitemap', () => {
+    expect(parseRobotsTxt(ROBOTS_TXT)).toEqual({
+      found: true,
+      rules: [
+        { allow: false, path: '/admin/' },
+        { allow: false, path: '/*.pdf$' },
+        { allow: true, path: '/admin/prices' }
+      ],
+      crawlDelay: 2,
+      sitemaps: ['https://salon.com/sitemap.xml']
+    });
+  });
+
+  it('prefers a group naming our crawler, shared by consecutive user agents', () => {
+    const robots = parseRobotsTxt([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: Bingbot',
+      'User-agent: GlamScore',
+      'Disallow: /private',
+      'Disallow:'
+    ].join('\r\n'));
+
+    // The empty Disallow adds no rule
+    expect(robots.rules).toEqual([{ allow: false, path: '/private' }]);
+    expect(robots.crawlDelay).toBeNull();
+  });
+
+  it('has no rules when no group applies', () => {
+    expect(parseRobotsTxt('User-agent: Googlebot\nDisallow: /').rules).toEqual([]);
+  });
+});
+
+describe('isAllowed', () => {
+  const robots = parseRobotsTxt(ROBOTS_TXT);
+
+  it('lets the longest matching rule win', () => {
+    expect(isAllowed(robots, 'https://salon.com/admin/login')).toBe(false);
+    expect(isAllowed(robots, 'https://salon.com/admin/prices')).toBe(true);
+    expect(isAllowed(robots, 'https://salon.com/services')).toBe(true);
+  });
+
+  it('matches wildcards and the end anchor against the path and query', () => {
+    expect(isAllowed(robots, 'https://salon.com/files/menu.pdf')).toBe(false);
+    expect(isAllowed(robots, 'https://salon.com/files/menu.pdf?v=2')).toBe(true);
+  });
+
+  it('lets Allow win a tie', () => {
+    const tied = parseRobotsTxt('User-agent: *\nDisallow: /book\nAllow: /book');
+    expect(isAllowed(tied, 'https://salon.com/book')).toBe(true);
+  });
+});
+
+describe('classifyPage', () => {
+  it('classifies by the address, then by the link text', () => {
+    expect(classifyPage('https://salon.com/')).toBe('home');
+    expect(classifyPage('https://salon.com/treatments/facials')).toBe('services');
+    expect(classifyPage('https://salon.com/p/123', 'Meet the team')).toBe('team');
+    expect(classifyPage('https://salon.com/p/456')).toBe('other');
+  });
+});
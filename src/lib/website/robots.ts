@@ -0,0 +1,97 @@
+// The name our crawler answers to in robots.txt, besides the * group
+export const CRAWLER_USER_AGENT = 'GlamScore';
+const FETCH_TIMEOUT_MS = 10000;
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsTxt {
+  found: boolean;
+  rules: RobotsRule[]; // the group that applies to us
+  crawlDelay: number | null; // seconds
+  sitemaps: string[];
+}
+
+const EMPTY_ROBOTS: RobotsTxt = { found: false, rules: [], crawlDelay: null, sitemaps: [] };
+
+// Reads the group for our user agent, or the * group when there isn't one.
+// Consecutive User-agent lines share the rules that follow them.
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay: number | null }[] = [];
+  const sitemaps: string[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let readingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+    if (field === 'user-agent') {
+      if (!current || !readingAgents) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+    readingAgents = false;
+    if (!current) continue;
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay)) current.crawlDelay = delay;
+    }
+  }
+
+  const ours = groups.find(group => group.agents.includes(CRAWLER_USER_AGENT.toLowerCase()))
+    ?? groups.find(group => group.agents.includes('*'));
+  return { found: true, rules: ours?.rules ?? [], crawlDelay: ours?.crawlDelay ?? null, sitemaps };
+}
+
+// A missing or unreachable robots.txt allows everything
+export async function fetchRobotsTxt(origin: string): Promise<RobotsTxt> {
+  try {
+    const response = await fetch(`${origin}/robots.txt`, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) return EMPTY_ROBOTS;
+    return parseRobotsTxt(await response.text());
+  } catch (error) {
+    console.warn('Could not fetch robots.txt:', error);
+    return EMPTY_ROBOTS;
+  }
+}
+
+// Rule paths may use * for any run of characters and end in $ to anchor the end
+function ruleMatches(rulePath: string, path: string): boolean {
+  const anchored = rulePath.endsWith('$');
+  const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(path);
+}
+
+// The longest matching rule wins, and Allow wins a tie
+export function isAllowed(robots: RobotsTxt, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!ruleMatches(rule.path, path)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
@@ -0,0 +1,497 @@
+import sharp from 'sharp';
+import { recognizeText, type OcrLine, type OcrWord } from '@/lib/ocr';
+import type { BoundingBox } from '@/types/image';
+import type { SocialNetwork, WebsiteScreenshotReading, WebsiteScreenshotRegion } from '@/types/website';
+
+const MIN_LINE_CONFIDENCE = 50;
+const MIN_WORD_CONFIDENCE = 60;
+
+// Body text is about 4% of the width on a phone layout and nearer 1% on desktop,
+// or on a desktop page zoomed out to fit a phone
+const MOBILE_TEXT_SHARE = 0.025;
+// The logo and navigation sit in the top band, about 12% of the width tall
+const HEADER_BAND = 0.12;
+const MIN_HEADER_HEIGHT = 80;
+// Body text is measured on sentence-length lines, as headings and buttons are short.
+// Lines that take in a logo or icons come out tall, so the lower quartile is used.
+const BODY_LINE_WORDS = 4;
+const BODY_LINE_PERCENTILE = 0.25;
+// How much taller than body text headlines and wordmark logos are
+const HEADLINE_SCALE = 1.4;
+const WORDMARK_SCALE = 1.3;
+// Headline lines without descenders come out shorter than the first
+const HEADLINE_LINE_TOLERANCE = 0.25;
+// The first screen is roughly as tall as it is wide on desktop and twice that on a phone
+const FIRST_SCREEN = { desktop: 0.7, mobile: 2.2 };
+
+// A filled button is a label with a flat band around it that differs from the page
+const BUTTON_PADDING = 0.6;
+const BUTTON_FLATNESS = 18;
+const BUTTON_CONTRAST = 40;
+// ...and the band ends near the label; a dark footer is flat all the way across
+const BUTTON_ROW_SPAN = 2;
+const BUTTON_ROW_SHARE = 0.6;
+// OCR skips labels inside filled shapes, so solid wide boxes that stand out from the
+// page are read again on their own. Sizes are in page pixels.
+const BUTTON_SAMPLE_WIDTH = 640;
+const BUTTON_HEIGHT = { min: 20, max: 120 };
+const BUTTON_MAX_WIDTH = 0.5; // of the page
+const BUTTON_ASPECT = 1.5;
+const BUTTON_FILL = 0.6; // share of the box the fill covers, around the label
+const MAX_BUTTON_READS = 12;
+
+// WCAG AA for body text
+const MIN_CONTRAST = 4.5;
+
+// Colors are bucketed to 4 bits per channel; photos spread thinly over many buckets
+const PALETTE_SAMPLE_WIDTH = 64;
+const BACKGROUND_SAMPLE_WIDTH = 256;
+const PALETTE_SHARE = 0.03;
+
+// Brand icons are found on a reduced copy where they're a few pixels to a few dozen across
+const ICON_SAMPLE_WIDTH = 480;
+const ICON_SIZE = { min: 6, max: 48 };
+const ICON_COLOR_DISTANCE = 60;
+const LOGO_SAMPLE_WIDTH = 480;
+const LOGO_FOREGROUND = 40;
+// Share of the header height a graphic must reach to count as a logo
+const LOGO_HEIGHT = 0.4;
+
+// Same keywords as the live page check
+const KEYWORDS = ['beauty', 'spa', 'salon', 'hair', 'stylist', 'treatment', 'service', 'wellness'];
+
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?\(?\d{2,5}\)?[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b/g;
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+const ADDRESS_PATTERNS = [
+  /\b\d{1,5}\s+(?:[A-Z][\w'-]*\s+){1,3}(?:street|st|road|rd|avenue|ave|lane|ln|drive|dr|boulevard|blvd|way|place|pl|square|sq|parade|court|ct)\b\.?/gi,
+  /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g, // UK postcode
+  /\b[A-Z][a-z]+,?\s+[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g // US city, state and ZIP
+];
+const LOCATION_PATTERN = /\b(find us|our location|directions|visit us|address|get here)\b/i;
+const BOOKING_PATTERN = /\b(book(ing)?( now| online| an appointment| your)?|appointments?|schedule( now| online)?|reserve)\b/i;
+
+const SOCIAL_TEXT_PATTERNS: Record<SocialNetwork, RegExp> = {
+  instagram: /\binstagram\b|instagram\.com/i,
+  facebook: /\bfacebook\b|facebook\.com|\bfb\.com/i,
+  tiktok: /\btik ?tok\b/i
+};
+
+type Rgb = [number, number, number];
+
+// Facebook's icon is one blue; Instagram's gradient runs from purple to orange,
+// so its icon needs both ends, which keeps pink salon branding from matching
+const FACEBOOK_COLORS: Rgb[] = [[24, 119, 242], [59, 89, 152], [66, 103, 178]];
+const INSTAGRAM_COLORS: Rgb[] = [[131, 58, 180], [193, 53, 132], [225, 48, 108], [253, 29, 29], [245, 96, 64], [252, 175, 69]];
+const INSTAGRAM_ENDS: Rgb[][] = [[[131, 58, 180], [193, 53, 132]], [[245, 96, 64], [252, 175, 69]]];
+
+interface RgbImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+interface Component extends BoundingBox {
+  pixels: number[];
+}
+
+const distance = (a: Rgb, b: Rgb): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+const pixelAt = (image: RgbImage, index: number): Rgb =>
+  [image.data[index * 3], image.data[index * 3 + 1], image.data[index * 3 + 2]];
+
+const lumaOf = ([r, g, b]: Rgb): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// WCAG relative luminance
+const luminanceOf = (color: Rgb): number => {
+  const [r, g, b] = color.map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const percentile = (values: number[], share: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length * share)];
+};
+
+const unique = (values: string[]): string[] => [...new Set(values.map(value => value.trim()).filter(Boolean))];
+
+async function readRgb(image: Buffer, width?: number, region?: BoundingBox): Promise<RgbImage> {
+  let pipeline = sharp(image);
+  if (region) pipeline = pipeline.extract(region);
+  if (width) pipeline = pipeline.resize({ width });
+  const { data, info } = await pipeline.removeAlpha().toColourspace('srgb').raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+// 4-connected regions of the mask, as boxes with their pixel indexes
+function components(mask: Uint8Array, width: number, height: number): Component[] {
+  const seen = new Uint8Array(mask.length);
+  const found: Component[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const pixels: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    let left = width, right = 0, top = height, bottom = 0;
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      pixels.push(index);
+      const x = index % width;
+      const y = Math.floor(index / width);
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      for (const next of neighbours) {
+        if (next >= 0 && next < mask.length && mask[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    found.push({ left, top, width: right - left + 1, height: bottom - top + 1, pixels });
+  }
+  return found;
+}
+
+const isIconSized = (component: Component): boolean => {
+  const aspect = component.width / component.height;
+  return component.width >= ICON_SIZE.min && component.width <= ICON_SIZE.max &&
+    component.height >= ICON_SIZE.min && component.height <= ICON_SIZE.max &&
+    aspect >= 0.6 && aspect <= 1.6 &&
+    component.pixels.length / (component.width * component.height) >= 0.25;
+};
+
+interface BrandIcon {
+  network: SocialNetwork;
+  box: BoundingBox; // in sample pixels
+}
+
+function findBrandIcons(sample: RgbImage): BrandIcon[] {
+  const pixelCount = sample.width * sample.height;
+  const maskFor = (colors: Rgb[]): Uint8Array => {
+    const mask = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      const pixel = pixelAt(sample, i);
+      if (colors.some(color => distance(pixel, color) < ICON_COLOR_DISTANCE)) mask[i] = 1;
+    }
+    return mask;
+  };
+
+  const icons: BrandIcon[] = [];
+  const facebookIcon = components(maskFor(FACEBOOK_COLORS), sample.width, sample.height).find(isIconSized);
+  if (facebookIcon) icons.push({ network: 'facebook', box: facebookIcon });
+
+  const gradientIcon = components(maskFor(INSTAGRAM_COLORS), sample.width, sample.height)
+    .filter(isIconSized)
+    .find(component => INSTAGRAM_ENDS.every(end =>
+      component.pixels.some(index => end.some(color => distance(pixelAt(sample, index), color) < ICON_COLOR_DISTANCE))));
+  if (gradientIcon) icons.push({ network: 'instagram', box: gradientIcon });
+
+  return icons;
+}
+
+const scaleBox = (box: BoundingBox, scale: number): BoundingBox => ({
+  left: Math.round(box.left / scale),
+  top: Math.round(box.top / scale),
+  width: Math.round(box.width / scale),
+  height: Math.round(box.height / scale)
+});
+
+const unionBox = (boxes: BoundingBox[]): BoundingBox => {
+  const left = Math.min(...boxes.map(box => box.left));
+  const top = Math.min(...boxes.map(box => box.top));
+  return {
+    left,
+    top,
+    width: Math.max(...boxes.map(box => box.left + box.width)) - left,
+    height: Math.max(...boxes.map(box => box.top + box.height)) - top
+  };
+};
+
+// Most common gray level, i.e. the page background
+function backgroundLuma(image: RgbImage): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < image.width * image.height; i++) histogram[Math.round(lumaOf(pixelAt(image, i)))]++;
+  return histogram.indexOf(Math.max(...histogram));
+}
+
+function lumaStats(image: RgbImage, boxes: BoundingBox[]): { mean: number; stdDev: number } {
+  const values: number[] = [];
+  boxes.forEach(box => {
+    for (let y = Math.max(0, box.top); y < Math.min(image.height, box.top + box.height); y++) {
+      for (let x = Math.max(0, box.left); x < Math.min(image.width, box.left + box.width); x++) {
+        values.push(lumaOf(pixelAt(image, y * image.width + x)));
+      }
+    }
+  });
+  if (values.length === 0) return { mean: 0, stdDev: Infinity };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return { mean, stdDev: Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length) };
+}
+
+function shareNear(image: RgbImage, box: BoundingBox, luma: number): number {
+  let near = 0, total = 0;
+  for (let y = Math.max(0, box.top); y < Math.min(image.height, box.top + box.height); y++) {
+    for (let x = Math.max(0, box.left); x < Math.min(image.width, box.left + box.width); x++) {
+      total++;
+      if (Math.abs(lumaOf(pixelAt(image, y * image.width + x)) - luma) <= BUTTON_FLATNESS) near++;
+    }
+  }
+  return total > 0 ? near / total : 0;
+}
+
+// The strips above, below and beside the label must be one flat color unlike the page
+function isButton(image: RgbImage, line: OcrLine, background: number): boolean {
+  const pad = Math.max(2, Math.round(line.box.height * BUTTON_PADDING));
+  const { left, top, width, height } = line.box;
+  const strips: BoundingBox[] = [
+    { left: left - pad, top: top - pad, width: width + 2 * pad, height: Math.round(pad / 2) },
+    { left: left - pad, top: top + height + Math.round(pad / 2), width: width + 2 * pad, height: Math.round(pad / 2) },
+    { left: left - pad, top, width: Math.round(pad / 2), height },
+    { left: left + width + Math.round(pad / 2), top, width: Math.round(pad / 2), height }
+  ];
+  if (strips.some(strip => strip.left < 0 || strip.top < 0 || strip.left + strip.width > image.width || strip.top + strip.height > image.height)) {
+    return false;
+  }
+  const { mean, stdDev } = lumaStats(image, strips);
+  if (stdDev >= BUTTON_FLATNESS || Math.abs(mean - background) <= BUTTON_CONTRAST) return false;
+
+  const span = width * BUTTON_ROW_SPAN;
+  const row = { left: Math.round(left - span), top: top - pad, width: Math.round(width + 2 * span), height: Math.round(pad / 2) };
+  return shareNear(image, row, mean) < BUTTON_ROW_SHARE;
+}
+
+interface ButtonShape {
+  box: BoundingBox; // in page pixels
+  lightText: boolean;
+}
+
+const contains = (box: BoundingBox, line: OcrLine): boolean => {
+  const x = line.box.left + line.box.width / 2;
+  const y = line.box.top + line.box.height / 2;
+  return x >= box.left && x <= box.left + box.width && y >= box.top && y <= box.top + box.height;
+};
+
+// Solid, wide shapes that stand out from the page. The label is whatever inside differs
+// from the fill, and it's light text when most of that is lighter than the fill.
+function findButtonShapes(sample: RgbImage, background: number, scale: number): ButtonShape[] {
+  const pixelCount = sample.width * sample.height;
+  const mask = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    if (Math.abs(lumaOf(pixelAt(sample, i)) - background) > BUTTON_CONTRAST) mask[i] = 1;
+  }
+
+  return components(mask, sample.width, sample.height)
+    .filter(shape => {
+      const height = shape.height / scale;
+      return height >= BUTTON_HEIGHT.min && height <= BUTTON_HEIGHT.max &&
+        shape.width <= sample.width * BUTTON_MAX_WIDTH && shape.width >= shape.height * BUTTON_ASPECT &&
+        shape.pixels.length / (shape.width * shape.height) >= BUTTON_FILL;
+    })
+    .map(shape => {
+      const fill = percentile(shape.pixels.map(index => lumaOf(pixelAt(sample, index))), 0.5);
+      let lighter = 0, darker = 0;
+      for (let y = shape.top; y < shape.top + shape.height; y++) {
+        for (let x = shape.left; x < shape.left + shape.width; x++) {
+          const luma = lumaOf(pixelAt(sample, y * sample.width + x));
+          if (luma > fill + BUTTON_CONTRAST) lighter++;
+          else if (luma < fill - BUTTON_CONTRAST) darker++;
+        }
+      }
+      return { box: scaleBox(shape, scale), lightText: lighter > darker };
+    });
+}
+
+// Darkest and lightest few percent of the line's words stand in for text and
+// background; word boxes are tight, so icons and gaps in the line don't dilute the text
+function lineContrast(image: RgbImage, line: OcrLine): number {
+  const luminances: number[] = [];
+  const boxes = line.words.length > 0 ? line.words.map(word => word.box) : [line.box];
+  for (const box of boxes) {
+    for (let y = box.top; y < Math.min(image.height, box.top + box.height); y++) {
+      for (let x = box.left; x < Math.min(image.width, box.left + box.width); x++) {
+        luminances.push(luminanceOf(pixelAt(image, y * image.width + x)));
+      }
+    }
+  }
+  if (luminances.length === 0) return 0;
+  luminances.sort((a, b) => a - b);
+  const dark = luminances[Math.floor(luminances.length * 0.05)];
+  const light = luminances[Math.floor(luminances.length * 0.95)];
+  return (light + 0.05) / (dark + 0.05);
+}
+
+function countPalette(sample: RgbImage): number {
+  const buckets = new Map<number, number>();
+  const pixelCount = sample.width * sample.height;
+  for (let i = 0; i < pixelCount; i++) {
+    const [r, g, b] = pixelAt(sample, i);
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    buckets.set(key, (buckets.get(key) ?? 0) + 1);
+  }
+  return [...buckets.values()].filter(count => count / pixelCount >= PALETTE_SHARE).length;
+}
+
+// A wordmark is header text much bigger than the body; a graphic logo is a sizeable
+// shape in the left or middle of the header that OCR didn't read as words
+async function detectLogo(image: Buffer, header: BoundingBox, words: OcrWord[], bodyWordHeight: number): Promise<BoundingBox | null> {
+  // A round or square mark is sometimes read as a single letter, so only real words count
+  const headerWords = words.filter(word => word.box.top < header.top + header.height && /\p{L}{2,}/u.test(word.text));
+  const wordmark = headerWords.find(word => bodyWordHeight > 0 && word.box.height >= bodyWordHeight * WORDMARK_SCALE);
+  if (wordmark) return wordmark.box;
+
+  const sample = await readRgb(image, Math.min(LOGO_SAMPLE_WIDTH, header.width), header);
+  const scale = sample.width / header.width;
+  const background = backgroundLuma(sample);
+  const mask = new Uint8Array(sample.width * sample.height);
+  for (let i = 0; i < mask.length; i++) {
+    if (Math.abs(lumaOf(pixelAt(sample, i)) - background) > LOGO_FOREGROUND) mask[i] = 1;
+  }
+  // Words are cleared so navigation links don't count
+  headerWords.forEach(({ box }) => {
+    for (let y = Math.floor(box.top * scale) - 1; y <= Math.ceil((box.top + box.height) * scale) + 1; y++) {
+      for (let x = Math.floor(box.left * scale) - 1; x <= Math.ceil((box.left + box.width) * scale) + 1; x++) {
+        if (x >= 0 && y >= 0 && x < sample.width && y < sample.height) mask[y * sample.width + x] = 0;
+      }
+    }
+  });
+
+  const mark = components(mask, sample.width, sample.height).find(component => {
+    const centre = (component.left + component.width / 2) / sample.width;
+    const placed = centre < 0.4 || (centre > 0.35 && centre < 0.65);
+    return placed && component.height >= sample.height * LOGO_HEIGHT && component.width >= sample.height * LOGO_HEIGHT / 2;
+  });
+  return mark ? scaleBox(mark, scale) : null;
+}
+
+// Tallest confident line on the first screen below the header, with any following
+// lines of the same size, when it's clearly bigger than body text
+function findHeadline(lines: OcrLine[], headerBottom: number, firstScreenBottom: number, bodyHeight: number): { text: string; box: BoundingBox } | null {
+  const candidates = lines.filter(line =>
+    line.box.top >= headerBottom && line.box.top < firstScreenBottom && /\p{L}{2,}/u.test(line.text));
+  if (candidates.length === 0) return null;
+
+  const tallest = candidates.reduce((best, line) => line.box.height > best.box.height ? line : best);
+  if (tallest.box.height < bodyHeight * HEADLINE_SCALE) return null;
+
+  const parts = [tallest];
+  for (const line of lines.slice(lines.indexOf(tallest) + 1)) {
+    const previous = parts[parts.length - 1];
+    const sameSize = Math.abs(line.box.height - tallest.box.height) <= tallest.box.height * HEADLINE_LINE_TOLERANCE;
+    const close = line.box.top - (previous.box.top + previous.box.height) < tallest.box.height;
+    if (!sameSize || !close) break;
+    parts.push(line);
+  }
+  return { text: parts.map(line => line.text.trim()).join(' '), box: unionBox(parts.map(line => line.box)) };
+}
+
+// Reads what a visitor would see on the screenshot. Anything a page only shows in its
+// code (meta tags, alt text, load time) is left to the caller to mark as unknown.
+export async function readWebsiteScreenshot(image: Buffer): Promise<WebsiteScreenshotReading> {
+  const ocr = await recognizeText(image);
+  const page = await readRgb(image);
+  const legible = (line: OcrLine) => line.confidence >= MIN_LINE_CONFIDENCE && line.text.trim() !== '';
+  const lines = ocr.lines.filter(legible);
+  const background = backgroundLuma(await readRgb(image, BACKGROUND_SAMPLE_WIDTH));
+
+  // Labels on filled buttons, read from each button on its own
+  const buttonSample = await readRgb(image, Math.min(BUTTON_SAMPLE_WIDTH, page.width));
+  const unread = findButtonShapes(buttonSample, background, buttonSample.width / page.width)
+    .filter(shape => !lines.some(line => contains(shape.box, line)))
+    .slice(0, MAX_BUTTON_READS);
+  for (const { box, lightText } of unread) {
+    lines.push(...(await recognizeText(image, box, { lightText })).lines.filter(legible));
+  }
+  lines.sort((a, b) => a.box.top - b.box.top);
+  const words = lines.flatMap(line => line.words).filter(word => word.confidence >= MIN_WORD_CONFIDENCE);
+  const text = lines.map(line => line.text.trim()).join('\n');
+
+  const bodyLines = lines.filter(line => line.words.length >= BODY_LINE_WORDS);
+  const sizedLines = bodyLines.length > 0 ? bodyLines : lines;
+  const bodyHeight = percentile(sizedLines.map(line => line.box.height), BODY_LINE_PERCENTILE);
+  const bodyWordHeight = percentile(sizedLines.flatMap(line => line.words).map(word => word.box.height), 0.5);
+  const isMobileLayout = bodyHeight / page.width >= MOBILE_TEXT_SHARE;
+  const header: BoundingBox = {
+    left: 0,
+    top: 0,
+    width: page.width,
+    height: Math.min(page.height, Math.max(MIN_HEADER_HEIGHT, Math.round(page.width * HEADER_BAND)))
+  };
+  const firstScreenBottom = page.width * (isMobileLayout ? FIRST_SCREEN.mobile : FIRST_SCREEN.desktop);
+
+  const buttons = lines.filter(line => isButton(page, line, background));
+  const bookingLines = [
+    ...lines.filter(line => buttons.includes(line) && BOOKING_PATTERN.test(line.text)),
+    ...lines.filter(line => !buttons.includes(line) && BOOKING_PATTERN.test(line.text))
+  ];
+
+  const phones = unique((text.match(PHONE_PATTERN) || []).filter(phone => {
+    const digits = phone.replace(/\D/g, '').length;
+    return digits >= 9 && digits <= 13;
+  }));
+  const emails = unique(text.match(EMAIL_PATTERN) || []);
+  const addresses = unique(ADDRESS_PATTERNS.flatMap(pattern => text.match(pattern) || []));
+
+  const iconSample = await readRgb(image, Math.min(ICON_SAMPLE_WIDTH, page.width));
+  const icons = findBrandIcons(iconSample);
+  const textNetworks = (Object.keys(SOCIAL_TEXT_PATTERNS) as SocialNetwork[]).filter(network => SOCIAL_TEXT_PATTERNS[network].test(text));
+  const socialNetworks = [...new Set([...textNetworks, ...icons.map(icon => icon.network)])];
+
+  const allWords = text.toLowerCase().split(/\s+/).filter(Boolean);
+  const keywordCount = allWords.filter(word => KEYWORDS.includes(word.replace(/[^a-z]/g, ''))).length;
+
+  const textLines = lines.filter(line => /\p{L}{2,}/u.test(line.text));
+  const contrasts = textLines.map(line => ({ line, contrast: lineContrast(page, line) }));
+  const lowest = contrasts.reduce<typeof contrasts[number] | null>(
+    (worst, entry) => !worst || entry.contrast < worst.contrast ? entry : worst, null);
+
+  const headline = findHeadline(lines, header.height, firstScreenBottom, bodyHeight);
+  const logo = await detectLogo(image, header, words, bodyWordHeight);
+  const lineWith = (value: string | undefined): BoundingBox | undefined =>
+    value ? lines.find(line => line.text.includes(value))?.box : undefined;
+  const socialLine = textNetworks.length > 0
+    ? lines.find(line => SOCIAL_TEXT_PATTERNS[textNetworks[0]].test(line.text))?.box
+    : undefined;
+
+  const regions: Partial<Record<WebsiteScreenshotRegion, BoundingBox>> = {
+    headline: headline?.box,
+    logo: logo ?? undefined,
+    booking: bookingLines[0]?.box,
+    phone: lineWith(phones[0]),
+    email: lineWith(emails[0]),
+    address: lineWith(addresses[0]),
+    social: icons.length > 0 ? scaleBox(icons[0].box, iconSample.width / page.width) : socialLine,
+    lowestContrast: lowest && lowest.contrast < MIN_CONTRAST ? lowest.line.box : undefined
+  };
+
+  return {
+    text,
+    confidence: Math.round(ocr.confidence),
+    isMobileLayout,
+    headline: headline?.text ?? null,
+    phones,
+    emails,
+    addresses,
+    mentionsLocation: LOCATION_PATTERN.test(text),
+    bookingLabels: unique(bookingLines.map(line => line.text)),
+    buttonCount: buttons.length,
+    socialNetworks,
+    hasLogo: logo !== null,
+    paletteSize: countPalette(await readRgb(image, PALETTE_SAMPLE_WIDTH)),
+    keywordDensity: allWords.length > 0 ? Math.round((keywordCount / allWords.length) * 10000) / 100 : 0,
+    contrastPassRate: contrasts.length > 0
+      ? Math.round((contrasts.filter(entry => entry.contrast >= MIN_CONTRAST).length / contrasts.length) * 100) / 100
+      : null,
+    // Findings that weren't made have no region
+    regions: Object.fromEntries(Object.entries(regions).filter(([, box]) => box !== undefined))
+  };
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkUrl } from '@/lib/website/links';
+import { checkSecurity } from '@/lib/website/security';
+
+// The redirect check always asks port 80, so its answer is set per test
+vi.mock('@/lib/website/links', () => ({ checkUrl: vi.fn() }));
+
+// Nothing listens on port 1, so the certificate check fails fast
+const HTTPS_PAGE = 'https://127.0.0.1:1/';
+
+beforeEach(() => {
+  vi.mocked(checkUrl).mockResolvedValue({ status: 200, redirects: ['https://127.0.0.1/'] });
+});
+
+describe('checkSecurity', () => {
+  it('scores https, the redirect and a page without mixed content', async () => {
+    const report = await checkSecurity(HTTPS_PAGE, {}, 0);
+
+    expect(report).toEqual({
+      https: true,
+      redirectsToHttps: true,
+      certificate: null,
+      mixedContent: 0,
+      headers: {},
+      score: 55
+    });
+    expect(checkUrl).toHaveBeenCalledWith('http://127.0.0.1/');
+  });
+
+  it('takes points off for mixed content and a missing redirect', async () => {
+    vi.mocked(checkUrl).mockResolvedValue({ status: 200, redirects: [] });
+    const report = await checkSecurity(HTTPS_PAGE, {}, 3);
+
+    expect(report.redirectsToHttps).toBe(false);
+    expect(report.mixedContent).toBe(3);
+    expect(report.score).toBe(30);
+  });
+
+  it('gives the redirect the benefit of the doubt when nothing answers over http', async () => {
+    vi.mocked(checkUrl).mockResolvedValue({ status: null, error: 'fetch failed', redirects: [] });
+    const report = await checkSecurity(HTTPS_PAGE, {}, 0);
+
+    expect(report.redirectsToHttps).toBeNull();
+    expect(report.score).toBe(55);
+  });
+
+  it('gives a plain http page nothing for transport', async () => {
+    vi.mocked(checkUrl).mockResolvedValue({ status: 200, redirects: [] });
+    const report = await checkSecurity('http://127.0.0.1:1/', {}, 0);
+
+    expect(report).toMatchObject({ https: false, redirectsToHttps: false, certificate: null, score: 0 });
+  });
+
+  it('reports the security headers sent, with their values', async () => {
+    const report = await checkSecurity(HTTPS_PAGE, {
+      'strict-transport-security': 'max-age=31536000; includeSubDomains',
+      'content-security-policy': "default-src 'self'",
+      'x-content-type-options': 'nosniff',
+      'server': 'nginx'
+    }, 0);
+
+    expect(report.headers).toEqual({
+      'strict-transport-security': 'max-age=31536000; includeSubDomains',
+      'content-security-policy': "default-src 'self'",
+      'x-content-type-options': 'nosniff'
+    });
+    expect(report.score).toBe(55 + 8 + 4 + 2);
+  });
+
+  it('only counts HSTS with a max-age above zero', async () => {
+    for (const value of ['max-age=0', 'includeSubDomains']) {
+      const report = await checkSecurity(HTTPS_PAGE, { 'strict-transport-security': value }, 0);
+      expect(report.headers).toEqual({});
+      expect(report.score).toBe(55);
+    }
+    const quoted = await checkSecurity(HTTPS_PAGE, { 'strict-transport-security': 'max-age="86400"' }, 0);
+    expect(quoted.headers['strict-transport-security']).toBe('max-age="86400"');
+  });
+
+  it('accepts CSP frame-ancestors in place of X-Frame-Options', async () => {
+    const report = await checkSecurity(HTTPS_PAGE, { 'content-security-policy': "frame-ancestors 'none'" }, 0);
+
+    expect(report.headers['x-frame-options']).toBe('via Content-Security-Policy frame-ancestors');
+    expect(report.score).toBe(55 + 4 + 4);
+  });
+});
@@ -0,0 +1,100 @@
+import net from 'net';
+import tls from 'tls';
+import { SECURITY_HEADER_LABELS, type CertificateCheck, type SecurityHeader, type SecurityReport } from '@/types/website';
+import { checkUrl } from '@/lib/website/links';
+
+const TLS_TIMEOUT_MS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Certificates this close to expiry usually mean renewal isn't automated
+const EXPIRY_WARNING_DAYS = 14;
+
+// Points out of 100 for the security sub-score
+const SECURITY_POINTS = {
+  https: 30,
+  redirect: 15,
+  certificate: 25,
+  noMixedContent: 10
+};
+const HEADER_POINTS: Record<SecurityHeader, number> = {
+  'strict-transport-security': 8,
+  'content-security-policy': 4,
+  'x-frame-options': 4,
+  'x-content-type-options': 2,
+  'referrer-policy': 1,
+  'permissions-policy': 1
+};
+
+// Connects without rejecting bad certificates so the problem can be reported
+export function inspectCertificate(hostname: string, port = 443): Promise<CertificateCheck | null> {
+  return new Promise(resolve => {
+    // SNI only takes host names, not IP addresses
+    const servername = net.isIP(hostname) ? undefined : hostname;
+    const socket = tls.connect({ host: hostname, port, servername, rejectUnauthorized: false });
+    socket.setTimeout(TLS_TIMEOUT_MS, () => {
+      socket.destroy();
+      resolve(null);
+    });
+    socket.once('error', () => resolve(null));
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      socket.end();
+      if (!certificate || !certificate.valid_to) {
+        resolve(null);
+        return;
+      }
+      const hostnameMatches = tls.checkServerIdentity(hostname, certificate) === undefined;
+      const expires = new Date(certificate.valid_to);
+      resolve({
+        // A hostname mismatch also leaves the socket unauthorized; only chain errors count here
+        chainValid: socket.authorized || (!hostnameMatches && socket.authorizationError?.toString() === 'ERR_TLS_CERT_ALTNAME_INVALID'),
+        hostnameMatches,
+        issuer: certificate.issuer?.O || certificate.issuer?.CN || '',
+        expiresAt: expires.toISOString(),
+        daysLeft: Math.floor((expires.getTime() - Date.now()) / DAY_MS)
+      });
+    });
+  });
+}
+
+// Whether the plain http address ends up on https; null when nothing answers over http
+async function checkHttpsRedirect(hostname: string): Promise<boolean | null> {
+  const outcome = await checkUrl(`http://${hostname}/`);
+  if (outcome.status === null && outcome.redirects.length === 0) return null;
+  return outcome.redirects.some(url => url.startsWith('https:'));
+}
+
+// max-age=0 tells browsers to forget the policy, as does a header without one
+const hstsMaxAge = (value: string): number => Number(value.match(/max-age\s*=\s*"?(\d+)/i)?.[1] ?? 0);
+
+export const isCertificateSound = (certificate: CertificateCheck | null): boolean =>
+  certificate !== null && certificate.chainValid && certificate.hostnameMatches && certificate.daysLeft > EXPIRY_WARNING_DAYS;
+
+// Checks the audited page's transport and headers; `headers` are from its main response
+export async function checkSecurity(pageUrl: string, headers: Record<string, string>, mixedContent: number): Promise<SecurityReport> {
+  const { hostname, protocol, port } = new URL(pageUrl);
+  const https = protocol === 'https:';
+  const [redirectsToHttps, certificate] = await Promise.all([
+    checkHttpsRedirect(hostname),
+    https ? inspectCertificate(hostname, port ? Number(port) : 443) : Promise.resolve(null)
+  ]);
+
+  const present: SecurityReport['headers'] = {};
+  for (const header of Object.keys(SECURITY_HEADER_LABELS) as SecurityHeader[]) {
+    if (headers[header]) present[header] = headers[header];
+  }
+  if (present['strict-transport-security'] && hstsMaxAge(present['strict-transport-security']) === 0) {
+    delete present['strict-transport-security'];
+  }
+  // frame-ancestors in the CSP does the job of X-Frame-Options
+  if (!present['x-frame-options'] && /frame-ancestors/i.test(present['content-security-policy'] ?? '')) {
+    present['x-frame-options'] = 'via Content-Security-Policy frame-ancestors';
+  }
+
+  const score = (https ? SECURITY_POINTS.https : 0) +
+    (https && redirectsToHttps !== false ? SECURITY_POINTS.redirect : 0) +
+    (isCertificateSound(certificate) ? SECURITY_POINTS.certificate : 0) +
+    (https && mixedContent === 0 ? SECURITY_POINTS.noMixedContent : 0) +
+    (Object.keys(present) as SecurityHeader[]).reduce((sum, header) => sum + HEADER_POINTS[header], 0);
+
+  return { https, redirectsToHttps, certificate, mixedContent, headers: present, score };
+}
@@ -0,0 +1,91 @@
+import { gzipSync } from 'zlib';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { readSiteIndex } from '@/lib/website/indexing';
+import { readSitemaps } from '@/lib/website/sitemap';
+import { startServer, type TestServer } from '@/lib/website/__fixtures__/server';
+
+const urlset = (...urls: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls.join('')}</urlset>`;
+
+// Unpacks to more than a sitemap may hold
+const padded = gzipSync(urlset(' '.repeat(60 * 1024 * 1024)));
+
+let server: TestServer;
+// Set per test; robots.txt is missing while null
+let robotsTxt: string | null;
+
+const files = (origin: string): Record<string, string | Buffer> => ({
+  '/sitemap_index.xml': `<sitemapindex>
+    <sitemap><loc>${origin}/pages.xml.gz</loc></sitemap>
+    <sitemap><loc>${origin}/posts.xml</loc></sitemap>
+    <sitemap><loc>${origin}/missing.xml</loc></sitemap>
+    <sitemap><loc>${origin}/sitemap_index.xml</loc></sitemap>
+  </sitemapindex>`,
+  // Served as a file, without a gzip content encoding
+  '/pages.xml.gz': gzipSync(urlset(
+    `<url><loc>${origin}/</loc><lastmod>2026-09-01</lastmod></url>`,
+    `<url><loc>${origin}/services?type=hair&amp;colour=1</loc></url>`
+  )),
+  '/posts.xml': urlset(`<url><loc><![CDATA[${origin}/blog/autumn-colours]]></loc><lastmod>2026-08-14T09:00:00Z</lastmod></url>`),
+  '/about': '<html><body>Not a sitemap</body></html>',
+  '/padded.xml.gz': padded
+});
+
+beforeAll(async () => {
+  server = await startServer((request, response) => {
+    if (request.url === '/robots.txt' && robotsTxt !== null) {
+      response.writeHead(200).end(robotsTxt);
+      return;
+    }
+    const body = files(server.origin)[request.url ?? ''];
+    response.writeHead(body ? 200 : 404).end(body ?? 'Not found');
+  });
+});
+
+beforeEach(() => {
+  robotsTxt = null;
+});
+
+afterAll(() => server.close());
+
+describe('readSitemaps', () => {
+  it('follows an index down to gzipped and plain sitemaps, once each', async () => {
+    const reading = await readSitemaps([`${server.origin}/sitemap_index.xml`]);
+
+    expect(reading).toEqual({
+      files: [`${server.origin}/sitemap_index.xml`, `${server.origin}/pages.xml.gz`, `${server.origin}/posts.xml`],
+      entries: [
+        { loc: `${server.origin}/`, lastmod: '2026-09-01' },
+        { loc: `${server.origin}/services?type=hair&colour=1`, lastmod: null },
+        { loc: `${server.origin}/blog/autumn-colours`, lastmod: '2026-08-14T09:00:00Z' }
+      ],
+      urlCount: 3
+    });
+  });
+
+  it('skips pages that are not sitemaps', async () => {
+    expect(await readSitemaps([`${server.origin}/about`])).toEqual({ files: [], entries: [], urlCount: 0 });
+  });
+
+  it('treats a gzipped sitemap that unpacks too large as unreadable', async () => {
+    expect(await readSitemaps([`${server.origin}/padded.xml.gz`])).toEqual({ files: [], entries: [], urlCount: 0 });
+  });
+});
+
+describe('readSiteIndex', () => {
+  it('reads the sitemaps robots.txt declares', async () => {
+    robotsTxt = `User-agent: *\nDisallow: /admin\nSitemap: ${server.origin}/posts.xml`;
+    const { robots, sitemap } = await readSiteIndex(server.origin);
+
+    expect(robots.found).toBe(true);
+    expect(sitemap.files).toEqual([`${server.origin}/posts.xml`]);
+  });
+
+  it('falls back to the conventional locations', async () => {
+    const { robots, sitemap } = await readSiteIndex(server.origin);
+
+    expect(robots.found).toBe(false);
+    expect(sitemap.files[0]).toBe(`${server.origin}/sitemap_index.xml`);
+    expect(sitemap.urlCount).toBe(3);
+  });
+});
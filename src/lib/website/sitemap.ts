@@ -0,0 +1,78 @@
+import { gunzipSync } from 'zlib';
+
+const FETCH_TIMEOUT_MS = 10000;
+// Sitemap indexes can nest; this many files is plenty for a salon site
+const MAX_SITEMAP_FILES = 10;
+// Entries kept for cross-checking against robots.txt; counting carries on past it
+const MAX_ENTRIES = 5000;
+// The sitemap protocol's own limit; a gzipped sitemap that unpacks to more is unreadable
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod: string | null;
+}
+
+export interface SitemapReading {
+  files: string[]; // the sitemaps that were read, indexes included
+  entries: SitemapEntry[];
+  urlCount: number;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+function textOf(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>\\s*(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?\\s*</${tag}>`, 'i'));
+  return match ? match[1].trim().replace(/&(amp|lt|gt|quot|apos);/g, (_, name) => ENTITIES[name]) : null;
+}
+
+function blocksOf(xml: string, tag: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')), match => match[1]);
+}
+
+// Gzipped sitemaps are served as files, so they're recognised by their first bytes
+// rather than the content type. Missing and unreadable sitemaps are null.
+async function fetchSitemap(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) return null;
+    const body = Buffer.from(await response.arrayBuffer());
+    const xml = (body[0] === 0x1f && body[1] === 0x8b ? gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES }) : body).toString('utf8');
+    return /<(urlset|sitemapindex)[\s>]/i.test(xml) ? xml : null;
+  } catch (error) {
+    console.warn(`Could not read sitemap ${url}:`, error);
+    return null;
+  }
+}
+
+// Reads the given sitemaps, following sitemap indexes down to their page lists
+export async function readSitemaps(locations: string[]): Promise<SitemapReading> {
+  const reading: SitemapReading = { files: [], entries: [], urlCount: 0 };
+  const queue = [...locations];
+  const seen = new Set<string>();
+
+  while (queue.length > 0 && reading.files.length < MAX_SITEMAP_FILES) {
+    const location = queue.shift()!;
+    if (seen.has(location)) continue;
+    seen.add(location);
+
+    const xml = await fetchSitemap(location);
+    if (!xml) continue;
+    reading.files.push(location);
+
+    if (/<sitemapindex[\s>]/i.test(xml)) {
+      for (const block of blocksOf(xml, 'sitemap')) {
+        const loc = textOf(block, 'loc');
+        if (loc) queue.push(loc);
+      }
+      continue;
+    }
+    for (const block of blocksOf(xml, 'url')) {
+      const loc = textOf(block, 'loc');
+      if (!loc) continue;
+      reading.urlCount++;
+      if (reading.entries.length < MAX_ENTRIES) reading.entries.push({ loc, lastmod: textOf(block, 'lastmod') });
+    }
+  }
+  return reading;
+}
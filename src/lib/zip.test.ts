@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { buildZip } from '@/lib/__fixtures__/zip';
+import { readZipEntries } from '@/lib/zip';
+
+describe('readZipEntries', () => {
+  it('lists files and reads deflated and stored entries', () => {
+    const text = 'posts '.repeat(200);
+    const deflated = readZipEntries(buildZip({ 'content/': '', 'content/posts_1.json': text }));
+    const stored = readZipEntries(buildZip({ 'media/photo.jpg': Buffer.from([0xff, 0xd8, 0xff]) }, { deflate: false }));
+
+    expect(deflated.map(entry => [entry.name, entry.size])).toEqual([['content/posts_1.json', text.length]]);
+    expect(deflated[0].read().toString('utf8')).toBe(text);
+    expect([...stored[0].read()]).toEqual([0xff, 0xd8, 0xff]);
+  });
+
+  it('finds the end record behind an archive comment', () => {
+    const archive = buildZip({ 'a.json': '{}' });
+    const comment = Buffer.from('Exported by Instagram');
+    archive.writeUInt16LE(comment.length, archive.length - 2);
+
+    expect(readZipEntries(Buffer.concat([archive, comment]))[0].read().toString()).toBe('{}');
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => readZipEntries(Buffer.from('not a zip'))).toThrow('not a valid ZIP archive');
+    expect(() => readZipEntries(Buffer.alloc(64))).toThrow('not a valid ZIP archive');
+  });
+
+  it('rejects encrypted and damaged archives', () => {
+    const encrypted = buildZip({ 'a.json': '{}' });
+    const directoryStart = encrypted.readUInt32LE(encrypted.length - 6);
+    encrypted.writeUInt16LE(0x1, directoryStart + 8);
+    expect(() => readZipEntries(encrypted)).toThrow('Encrypted ZIP archives are not supported');
+
+    const damaged = buildZip({ 'a.json': '{}' });
+    damaged.writeUInt32LE(0, 0);
+    expect(() => readZipEntries(damaged)[0].read()).toThrow('damaged');
+  });
+});
@@ -0,0 +1,78 @@
+import { inflateRawSync } from 'zlib';
+
+// Just enough of the ZIP format to read the archives Instagram and Facebook
+// export: stored or deflated entries, no encryption, no ZIP64
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+// The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  size: number; // uncompressed bytes
+  read: () => Buffer;
+}
+
+function findEndOfDirectory(archive: Buffer): number {
+  const stop = Math.max(0, archive.length - MAX_END_RECORD_SEARCH);
+  for (let offset = archive.length - 22; offset >= stop; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_DIRECTORY) return offset;
+  }
+  throw new Error('The file is not a valid ZIP archive');
+}
+
+function readEntry(archive: Buffer, localOffset: number, method: number, compressedSize: number, size: number): Buffer {
+  if (archive.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+    throw new Error('The ZIP archive is damaged');
+  }
+  const start = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+  const data = archive.subarray(start, start + compressedSize);
+
+  if (method === STORED) return data;
+  if (method === DEFLATED) return inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+  throw new Error(`Unsupported ZIP compression method ${method}`);
+}
+
+// Lists the archive's files; contents are only inflated when read
+export function readZipEntries(archive: Buffer): ZipEntry[] {
+  if (archive.length < 22) throw new Error('The file is not a valid ZIP archive');
+
+  const end = findEndOfDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== DIRECTORY_ENTRY) {
+      throw new Error('The ZIP archive is damaged');
+    }
+
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (flags & 0x1) throw new Error('Encrypted ZIP archives are not supported');
+
+    if (!name.endsWith('/')) {
+      entries.push({ name, size, read: () => readEntry(archive, localOffset, method, compressedSize, size) });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -1,82 +1,66 @@
-export interface ScoringCriteria {
-  category: string;
-  items: string[];
-}
+import type { ScoringCriteria } from './scoring';
 
-export interface ScoringResult {
-  totalPoints: number;
-  maxPoints: number;
-  percentage: number;
-  details: {
-    [key: string]: {
-      score: number;
-      maxScore: number;
-      items: {
-        [key: string]: boolean;
-      };
-    };
-  };
-}
+export type { ScoringCriteria, ScoringResult } from './scoring';
 
 export const GOOGLE_BUSINESS_SCORING_CRITERIA: ScoringCriteria[] = [
   {
     category: "Profile Completeness",
     items: [
-      "Business name is accurate and consistent",
-      "Business category is correctly set",
-      "Business hours are up to date",
-      "Business description is complete",
-      "Business location is accurate"
+      { id: 'profile.name', label: "Business name is accurate and consistent", weight: 3 },
+      { id: 'profile.category', label: "Business category is correctly set", weight: 3 },
+      { id: 'profile.hours', label: "Business hours are up to date", weight: 3 },
+      { id: 'profile.description', label: "Business description is complete", weight: 2 },
+      { id: 'profile.location', label: "Business location is accurate", weight: 3 }
     ]
   },
   {
     category: "Visual Content",
     items: [
-      "Profile photo is high quality",
-      "Cover photo is present and relevant",
-      "Business photos showcase services/products",
-      "Regular photo updates",
-      "Photo quality and variety"
+      { id: 'visual.profilePhoto', label: "Profile photo is high quality", weight: 3 },
+      { id: 'visual.coverPhoto', label: "Cover photo is present and relevant", weight: 2 },
+      { id: 'visual.businessPhotos', label: "Business photos showcase services/products", weight: 3 },
+      { id: 'visual.photoUpdates', label: "Regular photo updates", weight: 2 },
+      { id: 'visual.photoQuality', label: "Photo quality and variety", weight: 2 }
     ]
   },
   {
     category: "Reviews & Ratings",
     items: [
-      "High average rating (4+ stars)",
-      "Regular review responses",
-      "Review response rate",
-      "Review quality and detail",
-      "Review recency"
+      { id: 'reviews.averageRating', label: "High average rating (4+ stars)", weight: 4 },
+      { id: 'reviews.ownerResponses', label: "Regular review responses", weight: 2 },
+      { id: 'reviews.responseRate', label: "Review response rate", weight: 3 },
+      { id: 'reviews.quality', label: "Review quality and detail", weight: 3 },
+      { id: 'reviews.recency', label: "Review recency", weight: 2 }
     ]
   },
   {
     category: "Posts & Updates",
     items: [
-      "Regular post frequency",
-      "Post variety and relevance",
-      "Post engagement",
-      "Post call-to-actions",
-      "Post visual quality"
+      { id: 'posts.frequency', label: "Regular post frequency", weight: 3 },
+      { id: 'posts.variety', label: "Post variety and relevance", weight: 2 },
+      { id: 'posts.engagement', label: "Post engagement", weight: 2 },
+      { id: 'posts.callToActions', label: "Post call-to-actions", weight: 2 },
+      { id: 'posts.visualQuality', label: "Post visual quality", weight: 1 }
     ]
   },
   {
     category: "Local SEO",
     items: [
-      "Keywords in business description",
-      "Local area keywords",
-      "Service area defined",
-      "NAP consistency",
-      "Local citations"
+      { id: 'localSeo.descriptionKeywords', label: "Keywords in business description", weight: 2 },
+      { id: 'localSeo.localKeywords', label: "Local area keywords", weight: 2 },
+      { id: 'localSeo.serviceArea', label: "Service area defined", weight: 2 },
+      { id: 'localSeo.nap', label: "NAP consistency", weight: 3 },
+      { id: 'localSeo.citations', label: "Local citations", weight: 1 }
     ]
   },
   {
     category: "Engagement & Interaction",
     items: [
-      "Message response rate",
-      "Question response rate",
-      "User interaction",
-      "Post engagement",
-      "Review interaction"
+      { id: 'engagement.messages', label: "Message response rate", weight: 2 },
+      { id: 'engagement.questions', label: "Question response rate", weight: 2 },
+      { id: 'engagement.userInteraction', label: "User interaction", weight: 2 },
+      { id: 'engagement.postEngagement', label: "Post engagement", weight: 2 },
+      { id: 'engagement.reviewInteraction', label: "Review interaction", weight: 2 }
     ]
   }
-]; 
\ No newline at end of file
+];
@@ -0,0 +1,9 @@
+declare module 'heic-decode' {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA
+  }
+  function decode(options: { buffer: ArrayBufferLike | Buffer }): Promise<DecodedImage>;
+  export default decode;
+}
@@ -0,0 +1,25 @@
+export interface BoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// A small PNG cut from a screenshot, sized for showing inline
+export interface ImageCrop {
+  image: string; // data URL
+  width: number;
+  height: number;
+}
+
+// 8-bit single channel pixels, row-major
+export interface GrayscaleImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export type UploadErrorCode = 'unsupported_type' | 'too_large' | 'corrupted';
+
+// Shared with the upload forms so they can reject files before sending them
+export const MAX_UPLOAD_MB = 20;
@@ -1,49 +1,317 @@
-export interface ScoringCriteria {
-  category: string;
-  items: string[];
-}
-
-export interface ScoringResult {
-  totalPoints: number;
-  maxPoints: number;
-  percentage: number;
-  details: {
-    [key: string]: {
-      score: number;
-      maxScore: number;
-      items: {
-        [key: string]: boolean;
-      };
-    };
-  };
-}
+import type { BoundingBox } from './image';
+import type { ScoringCriteria } from './scoring';
+
+export type { ScoringCriteria, ScoringResult } from './scoring';
 
 export const INSTAGRAM_SCORING_CRITERIA: ScoringCriteria[] = [
   {
     category: "Profile Optimization",
     items: [
-      "Profile picture quality and relevance",
-      "Bio completeness and clarity",
-      "Story highlights organization",
-      "Link in bio optimization"
+      { id: 'profile.picture', label: "Profile picture quality and relevance", weight: 3 },
+      { id: 'profile.bio', label: "Bio completeness and clarity", weight: 3 },
+      { id: 'profile.highlights', label: "Story highlights organization", weight: 2 },
+      { id: 'profile.linkInBio', label: "Link in bio optimization", weight: 2 }
     ]
   },
   {
     category: "Content Strategy",
     items: [
-      "Post frequency and consistency",
-      "Content variety and quality",
-      "Grid layout and aesthetics",
-      "Caption quality and engagement"
+      { id: 'content.frequency', label: "Post frequency and consistency", weight: 3 },
+      { id: 'content.variety', label: "Content variety and quality", weight: 2 },
+      { id: 'content.grid', label: "Grid layout and aesthetics", weight: 2 },
+      { id: 'content.captions', label: "Caption quality and engagement", weight: 3 }
     ]
   },
   {
     category: "Engagement",
     items: [
-      "Response rate to comments",
-      "Story engagement",
-      "Community interaction",
-      "Hashtag strategy"
+      { id: 'engagement.commentResponses', label: "Response rate to comments", weight: 3 },
+      { id: 'engagement.stories', label: "Story engagement", weight: 2 },
+      { id: 'engagement.community', label: "Community interaction", weight: 2 },
+      { id: 'engagement.hashtags', label: "Hashtag strategy", weight: 3 }
     ]
   }
-]; 
\ No newline at end of file
+];
+
+// Counts are null when the page didn't show them; logged-out pages often only carry the meta tags
+export interface InstagramProfile {
+  handle: string;
+  displayName: string;
+  bioText: string;
+  linkInBio: string | null;
+  highlightCount: number | null;
+  postCount: number | null;
+  pinnedPostCount: number | null;
+  businessCategory: string | null;
+  followerCount: number | null;
+  followingCount: number | null;
+  hasProfilePicture: boolean;
+}
+
+// Header fields read from a profile screenshot; null when the text wasn't legible
+export interface ProfileScreenshotText {
+  handle: string | null;
+  displayName: string | null;
+  bioText: string;
+  linkInBio: string | null;
+  businessCategory: string | null;
+  postCount: number | null;
+  followerCount: number | null;
+  followingCount: number | null;
+  confidence: number;
+}
+
+// Regions of a profile screenshot, in screenshot pixels
+export interface ProfileLayout {
+  header: BoundingBox;
+  bio: BoundingBox;
+  highlights: BoundingBox | null;
+  grid: BoundingBox;
+  profilePicture: BoundingBox | null;
+  highlightCircles: BoundingBox[];
+  gridTiles: BoundingBox[];
+  // Set when detection failed and the fixed percentage bands were used instead
+  lowConfidence: boolean;
+}
+
+export interface PinnedTile {
+  box: BoundingBox;
+  score: number; // best template match, -1 to 1
+  pinned: boolean;
+}
+
+export interface PinnedPostsDetection {
+  tiles: PinnedTile[];
+  confidence: number; // 0-1
+}
+
+export interface PaletteColor {
+  hex: string;
+  share: number; // 0-1 of grid pixels
+}
+
+export interface GridAesthetics {
+  score: number; // 0-100 grid cohesion
+  palette: PaletteColor[];
+  paletteCohesion: number; // 0-1
+  brightnessConsistency: number; // 0-1
+  faceRatio: number; // share of tiles showing skin-toned faces
+  textOverlayRatio: number; // share of tiles with text graphics
+  repeatedTemplateRatio: number; // share of tiles sharing a layout with another tile
+  tileCount: number;
+}
+
+export type ScreenshotType = 'profile' | 'grid' | 'highlights' | 'insights' | 'post' | 'unknown';
+
+export interface ScreenshotFinding {
+  fileName: string;
+  type: ScreenshotType;
+  findings: string[];
+}
+
+// Shared with the audit form so it can reject uploads before sending them
+export const MAX_SCREENSHOTS = 6;
+// Exports with media can be huge; the JSON-only download is a few MB
+export const MAX_EXPORT_MB = 100;
+
+// Numbers read from Professional Dashboard / Insights screenshots; null when not shown
+export interface InstagramInsights {
+  periodDays: number | null;
+  accountsReached: number | null;
+  accountsEngaged: number | null;
+  profileVisits: number | null;
+  externalLinkTaps: number | null;
+  followerGrowth: number | null; // net new followers over the period
+  totalFollowers: number | null;
+}
+
+export interface InsightsRates {
+  engagementRate: number | null; // accounts engaged / accounts reached
+  profileVisitRate: number | null; // profile visits / accounts reached
+  followerGrowthRate: number | null; // net new followers / followers, per 30 days
+  discoveryRate: number | null; // accounts reached / followers
+  linkTapRate: number | null; // external link taps / profile visits
+}
+
+// Salon accounts are small and local, so these sit below general creator benchmarks
+export const INSTAGRAM_INSIGHTS_THRESHOLDS: Record<keyof InsightsRates, { green: number; yellow: number }> = {
+  engagementRate: { green: 0.08, yellow: 0.04 },
+  profileVisitRate: { green: 0.1, yellow: 0.05 },
+  followerGrowthRate: { green: 0.02, yellow: 0.005 },
+  discoveryRate: { green: 1, yellow: 0.5 },
+  linkTapRate: { green: 0.05, yellow: 0.02 }
+};
+
+export type ExportPostType = 'photo' | 'carousel' | 'reel';
+
+// One post or reel from the account's own data export
+export interface ExportPost {
+  timestamp: number; // unix seconds
+  caption: string;
+  hashtags: string[];
+  type: ExportPostType;
+}
+
+// What the Instagram "Download your information" ZIP says about the account;
+// null when the export left that file out
+export interface InstagramDataExport {
+  username: string | null;
+  bioText: string | null;
+  website: string | null;
+  followerCount: number | null;
+  posts: ExportPost[];
+  storyTimestamps: number[];
+  highlightTitles: string[];
+  // Comments the account left on its own posts and reels
+  ownPostComments: number;
+}
+
+export interface HashtagCount {
+  tag: string;
+  count: number;
+}
+
+export interface ExportMetrics {
+  postCount: number;
+  storyCount: number;
+  highlightCount: number;
+  postsPerWeek: number | null; // over the last 90 days
+  activeWeekShare: number | null; // weeks with at least one post, last 12 weeks
+  averageCaptionLength: number | null; // characters
+  hashtagsPerPost: number | null;
+  uniqueHashtags: number;
+  topHashtags: HashtagCount[];
+  storiesPerWeek: number | null; // over the last 90 days
+  // The export holds no comments from other people, so replies are counted per post
+  repliesPerPost: number | null;
+  formats: ExportPostType[];
+}
+
+export const INSTAGRAM_EXPORT_THRESHOLDS: Record<'postsPerWeek' | 'activeWeekShare' | 'averageCaptionLength' | 'storiesPerWeek' | 'repliesPerPost', { green: number; yellow: number }> = {
+  postsPerWeek: { green: 3, yellow: 1 },
+  activeWeekShare: { green: 0.75, yellow: 0.5 },
+  averageCaptionLength: { green: 100, yellow: 40 },
+  storiesPerWeek: { green: 5, yellow: 2 },
+  repliesPerPost: { green: 1, yellow: 0.3 }
+};
+
+// Enough hashtags to be found locally, few enough not to look like spam
+export const INSTAGRAM_HASHTAG_RANGE = { min: 3, max: 15 };
+
+export interface CaptionAnalysis {
+  excerpt: string; // first words, to tell captions apart
+  length: number; // characters
+  hasCallToAction: boolean;
+  hashtags: string[];
+  localHashtags: string[];
+  megaHashtags: string[];
+  bannedHashtags: string[];
+  emojiDensity: number; // emojis per word
+  readingEase: number | null; // Flesch reading ease, null for captions without sentences
+  captionScore: number; // 0-100
+  hashtagScore: number; // 0-100
+  feedback: string[];
+}
+
+export interface CaptionReport {
+  captionCount: number;
+  captionScore: number; // 0-100 average
+  hashtagScore: number; // 0-100 average
+  callToActionShare: number;
+  averageLength: number;
+  // The same tags pasted under most posts
+  overusedHashtags: string[];
+  bannedHashtags: string[];
+  captions: CaptionAnalysis[];
+}
+
+export type BioCheckId = 'services' | 'location' | 'callToAction' | 'link' | 'contact' | 'emoji' | 'length';
+
+export interface BioCheck {
+  id: BioCheckId;
+  label: string;
+  passed: boolean;
+  suggestion: string | null; // rewrite advice when the check failed
+}
+
+export interface BioAnalysis {
+  length: number; // characters; Instagram allows 150
+  services: string[];
+  locations: string[];
+  hasCallToAction: boolean;
+  hasLink: boolean;
+  contactMethods: string[];
+  emojiCount: number;
+  checks: BioCheck[];
+  score: number; // 0-100, share of checks passed
+  template: string; // suggested rewrite, filled in from what the bio already says
+}
+
+export type LinkDestinationType = 'booking' | 'aggregator' | 'website' | 'broken';
+
+// Where the link in bio actually leads, opened on a phone-sized browser
+export interface LinkInBioAudit {
+  url: string;
+  finalUrl: string | null;
+  destination: LinkDestinationType;
+  provider: string | null; // booking tool or link page brand, e.g. Fresha or Linktree
+  redirects: number; // hops before the final page, HTTP and client-side
+  statusCode: number | null;
+  loadTime: number | null; // ms
+  // 0 when the link opens the booking tool, 1 when the page links straight to it,
+  // null when no booking action was found
+  bookingTaps: number | null;
+  bookingUrl: string | null;
+  error: string | null;
+}
+
+// Lower is better for both
+export const LINK_IN_BIO_THRESHOLDS = {
+  loadTime: { green: 3000, yellow: 6000 },
+  redirects: { green: 1, yellow: 2 }
+};
+
+export type KeyHighlight = 'services' | 'prices' | 'reviews' | 'beforeAfter' | 'book' | 'location';
+
+export interface StoryHighlight {
+  box: BoundingBox;
+  label: string | null; // null when the label couldn't be read
+  coverColor: string; // average cover color, hex
+}
+
+export interface HighlightsInventory {
+  count: number;
+  highlights: StoryHighlight[];
+  present: KeyHighlight[];
+  missing: KeyHighlight[];
+  coverConsistency: number; // 0-1, how alike the cover colors are
+}
+
+export const KEY_HIGHLIGHT_LABELS: Record<KeyHighlight, string> = {
+  services: 'Services',
+  prices: 'Prices',
+  reviews: 'Reviews',
+  beforeAfter: 'Before & After',
+  book: 'Book',
+  location: 'Location'
+};
+
+export type ProfilePictureKind = 'logo' | 'face' | 'photo';
+
+// The avatar as cropped from a profile screenshot
+export interface ProfilePictureQuality {
+  score: number; // 0-100
+  kind: ProfilePictureKind;
+  diameter: number; // screenshot pixels
+  sharpness: number; // variance of the Laplacian; low means blurry
+  contrast: number; // 0-1, how far the subject stands out from the edge of the circle
+  hasText: boolean;
+  textLegible: boolean | null; // whether the text still reads at feed size; null without text
+  image: string; // circular crop as a PNG data URL
+}
+
+export const PROFILE_PICTURE_THRESHOLDS = {
+  diameter: { green: 150, yellow: 100 },
+  sharpness: { green: 100, yellow: 40 },
+  contrast: { green: 0.15, yellow: 0.07 }
+};
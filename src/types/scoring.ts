@@ -0,0 +1,62 @@
+import type { ImageCrop } from './image';
+
+export interface CriterionDefinition {
+  id: string;
+  label: string;
+  weight: number;
+}
+
+export interface ScoringCriteria {
+  category: string;
+  items: CriterionDefinition[];
+}
+
+// The page element or screenshot region a check matched
+export interface ElementEvidence {
+  selector?: string; // CSS path to the element on the live page
+  snippet?: string; // its text or the attribute that was checked, shortened
+  crop?: ImageCrop;
+}
+
+export interface CriterionEvidence extends ElementEvidence {
+  path: string;
+  value: unknown;
+  thresholds?: { green: number; yellow: number }; // what the value was compared against
+}
+
+// Only pass and fail count towards the score; unknown means the audit couldn't
+// check it, not_applicable that there was nothing to check
+export type CriterionStatus = 'pass' | 'fail' | 'unknown' | 'not_applicable';
+
+export const CRITERION_STATUS_LABELS: Record<CriterionStatus, string> = {
+  pass: 'Pass',
+  fail: 'Fail',
+  unknown: 'Couldn\'t check',
+  not_applicable: 'Not applicable'
+};
+
+export interface CriterionResult {
+  id: string;
+  label: string;
+  weight: number;
+  credit: number; // 0-1, partial credit allowed
+  points: number;
+  status: CriterionStatus;
+  reason?: string; // why the criterion is unknown or not applicable
+  evidence: CriterionEvidence;
+}
+
+export interface ScoringResult {
+  totalPoints: number;
+  maxPoints: number;
+  percentage: number;
+  details: {
+    [key: string]: {
+      score: number;
+      maxScore: number;
+      items: {
+        [key: string]: CriterionResult;
+      };
+    };
+  };
+}
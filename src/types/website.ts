@@ -1,77 +1,567 @@
-export interface ScoringCriteria {
-  category: string;
-  items: string[];
-}
+import type { BoundingBox } from './image';
+import type { CriterionDefinition, ScoringCriteria } from './scoring';
+
+export type { ScoringCriteria, ScoringResult } from './scoring';
 
-export interface ScoringResult {
-  totalPoints: number;
+export interface WeightedScoringCategory {
   maxPoints: number;
-  percentage: number;
-  details: {
+  criteria: {
     [key: string]: {
-      score: number;
-      maxScore: number;
-      items: {
-        [key: string]: boolean;
+      weight: number;
+      thresholds: {
+        green: number;
+        yellow: number;
+        red: number;
       };
+      description: string;
     };
   };
 }
 
+// Weights and thresholds used by the scoring engine for each website criterion
+export const WEBSITE_SCORING_SYSTEM: Record<string, WeightedScoringCategory> = {
+  technicalSeo: {
+    maxPoints: 35,
+    criteria: {
+      pageLoadSpeed: {
+        weight: 10,
+        thresholds: {
+          green: 2000, // 2 seconds or less
+          yellow: 4000, // 4 seconds
+          red: 4000 // More than 4 seconds
+        },
+        description: 'Page load time in milliseconds'
+      },
+      mobileFriendly: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Fully responsive
+          yellow: 0.5, // Partially responsive
+          red: 0 // Not responsive
+        },
+        description: 'Mobile responsiveness score'
+      },
+      coreWebVitals: {
+        weight: 10,
+        thresholds: {
+          green: 0.9, // All vitals pass
+          yellow: 0.6, // Some vitals pass
+          red: 0.3 // Most vitals fail
+        },
+        description: 'Core Web Vitals performance'
+      },
+      brokenLinks: {
+        weight: 5,
+        thresholds: {
+          green: 0, // No broken links
+          yellow: 5, // 1-5 broken links
+          red: 5 // More than 5 broken links
+        },
+        description: 'Number of broken links'
+      },
+      crawlability: {
+        weight: 5,
+        thresholds: {
+          green: 0, // robots.txt and the sitemap agree and cover the key pages
+          yellow: 2, // 1-2 indexing issues
+          red: 2 // More than 2 indexing issues
+        },
+        description: 'Robots.txt and sitemap issues'
+      }
+    }
+  },
+  onPageSeo: {
+    maxPoints: 20,
+    criteria: {
+      metaTitle: {
+        weight: 4,
+        thresholds: {
+          green: 1, // Perfect title (50-60 chars, includes keywords)
+          yellow: 0.5, // Acceptable title
+          red: 0 // Missing or poor title
+        },
+        description: 'Meta title optimization'
+      },
+      metaDescription: {
+        weight: 4,
+        thresholds: {
+          green: 1, // Perfect description (150-160 chars, includes keywords)
+          yellow: 0.5, // Acceptable description
+          red: 0 // Missing or poor description
+        },
+        description: 'Meta description optimization'
+      },
+      h1Tags: {
+        weight: 4,
+        thresholds: {
+          green: 1, // Perfect H1 structure
+          yellow: 0.5, // Acceptable H1 structure
+          red: 0 // Poor H1 structure
+        },
+        description: 'H1 tag optimization'
+      },
+      keywordPresence: {
+        weight: 4,
+        thresholds: {
+          green: 80, // 80-100% keyword coverage
+          yellow: 50, // 50-79% keyword coverage
+          red: 50 // Less than 50% keyword coverage
+        },
+        description: 'Keyword presence in content'
+      },
+      altTextCoverage: {
+        weight: 4,
+        thresholds: {
+          green: 90, // 90-100% images have alt text
+          yellow: 60, // 60-89% images have alt text
+          red: 60 // Less than 60% images have alt text
+        },
+        description: 'Alt text coverage for images'
+      }
+    }
+  },
+  contentCompleteness: {
+    maxPoints: 20,
+    criteria: {
+      servicesListed: {
+        weight: 4,
+        thresholds: {
+          green: 1, // Services are listed and described
+          yellow: 0.5, // Services are listed but not described
+          red: 0 // Services are not listed
+        },
+        description: 'Services are listed and described'
+      },
+      imageQuality: {
+        weight: 4,
+        thresholds: {
+          green: 1, // High-quality images
+          yellow: 0.5, // Acceptable image quality
+          red: 0 // Poor image quality
+        },
+        description: 'Image quality'
+      },
+      staffBios: {
+        weight: 4,
+        thresholds: {
+          green: 1, // Staff bios are present
+          yellow: 0.5, // Partial staff bios
+          red: 0 // No staff bios
+        },
+        description: 'Staff bios'
+      },
+      testimonials: {
+        weight: 4,
+        thresholds: {
+          green: 1, // Testimonials are included
+          yellow: 0.5, // Partial testimonials
+          red: 0 // No testimonials
+        },
+        description: 'Testimonials'
+      },
+      blog: {
+        weight: 4,
+        thresholds: {
+          green: 1, // Blog or news section is present
+          yellow: 0.5, // Partial blog or news section
+          red: 0 // No blog or news section
+        },
+        description: 'Blog or news section'
+      }
+    }
+  },
+  brandingConsistency: {
+    maxPoints: 20,
+    criteria: {
+      logo: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Logo is present and consistent
+          yellow: 0.5, // Logo is present but inconsistent
+          red: 0 // No logo
+        },
+        description: 'Logo presence and consistency'
+      },
+      colorUsage: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Color usage is consistent
+          yellow: 0.5, // Partial color consistency
+          red: 0 // Inconsistent color usage
+        },
+        description: 'Color usage consistency'
+      },
+      typography: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Typography is consistent
+          yellow: 0.5, // Partial typography consistency
+          red: 0 // Inconsistent typography
+        },
+        description: 'Typography consistency'
+      },
+      consistentTone: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Tone of voice is consistent
+          yellow: 0.5, // Partial tone consistency
+          red: 0 // Inconsistent tone of voice
+        },
+        description: 'Tone of voice consistency'
+      }
+    }
+  },
+  socialContactIntegration: {
+    maxPoints: 15,
+    criteria: {
+      socialMediaLinks: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Social media links are present
+          yellow: 0.5, // Partial social media links
+          red: 0 // No social media links
+        },
+        description: 'Social media links'
+      },
+      contactForm: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Contact form is functional
+          yellow: 0.5, // Partial contact form
+          red: 0 // No contact form
+        },
+        description: 'Contact form'
+      },
+      bookingIntegration: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Booking integration is present
+          yellow: 0.5, // Partial booking integration
+          red: 0 // No booking integration
+        },
+        description: 'Booking integration'
+      }
+    }
+  },
+  securityAccessibility: {
+    maxPoints: 25,
+    criteria: {
+      https: {
+        weight: 5,
+        thresholds: {
+          green: 1, // HTTPS is enabled
+          yellow: 0.5, // Partial HTTPS
+          red: 0 // No HTTPS
+        },
+        description: 'HTTPS'
+      },
+      securityHeaders: {
+        weight: 5,
+        thresholds: {
+          green: 4, // 4 or more security headers
+          yellow: 2, // 2-3 security headers
+          red: 0 // Fewer than 2 security headers
+        },
+        description: 'Number of security headers sent'
+      },
+      ariaTags: {
+        weight: 5,
+        thresholds: {
+          green: 1, // ARIA tags are used
+          yellow: 0.5, // Partial ARIA tags
+          red: 0 // No ARIA tags
+        },
+        description: 'ARIA tags'
+      },
+      altText: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Alt text is present for images
+          yellow: 0.5, // Partial alt text
+          red: 0 // No alt text
+        },
+        description: 'Alt text'
+      },
+      contrastCompliance: {
+        weight: 5,
+        thresholds: {
+          green: 1, // Contrast compliance is met
+          yellow: 0.5, // Partial contrast compliance
+          red: 0 // No contrast compliance
+        },
+        description: 'Contrast compliance'
+      }
+    }
+  }
+};
+
+// Criterion ids are "<category>.<criterion>" keys into WEBSITE_SCORING_SYSTEM
+const websiteCriterion = (id: string, label: string): CriterionDefinition => {
+  const [category, criterion] = id.split('.');
+  return { id, label, weight: WEBSITE_SCORING_SYSTEM[category].criteria[criterion].weight };
+};
+
 export const WEBSITE_SCORING_CRITERIA: ScoringCriteria[] = [
   {
     category: "Technical SEO",
     items: [
-      "Page load speed is under 2 seconds",
-      "Mobile-friendly design",
-      "Core Web Vitals pass",
-      "No broken links"
+      websiteCriterion('technicalSeo.pageLoadSpeed', "Page load speed is under 2 seconds"),
+      websiteCriterion('technicalSeo.mobileFriendly', "Mobile-friendly design"),
+      websiteCriterion('technicalSeo.coreWebVitals', "Core Web Vitals pass"),
+      websiteCriterion('technicalSeo.brokenLinks', "No broken links"),
+      websiteCriterion('technicalSeo.crawlability', "Search engines can find your pages (robots.txt and sitemap)")
     ]
   },
   {
     category: "On-Page SEO",
     items: [
-      "Meta title is optimized (50-60 characters)",
-      "Meta description is optimized (150-160 characters)",
-      "H1 tags are properly used",
-      "Keyword presence in content is high",
-      "Alt text coverage for images is high"
+      websiteCriterion('onPageSeo.metaTitle', "Meta title is optimized (50-60 characters)"),
+      websiteCriterion('onPageSeo.metaDescription', "Meta description is optimized (150-160 characters)"),
+      websiteCriterion('onPageSeo.h1Tags', "H1 tags are properly used"),
+      websiteCriterion('onPageSeo.keywordPresence', "Keyword presence in content is high"),
+      websiteCriterion('onPageSeo.altTextCoverage', "Alt text coverage for images is high")
     ]
   },
   {
     category: "Content Completeness",
     items: [
-      "Services are listed and described",
-      "High-quality images are used",
-      "Staff bios are present",
-      "Testimonials are included",
-      "Blog or news section is present"
+      websiteCriterion('contentCompleteness.servicesListed', "Services are listed and described"),
+      websiteCriterion('contentCompleteness.imageQuality', "High-quality images are used"),
+      websiteCriterion('contentCompleteness.staffBios', "Staff bios are present"),
+      websiteCriterion('contentCompleteness.testimonials', "Testimonials are included"),
+      websiteCriterion('contentCompleteness.blog', "Blog or news section is present")
     ]
   },
   {
     category: "Branding Consistency",
     items: [
-      "Logo is present and consistent",
-      "Color usage is consistent",
-      "Typography is consistent",
-      "Tone of voice is consistent"
+      websiteCriterion('brandingConsistency.logo', "Logo is present and consistent"),
+      websiteCriterion('brandingConsistency.colorUsage', "Color usage is consistent"),
+      websiteCriterion('brandingConsistency.typography', "Typography is consistent"),
+      websiteCriterion('brandingConsistency.consistentTone', "Tone of voice is consistent")
     ]
   },
   {
     category: "Social & Contact Integration",
     items: [
-      "Social media links are present",
-      "Contact form is functional",
-      "Booking integration is present"
+      websiteCriterion('socialContactIntegration.socialMediaLinks', "Social media links are present"),
+      websiteCriterion('socialContactIntegration.contactForm', "Contact form is functional"),
+      websiteCriterion('socialContactIntegration.bookingIntegration', "Booking integration is present")
     ]
   },
   {
     category: "Security & Accessibility",
     items: [
-      "HTTPS is enabled",
-      "ARIA tags are used",
-      "Alt text is present for images",
-      "Contrast compliance is met"
+      websiteCriterion('securityAccessibility.https', "HTTPS is enabled"),
+      websiteCriterion('securityAccessibility.securityHeaders', "Security headers are set"),
+      websiteCriterion('securityAccessibility.ariaTags', "ARIA tags are used"),
+      websiteCriterion('securityAccessibility.altText', "Alt text is present for images"),
+      websiteCriterion('securityAccessibility.contrastCompliance', "Contrast compliance is met")
     ]
   }
-]; 
\ No newline at end of file
+];
+
+export type SocialNetwork = 'instagram' | 'facebook' | 'tiktok';
+
+// Where on the screenshot each finding was read, for showing as evidence
+export type WebsiteScreenshotRegion = 'headline' | 'logo' | 'booking' | 'phone' | 'email' | 'address' | 'social' | 'lowestContrast';
+
+// What OCR and simple pixel checks found on an uploaded website screenshot
+export interface WebsiteScreenshotReading {
+  text: string;
+  confidence: number; // 0-100, mean OCR confidence
+  isMobileLayout: boolean; // text is sized for a phone rather than a zoomed-out desktop page
+  headline: string | null; // largest text on the first screen
+  phones: string[];
+  emails: string[];
+  addresses: string[];
+  mentionsLocation: boolean; // "find us", "directions" and the like
+  bookingLabels: string[]; // booking text, buttons first
+  buttonCount: number;
+  socialNetworks: SocialNetwork[]; // named in the text or shown as brand icons
+  hasLogo: boolean;
+  paletteSize: number; // flat colors covering a noticeable share of the page
+  keywordDensity: number; // percent of words that are salon keywords
+  contrastPassRate: number | null; // share of text lines at 4.5:1 or better; null without text
+  regions: Partial<Record<WebsiteScreenshotRegion, BoundingBox>>;
+}
+
+// Labels for the analysis fields a screenshot audit can leave undetermined
+export const WEBSITE_FIELD_LABELS: Record<string, string> = {
+  'seo.metaTitle': 'Meta title',
+  'seo.metaDescription': 'Meta description',
+  'seo.hasSitemap': 'Sitemap',
+  'performance.loadTime': 'Load time',
+  'performance.lighthouseScore': 'Performance score',
+  'performance.imageOptimization': 'Image formats',
+  'mobile.isResponsive': 'Mobile layout',
+  'mobile.viewportMeta': 'Viewport tag',
+  'branding.fontConsistency': 'Fonts',
+  'social.hasSocialFeeds': 'Social feeds',
+  'accessibility.hasAriaTags': 'ARIA attributes',
+  'accessibility.hasAltTexts': 'Image alt text',
+  'accessibility.contrastRatio': 'Text contrast',
+  'content.hasPrices': 'Services and prices',
+  'content.bioCount': 'Team bios',
+  'content.hasTestimonials': 'Testimonials',
+  'content.hasBlog': 'Blog or news',
+  'links.brokenCount': 'Broken links',
+  'indexing.issues': 'Robots.txt and sitemap',
+  'host.issues': 'Site address',
+  'security.https': 'HTTPS',
+  'security.headers': 'Security headers'
+};
+
+// Elements outlined on the full-page screenshots of a live site
+export type WebsiteAnnotationKind = 'logo' | 'headline' | 'booking' | 'phone' | 'social' | 'missingAlt';
+
+export const WEBSITE_ANNOTATION_STYLES: Record<WebsiteAnnotationKind, { label: string; color: string }> = {
+  logo: { label: 'Logo', color: '#7C3AED' },
+  headline: { label: 'Main heading', color: '#2563EB' },
+  booking: { label: 'Booking button', color: '#16A34A' },
+  phone: { label: 'Phone number', color: '#0891B2' },
+  social: { label: 'Social link', color: '#DB2777' },
+  missingAlt: { label: 'Image without alt text', color: '#DC2626' }
+};
+
+export interface WebsiteAnnotation {
+  kind: WebsiteAnnotationKind;
+  box: BoundingBox; // in the returned image's pixels
+}
+
+export type WebsiteDevice = 'mobile' | 'desktop';
+
+// A full-page capture with the found elements drawn on it
+export interface AnnotatedScreenshot {
+  device: WebsiteDevice;
+  image: string; // data URL
+  width: number;
+  height: number;
+  truncated: boolean; // the page was taller than we capture
+  annotations: WebsiteAnnotation[];
+}
+
+// What a crawled page is for, guessed from its address and title
+export type WebsitePageKind = 'home' | 'services' | 'team' | 'testimonials' | 'contact' | 'booking' | 'blog' | 'other';
+
+export interface CrawledPage {
+  url: string;
+  depth: number; // clicks from the homepage
+  kind: WebsitePageKind;
+  title: string;
+  hasMetaDescription: boolean;
+  noindex: boolean; // asks search engines to leave it out
+  h1Count: number;
+  imageCount: number;
+  missingAltCount: number;
+  hasPrices: boolean; // services listed with prices
+  bioCount: number; // team members with a written bio
+  hasTestimonials: boolean;
+  hasBlogPosts: boolean;
+}
+
+export type LinkedResourceType = 'link' | 'image' | 'script';
+
+// An address referenced by a crawled page
+export interface LinkedResource {
+  url: string;
+  type: LinkedResourceType;
+  internal: boolean; // on the audited site
+  foundOn: string; // the first page that referenced it
+}
+
+export interface CheckedLink extends LinkedResource {
+  status: number | null; // of the final response; null when the request failed
+  error?: string;
+  redirects: string[]; // each address redirected to, in order
+}
+
+export interface LinkReport {
+  checked: number;
+  broken: CheckedLink[];
+  redirectChains: CheckedLink[]; // internal links that redirect, and anything redirecting more than once
+  mixedContent: LinkedResource[]; // http images and scripts on https pages
+  unverified: number; // refused automated requests or over the check limit
+}
+
+// What robots.txt and the sitemap tell search engines about the site
+export interface IndexingReport {
+  robotsTxt: {
+    found: boolean;
+    declaredSitemaps: string[];
+    crawlDelay: number | null; // seconds
+  };
+  sitemap: {
+    found: boolean;
+    files: string[]; // indexes and the sitemaps they list
+    urlCount: number;
+    newestLastmod: string | null; // ISO date of the most recently changed page
+    lastmodCoverage: number; // 0-1, share of listed pages with a lastmod date
+    isStale: boolean;
+  };
+  blockedKeyPages: string[]; // the homepage and key pages robots.txt disallows
+  conflicts: { url: string; issue: string }[];
+}
+
+// Where the audited address settles, and whether the site answers on one host
+export interface HostReport {
+  requestedUrl: string; // the address we loaded, as entered
+  finalUrl: string; // after redirects
+  canonicalOrigin: string; // the origin the homepage is served from
+  // The same address with or without www; null for hosts without one, like subdomains
+  alternate: {
+    origin: string;
+    landsOn: string | null; // origin it ends up on; null when it doesn't load
+  } | null;
+  canonicalTag: string | null; // the homepage's <link rel="canonical">, resolved
+}
+
+// Response headers that protect visitors, checked on the homepage
+export type SecurityHeader =
+  | 'strict-transport-security'
+  | 'content-security-policy'
+  | 'x-frame-options'
+  | 'x-content-type-options'
+  | 'referrer-policy'
+  | 'permissions-policy';
+
+export const SECURITY_HEADER_LABELS: Record<SecurityHeader, string> = {
+  'strict-transport-security': 'HSTS (Strict-Transport-Security)',
+  'content-security-policy': 'Content-Security-Policy',
+  'x-frame-options': 'X-Frame-Options',
+  'x-content-type-options': 'X-Content-Type-Options',
+  'referrer-policy': 'Referrer-Policy',
+  'permissions-policy': 'Permissions-Policy'
+};
+
+export interface CertificateCheck {
+  chainValid: boolean; // issued by a trusted authority
+  hostnameMatches: boolean;
+  issuer: string;
+  expiresAt: string; // ISO date
+  daysLeft: number;
+}
+
+export interface SecurityReport {
+  https: boolean; // the homepage was served over https
+  redirectsToHttps: boolean | null; // null when nothing answers over plain http
+  certificate: CertificateCheck | null; // null without https or when the handshake failed
+  mixedContent: number; // http images and scripts on https pages
+  headers: Partial<Record<SecurityHeader, string>>; // the ones sent, with their values
+  score: number; // 0-100
+}
+
+// Sent with each page as the crawl reaches it
+export interface CrawlProgress {
+  url: string;
+  index: number; // 1-based, counting the homepage
+  total: number; // pages we expect to check, which grows as links are found
+}
+
+export interface WebsiteCrawl {
+  pages: CrawledPage[];
+  // Pages found but not loaded: disallowed by robots.txt or failed to load
+  skipped: { url: string; reason: string }[];
+  unvisited: number; // found but over the page or attempt limit
+  robotsTxtFound: boolean;
+}